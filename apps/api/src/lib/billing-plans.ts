@@ -4,6 +4,8 @@ export type BillingPlan = {
   description?: string;
   amountCents: number;
   currency: string;
+  // Deployments bought with this plan expire after this many hours unless the order sets its own expiry.
+  defaultTtlHours?: number;
 };
 
 const DEFAULT_PLANS: BillingPlan[] = [
@@ -24,10 +26,12 @@ function normalizePlan(raw: unknown): BillingPlan | null {
   const description = row.description ? String(row.description).trim() : undefined;
   const amountCents = Number(row.amountCents);
   const currency = String(row.currency || "").trim().toLowerCase();
+  const defaultTtlHours = row.defaultTtlHours === undefined ? undefined : Number(row.defaultTtlHours);
 
   if (!id || !name) return null;
   if (!Number.isInteger(amountCents) || amountCents <= 0) return null;
   if (!/^[a-z]{3}$/.test(currency)) return null;
+  if (defaultTtlHours !== undefined && !(Number.isFinite(defaultTtlHours) && defaultTtlHours > 0)) return null;
 
   return {
     id,
@@ -35,6 +39,7 @@ function normalizePlan(raw: unknown): BillingPlan | null {
     description: description || undefined,
     amountCents,
     currency,
+    defaultTtlHours,
   };
 }
 
@@ -95,6 +95,10 @@ export type BillingOrderEvent = {
   createdAt: string;
 };
 
+export type BillingStoreHooks = {
+  onOrderEventAppended?: (event: BillingOrderEvent) => void | Promise<void>;
+};
+
 export type CheckoutIdempotentResponse = {
   idempotencyKey: string;
   requestHash: string;
@@ -144,13 +148,15 @@ function buildInProgressMarker(now: string): IdempotencyInProgressMarker {
 
 export class BillingStore {
   readonly #db: Database.Database;
+  readonly #hooks: BillingStoreHooks;
 
-  constructor(dbPath: string) {
+  constructor(dbPath: string, hooks: BillingStoreHooks = {}) {
     const absolutePath = path.resolve(dbPath);
     fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
     this.#db = new Database(absolutePath);
     this.#db.pragma("journal_mode = WAL");
     this.#db.pragma("foreign_keys = ON");
+    this.#hooks = hooks;
     this.#init();
   }
 
@@ -158,6 +164,13 @@ export class BillingStore {
     this.#db.close();
   }
 
+  #notifyOrderEventAppended(event: BillingOrderEvent) {
+    if (!this.#hooks.onOrderEventAppended) return;
+    void Promise.resolve(this.#hooks.onOrderEventAppended(event)).catch((error) => {
+      console.error("BillingStore onOrderEventAppended hook failed", error);
+    });
+  }
+
   #init() {
     this.#db.exec(`
       CREATE TABLE IF NOT EXISTS billing_orders (
@@ -358,6 +371,34 @@ export class BillingStore {
       createdAt: row.created_at,
     }));
   }
+  // Events of every order after `afterId`, oldest first: the webhook dispatcher's catch-up read.
+  listOrderEventsAfter(afterId: number, limit = 500): BillingOrderEvent[] {
+    const rows = this.#db
+      .prepare(
+        `
+      SELECT id, order_id, type, message, payload_json, created_at
+      FROM billing_order_events
+      WHERE id > ?
+      ORDER BY id ASC
+      LIMIT ?
+    `,
+      )
+      .all(afterId, limit) as BillingOrderEventRow[];
+    return rows.map((row) => ({
+      id: row.id,
+      orderId: row.order_id,
+      type: row.type,
+      message: row.message,
+      payload: parseJson<Record<string, unknown>>(row.payload_json, {}),
+      createdAt: row.created_at,
+    }));
+  }
+
+  lastOrderEventId(): number {
+    const row = this.#db.prepare(`SELECT MAX(id) AS id FROM billing_order_events`).get() as { id: number | null };
+    return row.id ?? 0;
+  }
+
 
   appendOrderEvent(
     orderId: string,
@@ -381,7 +422,7 @@ export class BillingStore {
         payload ? JSON.stringify(payload) : null,
         createdAt,
       );
-    return {
+    const event: BillingOrderEvent = {
       id: Number(result.lastInsertRowid),
       orderId,
       type,
@@ -389,6 +430,8 @@ export class BillingStore {
       payload: payload ?? {},
       createdAt,
     };
+    this.#notifyOrderEventAppended(event);
+    return event;
   }
 
   createOrder(input: {
@@ -0,0 +1,252 @@
+import crypto from "node:crypto";
+import { DigitalOceanClient, type DigitalOceanDroplet } from "./digitalocean-client.js";
+import { HetznerClient, type HetznerServer } from "./hetzner-client.js";
+
+export type CloudProviderName = "hetzner" | "digitalocean";
+
+export const CLOUD_PROVIDER_NAMES = ["hetzner", "digitalocean"] as const satisfies readonly CloudProviderName[];
+
+// `serverType` / `image` / `location` map to DigitalOcean's size / image / region slugs.
+export const CLOUD_PROVIDER_DEFAULTS: Record<
+  CloudProviderName,
+  { serverType: string; image: string; location: string }
+> = {
+  hetzner: { serverType: "cx23", image: "ubuntu-24.04", location: "nbg1" },
+  digitalocean: { serverType: "s-2vcpu-4gb", image: "ubuntu-24-04-x64", location: "fra1" },
+};
+
+export type CloudServer = {
+  id: number;
+  name: string;
+  status: string;
+  ipv4: string | null;
+  labels: Record<string, string>;
+  createdAt: string;
+};
+
+export type CloudServerSpec = {
+  name: string;
+  serverType: string;
+  image: string;
+  location: string;
+  sshKeyIds: number[];
+  labels: Record<string, string>;
+};
+
+export interface CloudProvider {
+  readonly name: CloudProviderName;
+  readonly label: string;
+  createSshKey(params: { name: string; publicKey: string }): Promise<{ id: number; name: string }>;
+  deleteSshKey(id: number): Promise<void>;
+  listSshKeys(): Promise<Array<{ id: number; name: string }>>;
+  createServer(spec: CloudServerSpec): Promise<CloudServer>;
+  // Resolves once the server is running and has a public IPv4.
+  waitForServer(id: number, opts?: { timeoutMs?: number }): Promise<CloudServer>;
+  getServer(id: number): Promise<CloudServer>;
+  // Resolves once the provider accepted (and, where it reports one, completed) the deletion.
+  deleteServer(id: number): Promise<void>;
+  listServersByLabel(labels: Record<string, string>): Promise<CloudServer[]>;
+}
+
+// Identifies a provider account (API token) in the database and reports without storing the token itself.
+export function providerAccountFingerprint(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex").slice(0, 12);
+}
+
+export function isProviderNotFound(error: unknown): boolean {
+  return Number((error as any)?.statusCode || 0) === 404;
+}
+
+// Hetzner reports "running", DigitalOcean "active".
+export function isServerRunning(server: CloudServer): boolean {
+  return server.status === "running" || server.status === "active";
+}
+
+function fromHetznerServer(server: HetznerServer): CloudServer {
+  return {
+    id: server.id,
+    name: server.name,
+    status: server.status,
+    ipv4: server.public_net?.ipv4?.ip ?? null,
+    labels: server.labels ?? {},
+    createdAt: server.created,
+  };
+}
+
+class HetznerCloudProvider implements CloudProvider {
+  readonly name = "hetzner" as const;
+  readonly label = "Hetzner";
+  readonly #client: HetznerClient;
+  readonly #pendingCreateActions = new Map<number, number>();
+
+  constructor(token: string) {
+    this.#client = new HetznerClient(token);
+  }
+
+  async createSshKey(params: { name: string; publicKey: string }) {
+    const res = await this.#client.createSshKey({ name: params.name, public_key: params.publicKey });
+    return { id: res.ssh_key.id, name: res.ssh_key.name };
+  }
+
+  async deleteSshKey(id: number) {
+    await this.#client.deleteSshKey(id);
+  }
+
+  async listSshKeys() {
+    const keys = await this.#client.listSshKeys();
+    return keys.map((key) => ({ id: key.id, name: key.name }));
+  }
+
+  async createServer(spec: CloudServerSpec) {
+    const create = await this.#client.createServer({
+      name: spec.name,
+      server_type: spec.serverType,
+      image: spec.image,
+      location: spec.location,
+      ssh_keys: spec.sshKeyIds,
+      start_after_create: true,
+      public_net: { enable_ipv4: true, enable_ipv6: true },
+      labels: spec.labels,
+    });
+    if (create.action?.id) {
+      this.#pendingCreateActions.set(create.server.id, create.action.id);
+    }
+    return fromHetznerServer(create.server);
+  }
+
+  async waitForServer(id: number, opts?: { timeoutMs?: number }) {
+    const actionId = this.#pendingCreateActions.get(id);
+    if (actionId) {
+      await this.#client.waitForAction(actionId, { timeoutMs: opts?.timeoutMs ?? 180_000 });
+      this.#pendingCreateActions.delete(id);
+    }
+    const server = await this.getServer(id);
+    if (!server.ipv4) {
+      throw new Error("No ipv4 assigned yet");
+    }
+    return server;
+  }
+
+  async getServer(id: number) {
+    const { server } = await this.#client.getServer(id);
+    return fromHetznerServer(server);
+  }
+
+  async deleteServer(id: number) {
+    const deletion = await this.#client.deleteServer(id);
+    const actionId = deletion.action?.id;
+    if (actionId) {
+      await this.#client.waitForAction(actionId, { timeoutMs: 180_000 });
+    }
+  }
+
+  async listServersByLabel(labels: Record<string, string>) {
+    const labelSelector = Object.entries(labels)
+      .map(([key, value]) => `${key}==${value}`)
+      .join(",");
+    const servers = await this.#client.listServers({ labelSelector });
+    return servers.map(fromHetznerServer);
+  }
+}
+
+// DigitalOcean has tags instead of key/value labels, so labels are stored as "key:value" tags.
+function labelsToTags(labels: Record<string, string>): string[] {
+  return Object.entries(labels).map(([key, value]) => `${key}:${value}`);
+}
+
+function tagsToLabels(tags: string[] | undefined): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const tag of tags ?? []) {
+    const separator = tag.indexOf(":");
+    if (separator <= 0) continue;
+    labels[tag.slice(0, separator)] = tag.slice(separator + 1);
+  }
+  return labels;
+}
+
+function fromDroplet(droplet: DigitalOceanDroplet): CloudServer {
+  const publicIpv4 = (droplet.networks?.v4 ?? []).find((entry) => entry.type === "public");
+  return {
+    id: droplet.id,
+    name: droplet.name,
+    status: droplet.status,
+    ipv4: publicIpv4?.ip_address ?? null,
+    labels: tagsToLabels(droplet.tags),
+    createdAt: droplet.created_at,
+  };
+}
+
+class DigitalOceanCloudProvider implements CloudProvider {
+  readonly name = "digitalocean" as const;
+  readonly label = "DigitalOcean";
+  readonly #client: DigitalOceanClient;
+
+  constructor(token: string, opts?: { baseUrl?: string }) {
+    this.#client = new DigitalOceanClient(token, opts);
+  }
+
+  async createSshKey(params: { name: string; publicKey: string }) {
+    const res = await this.#client.createSshKey({ name: params.name, public_key: params.publicKey });
+    return { id: res.ssh_key.id, name: res.ssh_key.name };
+  }
+
+  async deleteSshKey(id: number) {
+    await this.#client.deleteSshKey(id);
+  }
+
+  async listSshKeys() {
+    const keys = await this.#client.listSshKeys();
+    return keys.map((key) => ({ id: key.id, name: key.name }));
+  }
+
+  async createServer(spec: CloudServerSpec) {
+    const { droplet } = await this.#client.createDroplet({
+      name: spec.name,
+      region: spec.location,
+      size: spec.serverType,
+      image: spec.image,
+      ssh_keys: spec.sshKeyIds,
+      tags: labelsToTags(spec.labels),
+      ipv6: true,
+    });
+    return fromDroplet(droplet);
+  }
+
+  async waitForServer(id: number, opts?: { timeoutMs?: number }) {
+    const droplet = await this.#client.waitForDropletActive(id, { timeoutMs: opts?.timeoutMs ?? 180_000 });
+    return fromDroplet(droplet);
+  }
+
+  async getServer(id: number) {
+    const { droplet } = await this.#client.getDroplet(id);
+    return fromDroplet(droplet);
+  }
+
+  async deleteServer(id: number) {
+    await this.#client.deleteDroplet(id);
+  }
+
+  async listServersByLabel(labels: Record<string, string>) {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) {
+      throw new Error("listServersByLabel requires at least one label");
+    }
+    // The API filters by a single tag; the remaining labels are matched locally.
+    const [firstTag] = labelsToTags(Object.fromEntries([entries[0]]));
+    const droplets = await this.#client.listDropletsByTag(firstTag);
+    return droplets
+      .map(fromDroplet)
+      .filter((server) => entries.every(([key, value]) => server.labels[key] === value));
+  }
+}
+
+export function createCloudProvider(
+  name: CloudProviderName,
+  token: string,
+  opts?: { baseUrl?: string },
+): CloudProvider {
+  if (name === "digitalocean") {
+    return new DigitalOceanCloudProvider(token, opts);
+  }
+  return new HetznerCloudProvider(token);
+}
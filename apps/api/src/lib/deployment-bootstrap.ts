@@ -0,0 +1,122 @@
+import type { DeploymentConfig, DeploymentSecrets } from "./deployments-store.js";
+import { buildRemoteBootstrapScript, buildRemoteReconfigureScript, TailscaleMode } from "./remote-script.js";
+
+export const GATEWAY_PORT = 18789;
+
+export function toRfc1123Label(value: string): string {
+  const normalized = String(value || "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-+/, "")
+    .replace(/-+$/, "");
+
+  const sliced = normalized.slice(0, 63).replace(/-+$/, "");
+  const candidate = sliced || "openclaw";
+  if (!/^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/.test(candidate)) {
+    return "openclaw";
+  }
+  return candidate;
+}
+
+export function tailscaleModeFor(config: DeploymentConfig): TailscaleMode {
+  const accessMode = config.accessMode ?? "tailscale-serve";
+  return accessMode === "tailscale-funnel" ? "funnel" : accessMode === "tailscale-serve" ? "serve" : "off";
+}
+
+// The URL of a public-domain deployment is known up front; tailnet URLs are only known once the machine joined.
+export function publicDomainUrl(config: DeploymentConfig): string | null {
+  return config.accessMode === "public-domain" && config.publicDomain ? `https://${config.publicDomain}/` : null;
+}
+
+// The bootstrap script for a deployment plus the environment it expects. Secrets only travel in `env`,
+// never in the script body, so callers decide how to deliver them (SSH command line or install script).
+export function buildDeploymentBootstrap(
+  config: DeploymentConfig,
+  secrets: DeploymentSecrets,
+  opts: { gatewayToken: string; sshPort?: number },
+): { script: string; env: Record<string, string> } {
+  const script = buildRemoteBootstrapScript({
+    gatewayPort: GATEWAY_PORT,
+    gatewayBind: "loopback",
+    tailscaleMode: tailscaleModeFor(config),
+    publicDomain:
+      config.accessMode === "public-domain" && config.publicDomain
+        ? { hostname: config.publicDomain, acmeEmail: config.acmeEmail }
+        : undefined,
+    sshPort: opts.sshPort,
+    authChoice: config.authChoice,
+    discordBotToken: secrets.discordBotToken,
+    discordGroupPolicy: config.discordGroupPolicy,
+    discordGuildId: config.discordGuildId,
+    discordChannelIds: config.discordChannelIds,
+    discordGuilds: config.discordGuilds,
+    telegramBotToken: secrets.telegramBotToken,
+    telegramGroupPolicy: config.telegramGroupPolicy,
+    telegramChatIds: config.telegramChatIds,
+    slackBotToken: secrets.slackBotToken,
+    slackGroupPolicy: config.slackGroupPolicy,
+    slackChannelIds: config.slackChannelIds,
+    openclawVersion: config.openclawVersion,
+  });
+
+  const env: Record<string, string> = gatewayEnv(secrets, opts.gatewayToken);
+  if (tailscaleModeFor(config) !== "off") {
+    env.TAILSCALE_AUTH_KEY = secrets.tailscaleAuthKey ?? "";
+    env.TAILSCALE_HOSTNAME = toRfc1123Label(config.tailscaleHostname ?? config.name);
+  }
+
+  return { script, env };
+}
+
+function gatewayEnv(secrets: DeploymentSecrets, gatewayToken: string): Record<string, string> {
+  const env: Record<string, string> = { OPENCLAW_GATEWAY_TOKEN: gatewayToken };
+  if (secrets.minimaxApiKey) env.MINIMAX_API_KEY = secrets.minimaxApiKey;
+  if (secrets.anthropicApiKey) env.ANTHROPIC_API_KEY = secrets.anthropicApiKey;
+  if (secrets.openaiApiKey) env.OPENAI_API_KEY = secrets.openaiApiKey;
+  if (secrets.discordBotToken) env.DISCORD_BOT_TOKEN = secrets.discordBotToken;
+  if (secrets.telegramBotToken) env.TELEGRAM_BOT_TOKEN = secrets.telegramBotToken;
+  if (secrets.slackBotToken) env.SLACK_BOT_TOKEN = secrets.slackBotToken;
+  if (secrets.slackAppToken) env.SLACK_APP_TOKEN = secrets.slackAppToken;
+  return env;
+}
+
+// The script that moves a running gateway from `previous` to `config`, with the same env contract as
+// buildDeploymentBootstrap. The gateway token is kept.
+export function buildDeploymentReconfigure(
+  config: DeploymentConfig,
+  secrets: DeploymentSecrets,
+  previous: { config: DeploymentConfig; secrets: DeploymentSecrets },
+  opts: { gatewayToken: string },
+): { script: string; env: Record<string, string> } {
+  const reonboard =
+    config.authChoice !== previous.config.authChoice ||
+    secrets.minimaxApiKey !== previous.secrets.minimaxApiKey ||
+    secrets.anthropicApiKey !== previous.secrets.anthropicApiKey ||
+    secrets.openaiApiKey !== previous.secrets.openaiApiKey;
+
+  const script = buildRemoteReconfigureScript({
+    gatewayPort: GATEWAY_PORT,
+    gatewayBind: "loopback",
+    tailscaleMode: tailscaleModeFor(config),
+    authChoice: config.authChoice,
+    discordBotToken: secrets.discordBotToken,
+    discordGroupPolicy: config.discordGroupPolicy,
+    discordGuildId: config.discordGuildId,
+    discordChannelIds: config.discordChannelIds,
+    discordGuilds: config.discordGuilds,
+    telegramBotToken: secrets.telegramBotToken,
+    telegramGroupPolicy: config.telegramGroupPolicy,
+    telegramChatIds: config.telegramChatIds,
+    slackBotToken: secrets.slackBotToken,
+    slackGroupPolicy: config.slackGroupPolicy,
+    slackChannelIds: config.slackChannelIds,
+    reonboard,
+    disableDiscord: Boolean(previous.secrets.discordBotToken && !secrets.discordBotToken),
+    disableTelegram: Boolean(previous.secrets.telegramBotToken && !secrets.telegramBotToken),
+    disableSlack: Boolean(previous.secrets.slackBotToken && !secrets.slackBotToken),
+  });
+
+  return { script, env: gatewayEnv(secrets, opts.gatewayToken) };
+}
@@ -0,0 +1,60 @@
+import type { DeploymentEvent, DeploymentPublic } from "./deployments-store.js";
+
+export type DeploymentStreamMessage =
+  | { kind: "event"; event: DeploymentEvent }
+  | { kind: "deployment"; deployment: DeploymentPublic };
+
+type Listener = (message: DeploymentStreamMessage) => void;
+
+// In-process fan-out of store hooks to open SSE connections. The worker runs in the same process as the
+// API, so every appendEvent / status change passes through here; the database stays the source of truth
+// for replay (Last-Event-ID).
+export class DeploymentEventsHub {
+  readonly #listeners = new Map<string, Set<Listener>>();
+
+  subscribe(deploymentId: string, listener: Listener): () => void {
+    let listeners = this.#listeners.get(deploymentId);
+    if (!listeners) {
+      listeners = new Set();
+      this.#listeners.set(deploymentId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      const current = this.#listeners.get(deploymentId);
+      if (!current) return;
+      current.delete(listener);
+      if (current.size === 0) {
+        this.#listeners.delete(deploymentId);
+      }
+    };
+  }
+
+  get subscriberCount(): number {
+    let count = 0;
+    for (const listeners of this.#listeners.values()) {
+      count += listeners.size;
+    }
+    return count;
+  }
+
+  publishEvent(event: DeploymentEvent) {
+    this.#publish(event.deploymentId, { kind: "event", event });
+  }
+
+  publishDeployment(deployment: DeploymentPublic) {
+    this.#publish(deployment.id, { kind: "deployment", deployment });
+  }
+
+  #publish(deploymentId: string, message: DeploymentStreamMessage) {
+    const listeners = this.#listeners.get(deploymentId);
+    if (!listeners) return;
+    for (const listener of [...listeners]) {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error("DeploymentEventsHub listener failed", error);
+      }
+    }
+  }
+}
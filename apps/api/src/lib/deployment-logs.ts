@@ -0,0 +1,83 @@
+import type { DeploymentLogStream, DeploymentsStore } from "./deployments-store.js";
+
+const REDACTED = "[redacted]";
+
+// Credential shapes that can show up in bootstrap output even when we don't hold the value ourselves
+// (e.g. an auth key echoed back by a CLI).
+const SECRET_PATTERNS = [/tskey-[A-Za-z0-9_-]+/g, /sk-(?:ant-)?[A-Za-z0-9_-]{16,}/g];
+
+// Secrets shorter than this are too likely to collide with ordinary output to be replaced verbatim.
+const MIN_SECRET_LENGTH = 8;
+
+export function createSecretRedactor(secrets: Array<string | null | undefined>): (text: string) => string {
+  const values = [...new Set(secrets.filter((value): value is string => !!value && value.length >= MIN_SECRET_LENGTH))]
+    // Longest first so a secret containing another is replaced whole.
+    .sort((a, b) => b.length - a.length);
+
+  return (text: string) => {
+    let redacted = text;
+    for (const value of values) {
+      redacted = redacted.split(value).join(REDACTED);
+    }
+    for (const pattern of SECRET_PATTERNS) {
+      redacted = redacted.replace(pattern, REDACTED);
+    }
+    return redacted;
+  };
+}
+
+// Collects remote command output line by line, redacts it and writes it to the deployment log in small
+// batches. Keeps the last few lines around so failures can quote them without re-reading the store.
+export class DeploymentLogWriter {
+  readonly #store: DeploymentsStore;
+  readonly #deploymentId: string;
+  readonly #redact: (text: string) => string;
+  readonly #pending: Array<{ stream: DeploymentLogStream; line: string }> = [];
+  readonly #tail: string[] = [];
+  #lastFlushAt = Date.now();
+
+  static readonly BATCH_SIZE = 50;
+  static readonly BATCH_INTERVAL_MS = 1_000;
+  static readonly TAIL_LINES = 20;
+
+  constructor(store: DeploymentsStore, deploymentId: string, secrets: Array<string | null | undefined>) {
+    this.#store = store;
+    this.#deploymentId = deploymentId;
+    this.#redact = createSecretRedactor(secrets);
+  }
+
+  write = (stream: DeploymentLogStream, rawLine: string) => {
+    const line = this.#redact(rawLine);
+    this.#pending.push({ stream, line });
+    this.#tail.push(line);
+    if (this.#tail.length > DeploymentLogWriter.TAIL_LINES) {
+      this.#tail.shift();
+    }
+
+    if (
+      this.#pending.length >= DeploymentLogWriter.BATCH_SIZE ||
+      Date.now() - this.#lastFlushAt >= DeploymentLogWriter.BATCH_INTERVAL_MS
+    ) {
+      this.flush();
+    }
+  };
+
+  flush() {
+    this.#lastFlushAt = Date.now();
+    if (this.#pending.length === 0) return;
+    const lines = this.#pending.splice(0, this.#pending.length);
+    try {
+      this.#store.appendLogLines(this.#deploymentId, lines);
+    } catch (error) {
+      // Logs are diagnostics; never fail a provisioning job because they could not be written.
+      console.error(`Failed to write deployment logs for ${this.#deploymentId}`, error);
+    }
+  }
+
+  tail(lines = 10): string {
+    return this.#tail
+      .filter((line) => line.trim())
+      .slice(-lines)
+      .join("\n");
+  }
+}
@@ -0,0 +1,124 @@
+import { SecretBox } from "./crypto.js";
+import { isProviderNotFound, isServerRunning } from "./cloud-provider.js";
+import {
+  DeploymentHealthCheck,
+  DeploymentInternal,
+  DeploymentSecrets,
+  DeploymentsStore,
+} from "./deployments-store.js";
+import { createProviderForJob } from "./deployments-worker.js";
+import { checkGatewayHealth, checkHostResources } from "./gateway-health.js";
+import { deploymentSshTarget, runRemote, SshTarget } from "./ssh.js";
+
+// How often the monitor looks for deployments that are due; each deployment is checked every `intervalMs`.
+const MONITOR_TICK_MS = 15_000;
+const MONITOR_BATCH_SIZE = 5;
+
+// Periodically checks running deployments: provider server state, gateway service + probe over SSH, and
+// host disk/memory. Runs next to DeploymentsWorker and never changes deployment status; it only records
+// health and emits degraded/recovered events.
+export class DeploymentsMonitor {
+  readonly #store: DeploymentsStore;
+  readonly #secretBox: SecretBox;
+  readonly #intervalMs: number;
+  readonly #sshPrivateKeyPath?: string;
+  #timer: NodeJS.Timeout | null = null;
+  #tickRunning = false;
+
+  constructor(params: {
+    store: DeploymentsStore;
+    secretBox: SecretBox;
+    intervalMs: number;
+    sshPrivateKeyPath?: string;
+  }) {
+    this.#store = params.store;
+    this.#secretBox = params.secretBox;
+    this.#intervalMs = params.intervalMs;
+    this.#sshPrivateKeyPath = params.sshPrivateKeyPath;
+  }
+
+  start() {
+    if (this.#timer) return;
+    this.#timer = setInterval(() => {
+      void this.tick();
+    }, Math.min(MONITOR_TICK_MS, this.#intervalMs));
+    this.#timer.unref();
+    void this.tick();
+  }
+
+  stop() {
+    if (!this.#timer) return;
+    clearInterval(this.#timer);
+    this.#timer = null;
+  }
+
+  async tick() {
+    if (this.#tickRunning) return;
+    this.#tickRunning = true;
+    try {
+      for (const job of this.#store.listDueForHealthCheck(this.#intervalMs, MONITOR_BATCH_SIZE)) {
+        try {
+          const checks = await this.#checkOne(job);
+          this.#store.recordHealthCheck(job.id, checks.every((check) => check.ok) ? "healthy" : "degraded", checks);
+        } catch (error) {
+          console.error(`Health check failed for deployment ${job.id}`, error);
+        }
+      }
+    } finally {
+      this.#tickRunning = false;
+    }
+  }
+
+  async #checkOne(job: DeploymentInternal): Promise<DeploymentHealthCheck[]> {
+    const secrets = this.#secretBox.decryptObject<DeploymentSecrets>(job.secretsEncrypted);
+    const checks: DeploymentHealthCheck[] = [];
+
+    if (job.provider !== "byo" && job.resources.serverId) {
+      const serverCheck = await this.#checkServer(job, secrets);
+      checks.push(serverCheck);
+      // No point trying SSH against a server the provider says is gone or stopped.
+      if (!serverCheck.ok) return checks;
+    }
+
+    const deploymentTarget = deploymentSshTarget(job);
+    if (!deploymentTarget) return checks;
+    if (!job.gatewayTokenEncrypted) {
+      checks.push({ name: "probe", ok: false, detail: "gateway token missing" });
+      return checks;
+    }
+    const { gatewayToken } = this.#secretBox.decryptObject<{ gatewayToken: string }>(job.gatewayTokenEncrypted);
+
+    const target = await this.#pinLegacyHostKeys(job, deploymentTarget);
+    const gateway = await checkGatewayHealth({ target, gatewayToken, privateKeyPath: this.#sshPrivateKeyPath });
+    checks.push(...gateway.checks);
+    if (gateway.checks.some((check) => check.name === "ssh")) return checks;
+    checks.push(...(await checkHostResources(target, this.#sshPrivateKeyPath)));
+    return checks;
+  }
+
+  // Deployments from before host key pinning get their key pinned on the first check that reaches them. Hosts
+  // that can't be reached stay unpinned; the gateway checks then report the SSH failure.
+  async #pinLegacyHostKeys(job: DeploymentInternal, target: SshTarget): Promise<SshTarget> {
+    if (target.knownHosts) return target;
+    const res = await runRemote(target, "true", this.#sshPrivateKeyPath);
+    if (res.code !== 0 || !res.recordedHostKeys) return target;
+    this.#store.recordSshHostKeys(job.id, res.recordedHostKeys);
+    return { ...target, knownHosts: res.recordedHostKeys };
+  }
+
+  async #checkServer(job: DeploymentInternal, secrets: DeploymentSecrets): Promise<DeploymentHealthCheck> {
+    const provider = createProviderForJob(job, secrets);
+    if (!provider) {
+      return { name: "server", ok: false, detail: `missing ${job.provider} API token` };
+    }
+    try {
+      const server = await provider.getServer(Number(job.resources.serverId));
+      return { name: "server", ok: isServerRunning(server), detail: `${provider.label} status: ${server.status}` };
+    } catch (error) {
+      if (isProviderNotFound(error)) {
+        return { name: "server", ok: false, detail: `${provider.label} server not found` };
+      }
+      return { name: "server", ok: false, detail: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
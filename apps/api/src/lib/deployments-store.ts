@@ -1,36 +1,95 @@
 import fs from "node:fs";
 import path from "node:path";
 import Database from "better-sqlite3";
+import { CLOUD_PROVIDER_NAMES, type CloudProviderName } from "./cloud-provider.js";
+import type { BootstrapPhase, BootstrapPhaseStatus } from "./remote-script.js";
+import { hostKeyFingerprints } from "./ssh.js";
 
+// "byo" installs onto an existing machine reachable over SSH instead of creating a cloud server.
+export type DeploymentProvider = CloudProviderName | "byo";
+export const DEPLOYMENT_PROVIDERS = [...CLOUD_PROVIDER_NAMES, "byo"] as const satisfies readonly DeploymentProvider[];
 export type AuthChoice = "skip" | "minimax-api" | "anthropic-api-key" | "openai-api-key";
 export type DiscordGroupPolicy = "open" | "allowlist" | "disabled";
+// One guild of the Discord allowlist. Channels answer only when mentioned unless `requireMention` is false, for the
+// guild or for a single channel; `users` limits who can talk to the bot there.
+export type DiscordGuild = {
+  guildId: string;
+  channelIds: Array<string | { id: string; requireMention?: boolean }>;
+  requireMention?: boolean;
+  users?: string[];
+};
+export type TelegramGroupPolicy = "open" | "allowlist" | "disabled";
+export type SlackGroupPolicy = "open" | "allowlist" | "disabled";
+// How the gateway is reached: privately on the tailnet, publicly through Tailscale Funnel, or publicly on the
+// deployment's own hostname behind nginx with a Let's Encrypt certificate.
+export type AccessMode = "tailscale-serve" | "tailscale-funnel" | "public-domain";
+export const ACCESS_MODES = [
+  "tailscale-serve",
+  "tailscale-funnel",
+  "public-domain",
+] as const satisfies readonly AccessMode[];
 export type DeploymentStatus = "pending" | "provisioning" | "running" | "failed" | "canceled";
-export type DeploymentTask = "provision" | "destroy" | null;
+export const DEPLOYMENT_STATUSES = [
+  "pending",
+  "provisioning",
+  "running",
+  "failed",
+  "canceled",
+] as const satisfies readonly DeploymentStatus[];
+export type DeploymentTask = "provision" | "destroy" | "reconfigure" | "upgrade" | null;
 
 export type DeploymentConfig = {
   name: string;
-  serverType: string;
-  image: string;
-  location: string;
+  // Cloud server spec; unset for BYO deployments.
+  serverType?: string;
+  image?: string;
+  location?: string;
+  // BYO target; unset for cloud deployments.
+  byoHost?: string;
+  byoSshUser?: string;
+  byoSshPort?: number;
   tailscaleHostname?: string;
+  // Unset on deployments created before access modes existed, which all use tailscale-serve.
+  accessMode?: AccessMode;
+  // public-domain only: hostname whose DNS points at the machine, and the Let's Encrypt account email.
+  publicDomain?: string;
+  acmeEmail?: string;
   authChoice: AuthChoice;
   discordGroupPolicy: DiscordGroupPolicy;
+  // Single-guild shorthand for discordGuilds, kept as given; a deployment uses one or the other.
   discordGuildId?: string;
   discordChannelIds?: string[];
+  discordGuilds?: DiscordGuild[];
+  // Unset on deployments created before Telegram support, which have no Telegram bot.
+  telegramGroupPolicy?: TelegramGroupPolicy;
+  // Group/channel chat ids the bot answers in when telegramGroupPolicy=allowlist.
+  telegramChatIds?: string[];
+  // Unset on deployments created before Slack support, which have no Slack app.
+  slackGroupPolicy?: SlackGroupPolicy;
+  // Channel ids (C…/G…) the app answers in when slackGroupPolicy=allowlist.
+  slackChannelIds?: string[];
+  // npm version of the `openclaw` package on the machine. Pinned to the installed version once provisioned.
+  openclawVersion?: string;
 };
 
 export type DeploymentSecrets = {
-  hetznerApiToken: string;
-  tailscaleAuthKey: string;
+  hetznerApiToken?: string;
+  digitaloceanApiToken?: string;
+  // Not needed for accessMode=public-domain.
+  tailscaleAuthKey?: string;
   minimaxApiKey?: string;
   anthropicApiKey?: string;
   openaiApiKey?: string;
   discordBotToken?: string;
+  telegramBotToken?: string;
+  // Slack runs in Socket Mode: the bot token (xoxb-) to act, the app-level token (xapp-) to receive events.
+  slackBotToken?: string;
+  slackAppToken?: string;
 };
 
 type DeploymentRow = {
   id: string;
-  provider: string;
+  provider: DeploymentProvider;
   name: string;
   owner_user_id: string;
   status: DeploymentStatus;
@@ -39,10 +98,25 @@ type DeploymentRow = {
   secrets_encrypted: string;
   metadata_json: string | null;
   billing_ref: string | null;
+  provider_account: string | null;
+  provision_attempt: number | null;
+  next_attempt_at: number | null;
+  expires_at: string | null;
+  expiry_warned_hours: number | null;
   server_id: number | null;
   server_name: string | null;
   server_ip: string | null;
   ssh_key_id: number | null;
+  ssh_host: string | null;
+  ssh_user: string | null;
+  ssh_port: number | null;
+  ssh_known_hosts: string | null;
+  bootstrap_state_json: string | null;
+  pending_config_json: string | null;
+  pending_secrets_encrypted: string | null;
+  health_status: DeploymentHealthStatus | null;
+  health_checks_json: string | null;
+  health_checked_at: string | null;
   gateway_token_encrypted: string | null;
   tailnet_url: string | null;
   cancel_requested_at: string | null;
@@ -55,9 +129,34 @@ type DeploymentRow = {
   completed_at: string | null;
 };
 
+// Progress of the phased bootstrap on the current server/host. Cleared whenever that machine is cleaned up.
+export type DeploymentBootstrapState = {
+  completedPhases: BootstrapPhase[];
+  currentPhase: BootstrapPhase | null;
+  failedPhase: BootstrapPhase | null;
+};
+
+export type DeploymentHealthStatus = "healthy" | "degraded";
+
+export type DeploymentHealthCheck = {
+  name: string;
+  ok: boolean;
+  detail: string;
+};
+
+// Latest result of the running-deployment monitor; null until the first check after reaching `running`.
+export type DeploymentHealth = {
+  status: DeploymentHealthStatus;
+  checks: DeploymentHealthCheck[];
+  checkedAt: string;
+};
+
+// Health check history rows kept per deployment; older rows are pruned first.
+export const DEPLOYMENT_HEALTH_HISTORY_LIMIT = 500;
+
 export type DeploymentPublic = {
   id: string;
-  provider: string;
+  provider: DeploymentProvider;
   name: string;
   ownerUserId: string;
   status: DeploymentStatus;
@@ -70,10 +169,24 @@ export type DeploymentPublic = {
     serverName: string | null;
     serverIp: string | null;
     sshKeyId: number | null;
+    // Set once a BYO host has been touched; destroy uninstalls from it.
+    sshHost: string | null;
+    sshUser: string | null;
+    sshPort: number | null;
   };
+  bootstrap: DeploymentBootstrapState | null;
+  // Config waiting to be applied by a `reconfigure` task; `config` switches to it once the machine has it.
+  pendingConfig: DeploymentConfig | null;
+  health: DeploymentHealth | null;
   tailnetUrl: string | null;
   cancelRequestedAt: string | null;
   errorMessage: string | null;
+  // Provisioning attempts since the deployment was created or last retried by hand.
+  provisionAttempt: number;
+  // Set while an automatic retry waits out its backoff; the deployment stays pending until then.
+  nextAttemptAt: string | null;
+  // Scheduled self-destruct (trials, demos): once reached the worker requests a cancel, which cleans it up.
+  expiresAt: string | null;
   createdAt: string;
   updatedAt: string;
   startedAt: string | null;
@@ -89,13 +202,120 @@ export type DeploymentEvent = {
   createdAt: string;
 };
 
+export type DeploymentLogStream = "stdout" | "stderr";
+
+export type DeploymentLogLine = {
+  id: number;
+  deploymentId: string;
+  stream: DeploymentLogStream;
+  line: string;
+  createdAt: string;
+};
+
+// Per-deployment bounds for the remote output log; older lines are pruned first.
+export const DEPLOYMENT_LOG_MAX_LINES = 5_000;
+export const DEPLOYMENT_LOG_MAX_LINE_LENGTH = 2_000;
+
 export type DeploymentInternal = DeploymentPublic & {
+  // Fingerprint of the cloud provider API token (see providerAccountFingerprint); null for BYO and for
+  // deployments created before it was recorded.
+  providerAccount: string | null;
   secretsEncrypted: string;
+  pendingSecretsEncrypted: string | null;
   gatewayTokenEncrypted: string | null;
+  // Host keys pinned on the first SSH connection to the machine (known_hosts lines).
+  sshKnownHosts: string | null;
   leaseOwner: string | null;
   leaseExpiresAt: number | null;
 };
 
+export type DeploymentEnrollmentToken = {
+  deploymentId: string;
+  expiresAt: string;
+};
+
+// Lease owner used while a BYO install script runs on the customer's machine instead of in a worker.
+export const ENROLLMENT_LEASE_OWNER = "enrollment";
+
+// One changed config field, recorded on `deployment.reconfigure.requested`. Secrets are listed by name only.
+export type DeploymentConfigChange = {
+  field: string;
+  from: unknown;
+  to: unknown;
+};
+
+export type OrphanedResourceKind = "server" | "ssh_key";
+// `resolved`: the resource disappeared (or became referenced again) without the reconciler destroying it.
+export type OrphanedResourceStatus = "orphaned" | "destroyed" | "resolved";
+export const ORPHANED_RESOURCE_STATUSES = [
+  "orphaned",
+  "destroyed",
+  "resolved",
+] as const satisfies readonly OrphanedResourceStatus[];
+
+// A labeled server or worker SSH key that no deployment row points at.
+export type OrphanedResource = {
+  id: number;
+  provider: CloudProviderName;
+  // Fingerprint of the API token the resource was found with; tokens themselves are never stored here.
+  account: string;
+  kind: OrphanedResourceKind;
+  resourceId: number;
+  name: string;
+  deploymentId: string | null;
+  reason: "deployment_missing" | "deployment_released";
+  status: OrphanedResourceStatus;
+  error: string | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  destroyedAt: string | null;
+};
+
+export type OrphanCandidate = Pick<OrphanedResource, "kind" | "resourceId" | "name" | "deploymentId" | "reason">;
+
+// The cloud resources a deployment row points at, as the reconciler compares them with the provider.
+export type CloudResourceOwner = {
+  id: string;
+  status: DeploymentStatus;
+  activeTask: DeploymentTask;
+  serverId: number | null;
+  sshKeyId: number | null;
+};
+
+type OrphanedResourceRow = {
+  id: number;
+  provider: CloudProviderName;
+  account: string;
+  kind: OrphanedResourceKind;
+  resource_id: number;
+  name: string;
+  deployment_id: string | null;
+  reason: OrphanedResource["reason"];
+  status: OrphanedResourceStatus;
+  error: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  destroyed_at: string | null;
+};
+
+function toOrphanedResource(row: OrphanedResourceRow): OrphanedResource {
+  return {
+    id: row.id,
+    provider: row.provider,
+    account: row.account,
+    kind: row.kind,
+    resourceId: row.resource_id,
+    name: row.name,
+    deploymentId: row.deployment_id,
+    reason: row.reason,
+    status: row.status,
+    error: row.error,
+    firstSeenAt: row.first_seen_at,
+    lastSeenAt: row.last_seen_at,
+    destroyedAt: row.destroyed_at,
+  };
+}
+
 export type DeploymentsStoreHooks = {
   onDeploymentChanged?: (deployment: DeploymentPublic) => void | Promise<void>;
   onEventAppended?: (event: DeploymentEvent) => void | Promise<void>;
@@ -118,6 +338,53 @@ function hasOwn(o: object, key: string): boolean {
   return Object.prototype.hasOwnProperty.call(o, key);
 }
 
+// Shared by #init and the rebuild in #migrateDeploymentsTable (SQLite can't alter a CHECK constraint in place).
+function deploymentsTableSql(tableName: string): string {
+  return `
+    CREATE TABLE IF NOT EXISTS ${tableName} (
+      id TEXT PRIMARY KEY,
+      provider TEXT NOT NULL,
+      name TEXT NOT NULL,
+      owner_user_id TEXT NOT NULL DEFAULT 'system',
+      status TEXT NOT NULL CHECK(status IN ('pending','provisioning','running','failed','canceled')),
+      active_task TEXT NULL CHECK(active_task IN ('provision','destroy','reconfigure','upgrade')),
+      config_json TEXT NOT NULL,
+      secrets_encrypted TEXT NOT NULL,
+      metadata_json TEXT NULL,
+      billing_ref TEXT NULL,
+      provider_account TEXT NULL,
+      provision_attempt INTEGER NULL,
+      next_attempt_at INTEGER NULL,
+      expires_at TEXT NULL,
+      expiry_warned_hours REAL NULL,
+      server_id INTEGER NULL,
+      server_name TEXT NULL,
+      server_ip TEXT NULL,
+      ssh_key_id INTEGER NULL,
+      ssh_host TEXT NULL,
+      ssh_user TEXT NULL,
+      ssh_port INTEGER NULL,
+      ssh_known_hosts TEXT NULL,
+      bootstrap_state_json TEXT NULL,
+      pending_config_json TEXT NULL,
+      pending_secrets_encrypted TEXT NULL,
+      health_status TEXT NULL,
+      health_checks_json TEXT NULL,
+      health_checked_at TEXT NULL,
+      gateway_token_encrypted TEXT NULL,
+      tailnet_url TEXT NULL,
+      cancel_requested_at TEXT NULL,
+      error_message TEXT NULL,
+      lease_owner TEXT NULL,
+      lease_expires_at INTEGER NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      started_at TEXT NULL,
+      completed_at TEXT NULL
+    );
+  `;
+}
+
 export class DeploymentsStore {
   readonly #db: Database.Database;
   readonly #hooks: DeploymentsStoreHooks;
@@ -134,32 +401,7 @@ export class DeploymentsStore {
 
   #init() {
     this.#db.exec(`
-      CREATE TABLE IF NOT EXISTS deployments (
-        id TEXT PRIMARY KEY,
-        provider TEXT NOT NULL,
-        name TEXT NOT NULL,
-        owner_user_id TEXT NOT NULL DEFAULT 'system',
-        status TEXT NOT NULL CHECK(status IN ('pending','provisioning','running','failed','canceled')),
-        active_task TEXT NULL CHECK(active_task IN ('provision','destroy')),
-        config_json TEXT NOT NULL,
-        secrets_encrypted TEXT NOT NULL,
-        metadata_json TEXT NULL,
-        billing_ref TEXT NULL,
-        server_id INTEGER NULL,
-        server_name TEXT NULL,
-        server_ip TEXT NULL,
-        ssh_key_id INTEGER NULL,
-        gateway_token_encrypted TEXT NULL,
-        tailnet_url TEXT NULL,
-        cancel_requested_at TEXT NULL,
-        error_message TEXT NULL,
-        lease_owner TEXT NULL,
-        lease_expires_at INTEGER NULL,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        started_at TEXT NULL,
-        completed_at TEXT NULL
-      );
+      ${deploymentsTableSql("deployments")}
 
       CREATE TABLE IF NOT EXISTS deployment_events (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -170,14 +412,55 @@ export class DeploymentsStore {
         created_at TEXT NOT NULL
       );
 
-      CREATE INDEX IF NOT EXISTS idx_deployments_status ON deployments(status, active_task, created_at);
-      CREATE INDEX IF NOT EXISTS idx_deployments_cancel ON deployments(cancel_requested_at);
-      CREATE INDEX IF NOT EXISTS idx_deployments_lease ON deployments(lease_expires_at);
-      CREATE INDEX IF NOT EXISTS idx_deployments_billing_ref ON deployments(billing_ref);
-      CREATE UNIQUE INDEX IF NOT EXISTS idx_deployments_billing_ref_unique
-      ON deployments(billing_ref)
-      WHERE billing_ref IS NOT NULL;
+      CREATE TABLE IF NOT EXISTS deployment_enrollments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        deployment_id TEXT NOT NULL REFERENCES deployments(id) ON DELETE CASCADE,
+        token_hash TEXT NOT NULL UNIQUE,
+        expires_at INTEGER NOT NULL,
+        consumed_at TEXT NULL,
+        callback_secret_hash TEXT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS deployment_logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        deployment_id TEXT NOT NULL REFERENCES deployments(id) ON DELETE CASCADE,
+        stream TEXT NOT NULL,
+        line TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS deployment_health_checks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        deployment_id TEXT NOT NULL REFERENCES deployments(id) ON DELETE CASCADE,
+        status TEXT NOT NULL,
+        checks_json TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      -- No foreign key: orphans are usually resources whose deployment row is gone.
+      CREATE TABLE IF NOT EXISTS orphaned_resources (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        provider TEXT NOT NULL,
+        account TEXT NOT NULL,
+        kind TEXT NOT NULL CHECK(kind IN ('server','ssh_key')),
+        resource_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        deployment_id TEXT NULL,
+        reason TEXT NOT NULL,
+        status TEXT NOT NULL CHECK(status IN ('orphaned','destroyed','resolved')),
+        error TEXT NULL,
+        first_seen_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL,
+        destroyed_at TEXT NULL,
+        UNIQUE(provider, kind, resource_id)
+      );
+
       CREATE INDEX IF NOT EXISTS idx_deployment_events_deployment ON deployment_events(deployment_id, id DESC);
+      CREATE INDEX IF NOT EXISTS idx_deployment_enrollments_deployment ON deployment_enrollments(deployment_id);
+      CREATE INDEX IF NOT EXISTS idx_deployment_logs_deployment ON deployment_logs(deployment_id, id);
+      CREATE INDEX IF NOT EXISTS idx_deployment_health_checks_deployment ON deployment_health_checks(deployment_id, id);
+      CREATE INDEX IF NOT EXISTS idx_orphaned_resources_status ON orphaned_resources(status, provider, account);
     `);
 
     const columns = this.#db.prepare("PRAGMA table_info(deployments)").all() as Array<{ name: string }>;
@@ -188,11 +471,71 @@ export class DeploymentsStore {
       `);
     }
 
+    for (const [name, type] of [
+      ["ssh_host", "TEXT"],
+      ["ssh_user", "TEXT"],
+      ["ssh_port", "INTEGER"],
+      ["bootstrap_state_json", "TEXT"],
+      ["pending_config_json", "TEXT"],
+      ["pending_secrets_encrypted", "TEXT"],
+      ["health_status", "TEXT"],
+      ["health_checks_json", "TEXT"],
+      ["health_checked_at", "TEXT"],
+      ["provider_account", "TEXT"],
+      ["provision_attempt", "INTEGER"],
+      ["next_attempt_at", "INTEGER"],
+      ["expires_at", "TEXT"],
+      ["expiry_warned_hours", "REAL"],
+      ["ssh_known_hosts", "TEXT"],
+    ] as const) {
+      if (!columns.some((column) => column.name === name)) {
+        this.#db.exec(`ALTER TABLE deployments ADD COLUMN ${name} ${type} NULL;`);
+      }
+    }
+
+    this.#migrateDeploymentsTable();
+
     this.#db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_deployments_status ON deployments(status, active_task, created_at);
+      CREATE INDEX IF NOT EXISTS idx_deployments_cancel ON deployments(cancel_requested_at);
+      CREATE INDEX IF NOT EXISTS idx_deployments_lease ON deployments(lease_expires_at);
+      CREATE INDEX IF NOT EXISTS idx_deployments_billing_ref ON deployments(billing_ref);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_deployments_billing_ref_unique
+      ON deployments(billing_ref)
+      WHERE billing_ref IS NOT NULL;
       CREATE INDEX IF NOT EXISTS idx_deployments_owner_user_id ON deployments(owner_user_id);
+      CREATE INDEX IF NOT EXISTS idx_deployments_provider_account ON deployments(provider_account, status);
+      CREATE INDEX IF NOT EXISTS idx_deployments_expires_at ON deployments(expires_at);
     `);
   }
 
+  // Databases created before the newest active_task value have a CHECK constraint that rejects it. Rebuild the
+  // table under the current schema (indexes are recreated by #init right after).
+  #migrateDeploymentsTable() {
+    const existing = this.#db
+      .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'deployments'")
+      .get() as { sql: string } | undefined;
+    if (!existing || existing.sql.includes("'upgrade'")) return;
+
+    const columns = (this.#db.prepare("PRAGMA table_info(deployments)").all() as Array<{ name: string }>)
+      .map((column) => column.name)
+      .join(", ");
+    this.#db.pragma("foreign_keys = OFF");
+    try {
+      this.#db.transaction(() => {
+        this.#db.exec(`
+          DROP TABLE IF EXISTS deployments_migrating;
+          ${deploymentsTableSql("deployments_migrating")}
+          INSERT INTO deployments_migrating (${columns}) SELECT ${columns} FROM deployments;
+          DROP TABLE deployments;
+          ALTER TABLE deployments_migrating RENAME TO deployments;
+        `);
+      })();
+    } finally {
+      this.#db.pragma("foreign_keys = ON");
+    }
+  }
+
   close() {
     this.#db.close();
   }
@@ -273,10 +616,26 @@ export class DeploymentsStore {
         serverName: row.server_name,
         serverIp: row.server_ip,
         sshKeyId: row.ssh_key_id,
+        sshHost: row.ssh_host,
+        sshUser: row.ssh_user,
+        sshPort: row.ssh_port,
       },
+      bootstrap: parseJson<DeploymentBootstrapState | null>(row.bootstrap_state_json, null),
+      pendingConfig: parseJson<DeploymentConfig | null>(row.pending_config_json, null),
+      health:
+        row.health_status && row.health_checked_at
+          ? {
+              status: row.health_status,
+              checks: parseJson<DeploymentHealthCheck[]>(row.health_checks_json, []),
+              checkedAt: row.health_checked_at,
+            }
+          : null,
       tailnetUrl: row.tailnet_url,
       cancelRequestedAt: row.cancel_requested_at,
       errorMessage: row.error_message,
+      provisionAttempt: row.provision_attempt ?? 0,
+      nextAttemptAt: row.next_attempt_at === null ? null : new Date(row.next_attempt_at).toISOString(),
+      expiresAt: row.expires_at,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       startedAt: row.started_at,
@@ -287,8 +646,11 @@ export class DeploymentsStore {
   #toInternal(row: DeploymentRow): DeploymentInternal {
     return {
       ...this.#toPublic(row),
+      providerAccount: row.provider_account,
       secretsEncrypted: row.secrets_encrypted,
+      pendingSecretsEncrypted: row.pending_secrets_encrypted,
       gatewayTokenEncrypted: row.gateway_token_encrypted,
+      sshKnownHosts: row.ssh_known_hosts,
       leaseOwner: row.lease_owner,
       leaseExpiresAt: row.lease_expires_at,
     };
@@ -353,16 +715,17 @@ export class DeploymentsStore {
     return rows.map((row) => this.#toPublic(row));
   }
 
-  listPublicAll(limit = 50, offset = 0): DeploymentPublic[] {
+  listPublicAll(limit = 50, offset = 0, filters: { status?: DeploymentStatus } = {}): DeploymentPublic[] {
     const rows = this.#db
       .prepare(
         `
       SELECT * FROM deployments
+      WHERE (? IS NULL OR status = ?)
       ORDER BY created_at DESC
       LIMIT ? OFFSET ?
     `,
       )
-      .all(limit, offset) as DeploymentRow[];
+      .all(filters.status ?? null, filters.status ?? null, limit, offset) as DeploymentRow[];
     return rows.map((row) => this.#toPublic(row));
   }
 
@@ -407,6 +770,231 @@ export class DeploymentsStore {
     }));
   }
 
+  // Oldest first, for replaying a stream from a client's Last-Event-ID.
+  listEventsAfter(deploymentId: string, afterId: number, limit = 500): DeploymentEvent[] {
+    const rows = this.#db
+      .prepare(
+        `
+      SELECT id, deployment_id, type, message, payload_json, created_at
+      FROM deployment_events
+      WHERE deployment_id = ? AND id > ?
+      ORDER BY id ASC
+      LIMIT ?
+    `,
+      )
+      .all(deploymentId, afterId, limit) as Array<{
+      id: number;
+      deployment_id: string;
+      type: string;
+      message: string;
+      payload_json: string | null;
+      created_at: string;
+    }>;
+    return rows.map((row) => ({
+      id: row.id,
+      deploymentId: row.deployment_id,
+      type: row.type,
+      message: row.message,
+      payload: parseJson<Record<string, unknown>>(row.payload_json, {}),
+      createdAt: row.created_at,
+    }));
+  }
+  // Events of every deployment after `afterId`, oldest first: the webhook dispatcher's catch-up read.
+  listAllEventsAfter(afterId: number, limit = 500): DeploymentEvent[] {
+    const rows = this.#db
+      .prepare(
+        `
+      SELECT id, deployment_id, type, message, payload_json, created_at
+      FROM deployment_events
+      WHERE id > ?
+      ORDER BY id ASC
+      LIMIT ?
+    `,
+      )
+      .all(afterId, limit) as Array<{
+      id: number;
+      deployment_id: string;
+      type: string;
+      message: string;
+      payload_json: string | null;
+      created_at: string;
+    }>;
+    return rows.map((row) => ({
+      id: row.id,
+      deploymentId: row.deployment_id,
+      type: row.type,
+      message: row.message,
+      payload: parseJson<Record<string, unknown>>(row.payload_json, {}),
+      createdAt: row.created_at,
+    }));
+  }
+
+  lastEventId(): number {
+    const row = this.#db.prepare(`SELECT MAX(id) AS id FROM deployment_events`).get() as { id: number | null };
+    return row.id ?? 0;
+  }
+
+
+  // Running deployments whose last health check is at least `intervalMs` old, least recently checked first.
+  // Enrollment-installed BYO machines have no SSH target and are skipped.
+  listDueForHealthCheck(intervalMs: number, limit = 5, nowMs = Date.now()): DeploymentInternal[] {
+    const cutoff = new Date(nowMs - intervalMs).toISOString();
+    const rows = this.#db
+      .prepare(
+        `
+      SELECT * FROM deployments
+      WHERE status = 'running'
+        AND cancel_requested_at IS NULL
+        AND (server_ip IS NOT NULL OR ssh_host IS NOT NULL)
+        AND (health_checked_at IS NULL OR health_checked_at <= ?)
+        -- Skip deployments leased for a gateway token rotation; the gateway is restarting.
+        AND (lease_owner IS NULL OR lease_expires_at IS NULL OR lease_expires_at < ?)
+      ORDER BY COALESCE(health_checked_at, '') ASC
+      LIMIT ?
+    `,
+      )
+      .all(cutoff, nowMs, limit) as DeploymentRow[];
+    return rows.map((row) => this.#toInternal(row));
+  }
+
+  recordHealthCheck(id: string, status: DeploymentHealthStatus, checks: DeploymentHealthCheck[]): DeploymentHealth | null {
+    const checkedAt = nowIso();
+    const checksJson = JSON.stringify(checks);
+    let previous: DeploymentHealthStatus | null = null;
+    let row: DeploymentRow | undefined;
+
+    const tx = this.#db.transaction(() => {
+      const current = this.#getRow(id);
+      if (!current || current.status !== "running") return;
+      previous = current.health_status;
+
+      this.#db
+        .prepare(
+          `
+        INSERT INTO deployment_health_checks (deployment_id, status, checks_json, created_at)
+        VALUES (?, ?, ?, ?)
+      `,
+        )
+        .run(id, status, checksJson, checkedAt);
+      this.#db
+        .prepare(
+          `
+        DELETE FROM deployment_health_checks
+        WHERE deployment_id = ?
+          AND id <= (
+            SELECT id FROM deployment_health_checks
+            WHERE deployment_id = ?
+            ORDER BY id DESC
+            LIMIT 1 OFFSET ?
+          )
+      `,
+        )
+        .run(id, id, DEPLOYMENT_HEALTH_HISTORY_LIMIT);
+
+      row = this.#db
+        .prepare(
+          `
+        UPDATE deployments
+        SET health_status = ?, health_checks_json = ?, health_checked_at = ?
+        WHERE id = ? AND status = 'running'
+        RETURNING *
+      `,
+        )
+        .get(status, checksJson, checkedAt, id) as DeploymentRow | undefined;
+    });
+    tx();
+    if (!row) return null;
+
+    const failing = checks.filter((check) => !check.ok);
+    if (status === "degraded" && previous !== "degraded") {
+      this.appendEvent(id, "deployment.health.degraded", "Deployment health degraded", { checks: failing });
+    } else if (status === "healthy" && previous === "degraded") {
+      this.appendEvent(id, "deployment.health.recovered", "Deployment health recovered");
+    }
+    // Routine checks don't change anything subscribers render; status transitions do.
+    if (status !== previous) {
+      this.#notifyDeploymentChanged(this.#toPublic(row));
+    }
+    return { status, checks, checkedAt };
+  }
+
+  listHealthHistory(id: string, limit = 50): DeploymentHealth[] {
+    const rows = this.#db
+      .prepare(
+        `
+      SELECT status, checks_json, created_at
+      FROM deployment_health_checks
+      WHERE deployment_id = ?
+      ORDER BY id DESC
+      LIMIT ?
+    `,
+      )
+      .all(id, limit) as Array<{ status: DeploymentHealthStatus; checks_json: string; created_at: string }>;
+    return rows.map((row) => ({
+      status: row.status,
+      checks: parseJson<DeploymentHealthCheck[]>(row.checks_json, []),
+      checkedAt: row.created_at,
+    }));
+  }
+
+  // Callers are responsible for redacting secrets before lines get here.
+  appendLogLines(deploymentId: string, lines: Array<{ stream: DeploymentLogStream; line: string }>) {
+    if (lines.length === 0) return;
+    const createdAt = nowIso();
+    const insert = this.#db.prepare(`
+      INSERT INTO deployment_logs (deployment_id, stream, line, created_at)
+      VALUES (?, ?, ?, ?)
+    `);
+    const prune = this.#db.prepare(`
+      DELETE FROM deployment_logs
+      WHERE deployment_id = ?
+        AND id <= (
+          SELECT id FROM deployment_logs
+          WHERE deployment_id = ?
+          ORDER BY id DESC
+          LIMIT 1 OFFSET ?
+        )
+    `);
+    const tx = this.#db.transaction(() => {
+      for (const entry of lines) {
+        const line =
+          entry.line.length > DEPLOYMENT_LOG_MAX_LINE_LENGTH
+            ? `${entry.line.slice(0, DEPLOYMENT_LOG_MAX_LINE_LENGTH)}…`
+            : entry.line;
+        insert.run(deploymentId, entry.stream, line, createdAt);
+      }
+      prune.run(deploymentId, deploymentId, DEPLOYMENT_LOG_MAX_LINES);
+    });
+    tx();
+  }
+
+  listLogs(deploymentId: string, afterId = 0, limit = 200): DeploymentLogLine[] {
+    const rows = this.#db
+      .prepare(
+        `
+      SELECT id, deployment_id, stream, line, created_at
+      FROM deployment_logs
+      WHERE deployment_id = ? AND id > ?
+      ORDER BY id ASC
+      LIMIT ?
+    `,
+      )
+      .all(deploymentId, afterId, limit) as Array<{
+      id: number;
+      deployment_id: string;
+      stream: DeploymentLogStream;
+      line: string;
+      created_at: string;
+    }>;
+    return rows.map((row) => ({
+      id: row.id,
+      deploymentId: row.deployment_id,
+      stream: row.stream,
+      line: row.line,
+      createdAt: row.created_at,
+    }));
+  }
+
   appendEvent(
     deploymentId: string,
     type: string,
@@ -420,13 +1008,15 @@ export class DeploymentsStore {
 
   createDeployment(input: {
     id: string;
-    provider: "hetzner";
+    provider: DeploymentProvider;
     ownerUserId: string;
     name: string;
     config: DeploymentConfig;
     secretsEncrypted: string;
     metadata?: Record<string, unknown>;
     billingRef?: string;
+    providerAccount?: string | null;
+    expiresAt?: string | null;
   }): DeploymentPublic {
     const createdAt = nowIso();
     this.#db
@@ -434,8 +1024,8 @@ export class DeploymentsStore {
       `
       INSERT INTO deployments (
         id, provider, name, owner_user_id, status, active_task, config_json, secrets_encrypted,
-        metadata_json, billing_ref, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, 'pending', NULL, ?, ?, ?, ?, ?, ?)
+        metadata_json, billing_ref, provider_account, expires_at, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, 'pending', NULL, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
       )
       .run(
@@ -447,6 +1037,8 @@ export class DeploymentsStore {
         input.secretsEncrypted,
         input.metadata ? JSON.stringify(input.metadata) : null,
         input.billingRef ?? null,
+        input.providerAccount ?? null,
+        input.expiresAt ?? null,
         createdAt,
         createdAt,
       );
@@ -454,6 +1046,7 @@ export class DeploymentsStore {
     this.appendEvent(input.id, "deployment.created", "Deployment created and queued", {
       provider: input.provider,
       name: input.name,
+      ...(input.expiresAt ? { expiresAt: input.expiresAt } : {}),
     });
 
     const created = this.getPublic(input.id);
@@ -471,9 +1064,40 @@ export class DeploymentsStore {
     if (existing.status === "canceled") {
       return this.#toPublic(existing);
     }
-    if (existing.status === "failed") {
+    const hasResources = Boolean(existing.server_id || existing.ssh_key_id || existing.ssh_host);
+    if (existing.status === "failed" && !hasResources) {
       return this.#toPublic(existing);
     }
+    if (hasResources && (existing.status === "failed" || existing.status === "pending")) {
+      // A failed bootstrap keeps its server so a retry (manual or automatic) can resume; canceling instead
+      // queues its cleanup.
+      const row = this.#db
+        .prepare(
+      `
+        UPDATE deployments
+        SET
+          status = 'provisioning',
+          active_task = 'destroy',
+          cancel_requested_at = COALESCE(cancel_requested_at, ?),
+          next_attempt_at = NULL,
+          lease_owner = NULL,
+          lease_expires_at = NULL,
+          updated_at = ?
+        WHERE id = ? AND owner_user_id = ? AND status = ?
+        RETURNING *
+      `,
+        )
+        .get(nowIso(), nowIso(), id, ownerUserId, existing.status) as DeploymentRow | undefined;
+      if (!row) {
+        return this.getPublicForOwner(ownerUserId, id);
+      }
+      this.appendEvent(id, "deployment.cancel.requested", "Cancel requested; leftover resources will be cleaned up", {
+        reason: reason ?? "cancel requested",
+      });
+      const deployment = this.#toPublic(row);
+      this.#notifyDeploymentChanged(deployment);
+      return deployment;
+    }
 
     const updatedAt = nowIso();
     const canceledAt = nowIso();
@@ -487,6 +1111,7 @@ export class DeploymentsStore {
           active_task = NULL,
           cancel_requested_at = COALESCE(cancel_requested_at, ?),
           error_message = NULL,
+          next_attempt_at = NULL,
           lease_owner = NULL,
           lease_expires_at = NULL,
           completed_at = ?,
@@ -538,7 +1163,12 @@ export class DeploymentsStore {
     if (!["failed", "canceled"].includes(existing.status)) {
       throw new Error("Only failed or canceled deployments can be retried");
     }
-    if (existing.server_id || existing.ssh_key_id) {
+    // Resources left attached by a failed bootstrap are reused: the worker resumes on the same server with
+    // the same gateway token. Anything else still attached means cleanup failed and must be resolved first.
+    const bootstrap = parseJson<DeploymentBootstrapState | null>(existing.bootstrap_state_json, null);
+    const hasResources = Boolean(existing.server_id || existing.ssh_key_id || existing.ssh_host);
+    const resume = hasResources && existing.status === "failed" && bootstrap !== null;
+    if (hasResources && !resume) {
       throw new Error("Cannot retry while provider resources are still attached");
     }
 
@@ -557,44 +1187,158 @@ export class DeploymentsStore {
         started_at = NULL,
         completed_at = NULL,
         tailnet_url = NULL,
-        gateway_token_encrypted = NULL,
+        provision_attempt = 0,
+        next_attempt_at = NULL,
+        gateway_token_encrypted = CASE WHEN ? THEN gateway_token_encrypted ELSE NULL END,
+        bootstrap_state_json = CASE WHEN ? THEN bootstrap_state_json ELSE NULL END,
         updated_at = ?
       WHERE id = ? AND owner_user_id = ?
       RETURNING *
     `,
       )
-      .get(updatedAt, id, ownerUserId) as DeploymentRow | undefined;
+      .get(resume ? 1 : 0, resume ? 1 : 0, updatedAt, id, ownerUserId) as DeploymentRow | undefined;
     if (!row) {
       return this.getPublicForOwner(ownerUserId, id);
     }
 
-    this.appendEvent(id, "deployment.retried", "Deployment moved back to pending");
+    this.appendEvent(
+      id,
+      "deployment.retried",
+      resume ? "Deployment moved back to pending; bootstrap will resume on the existing server" : "Deployment moved back to pending",
+      resume ? { resumeFromPhase: bootstrap?.failedPhase ?? bootstrap?.currentPhase ?? null } : undefined,
+    );
     const deployment = this.#toPublic(row);
     this.#notifyDeploymentChanged(deployment);
     return deployment;
   }
 
-  recoverExpiredProvisionLeases(nowMs = Date.now()) {
-    const staleRows = this.#db
+  // Moves the expiry of a deployment that has one `hours` further out, counted from now if it has already
+  // passed. Not possible once a cancel has been requested.
+  extendExpiry(ownerUserId: string, id: string, hours: number): DeploymentPublic | null {
+    const existing = this.#getRowForOwner(ownerUserId, id);
+    if (!existing) return null;
+    if (!existing.expires_at) {
+      throw new Error("Deployment has no expiry");
+    }
+    if (existing.status === "canceled" || existing.cancel_requested_at) {
+      throw new Error("Deployment is already canceled or being canceled");
+    }
+
+    const from = existing.expires_at;
+    const expiresAt = new Date(Math.max(Date.parse(from), Date.now()) + hours * 3_600_000).toISOString();
+    const row = this.#db
       .prepare(
-        `
-      SELECT * FROM deployments
-      WHERE
-        status = 'provisioning'
-        AND active_task = 'provision'
-        AND lease_expires_at IS NOT NULL
-        AND lease_expires_at < ?
+      `
+      UPDATE deployments
+      SET expires_at = ?, expiry_warned_hours = NULL, updated_at = ?
+      WHERE id = ? AND owner_user_id = ? AND expires_at = ? AND cancel_requested_at IS NULL
+      RETURNING *
     `,
       )
-      .all(nowMs) as DeploymentRow[];
+      .get(expiresAt, nowIso(), id, ownerUserId, from) as DeploymentRow | undefined;
+    if (!row) {
+      throw new Error("Deployment changed while extending its expiry; try again");
+    }
 
-    if (staleRows.length === 0) return;
+    this.appendEvent(id, "deployment.expiry.extended", `Expiry extended by ${hours}h`, {
+      from,
+      to: expiresAt,
+      hours,
+      userId: ownerUserId,
+    });
+    const deployment = this.#toPublic(row);
+    this.#notifyDeploymentChanged(deployment);
+    return deployment;
+  }
+
+  // Emits one `deployment.expiry.warning` per threshold (hours before expiry) as it is crossed. The tightest
+  // threshold already warned about is kept on the row, so several workers never repeat a warning.
+  warnExpiringDeployments(thresholdsHours: number[], nowMs = Date.now()) {
+    if (thresholdsHours.length === 0) return;
+    const horizonMs = Math.max(...thresholdsHours) * 3_600_000;
+    const rows = this.#db
+      .prepare(
+        `
+      SELECT * FROM deployments
+      WHERE
+        expires_at IS NOT NULL
+        AND expires_at > ?
+        AND expires_at <= ?
+        AND cancel_requested_at IS NULL
+        AND status IN ('pending', 'provisioning', 'running')
+    `,
+      )
+      .all(new Date(nowMs).toISOString(), new Date(nowMs + horizonMs).toISOString()) as DeploymentRow[];
+
+    for (const row of rows) {
+      const hoursLeft = (Date.parse(String(row.expires_at)) - nowMs) / 3_600_000;
+      const threshold = Math.min(...thresholdsHours.filter((hours) => hours >= hoursLeft));
+      const claimed = this.#db
+        .prepare(
+          `
+        UPDATE deployments
+        SET expiry_warned_hours = ?
+        WHERE id = ? AND expires_at = ? AND (expiry_warned_hours IS NULL OR expiry_warned_hours > ?)
+      `,
+        )
+        .run(threshold, row.id, row.expires_at, threshold);
+      if (claimed.changes === 0) continue;
+      this.appendEvent(row.id, "deployment.expiry.warning", `Deployment expires at ${row.expires_at}`, {
+        expiresAt: row.expires_at,
+        hoursLeft: Math.round(hoursLeft * 10) / 10,
+        thresholdHours: threshold,
+      });
+    }
+  }
+
+  // Requests the cancel of every deployment whose expiry has passed; cleanup then takes the usual cancel path
+  // (running deployments are picked up by leaseNextDestroyJob).
+  expireDeployments(nowMs = Date.now()) {
+    const rows = this.#db
+      .prepare(
+        `
+      SELECT * FROM deployments
+      WHERE
+        expires_at IS NOT NULL
+        AND expires_at <= ?
+        AND cancel_requested_at IS NULL
+        AND (
+          status IN ('pending', 'provisioning', 'running')
+          OR (status = 'failed' AND (server_id IS NOT NULL OR ssh_key_id IS NOT NULL OR ssh_host IS NOT NULL))
+        )
+    `,
+      )
+      .all(new Date(nowMs).toISOString()) as DeploymentRow[];
+
+    for (const row of rows) {
+      this.appendEvent(row.id, "deployment.expired", "Deployment reached its expiry; canceling", {
+        expiresAt: row.expires_at,
+      });
+      this.requestCancel(row.owner_user_id, row.id, "deployment expired");
+    }
+  }
+
+  recoverExpiredProvisionLeases(nowMs = Date.now()) {
+    const staleRows = this.#db
+      .prepare(
+        `
+      SELECT * FROM deployments
+      WHERE
+        status = 'provisioning'
+        AND active_task = 'provision'
+        AND lease_expires_at IS NOT NULL
+        AND lease_expires_at < ?
+    `,
+      )
+      .all(nowMs) as DeploymentRow[];
+
+    if (staleRows.length === 0) return;
 
     const pendingEventNotifications: DeploymentEvent[] = [];
     const tx = this.#db.transaction((rows: DeploymentRow[]) => {
       const updatedAt = nowIso();
       for (const row of rows) {
-        if (row.server_id || row.ssh_key_id || row.cancel_requested_at) {
+        if (row.server_id || row.ssh_key_id || row.ssh_host || row.cancel_requested_at) {
           this.#db
             .prepare(
               `
@@ -641,14 +1385,18 @@ export class DeploymentsStore {
             .run(
               updatedAt,
               updatedAt,
-              "Worker lease expired before resources were attached",
+              row.lease_owner === ENROLLMENT_LEASE_OWNER
+                ? "Install script did not report back before the enrollment deadline"
+                : "Worker lease expired before resources were attached",
               row.id,
             );
           pendingEventNotifications.push(
             this.#insertEvent(
               row.id,
               "deployment.failed",
-              "Worker lease expired before provisioning completed",
+              row.lease_owner === ENROLLMENT_LEASE_OWNER
+                ? "Enrollment deadline passed before the install script reported back"
+                : "Worker lease expired before provisioning completed",
               undefined,
               updatedAt,
             ),
@@ -677,6 +1425,8 @@ export class DeploymentsStore {
       SET
         status = 'provisioning',
         active_task = 'destroy',
+        pending_config_json = NULL,
+        pending_secrets_encrypted = NULL,
         lease_owner = ?,
         lease_expires_at = ?,
         updated_at = ?,
@@ -707,9 +1457,51 @@ export class DeploymentsStore {
     return deployment;
   }
 
-  leaseNextProvisionJob(workerId: string, leaseMs: number): DeploymentInternal | null {
+  // Reconfigure and upgrade jobs: changes to a running deployment that wait in the pending columns.
+  leaseNextConfigJob(workerId: string, leaseMs: number): DeploymentInternal | null {
     const updatedAt = nowIso();
-    const leaseExpiresAt = Date.now() + leaseMs;
+    const nowMs = Date.now();
+    const row = this.#db
+      .prepare(
+        `
+      UPDATE deployments
+      SET lease_owner = ?, lease_expires_at = ?, updated_at = ?
+      WHERE id = (
+        SELECT id FROM deployments
+        WHERE status = 'running'
+          AND active_task IN ('reconfigure', 'upgrade')
+          AND cancel_requested_at IS NULL
+          AND (lease_owner IS NULL OR lease_expires_at IS NULL OR lease_expires_at < ?)
+        ORDER BY updated_at ASC
+        LIMIT 1
+      )
+      RETURNING *
+    `,
+      )
+      .get(workerId, nowMs + leaseMs, updatedAt, nowMs) as DeploymentRow | undefined;
+    if (!row) return null;
+    this.appendEvent(
+      row.id,
+      `deployment.${row.active_task}.started`,
+      row.active_task === "upgrade" ? "Upgrade job leased by worker" : "Reconfigure job leased by worker",
+      { workerId },
+    );
+    const deployment = this.#toInternal(row);
+    this.#notifyDeploymentChanged(deployment);
+    return deployment;
+  }
+
+  // `maxPerAccount` caps how many deployments of one provider account are provisioning under a live lease at
+  // once, across every worker process sharing this database. Accounts at the cap are skipped, so the oldest
+  // pending deployment of another account goes first.
+  leaseNextProvisionJob(
+    workerId: string,
+    leaseMs: number,
+    opts: { maxPerAccount?: number } = {},
+  ): DeploymentInternal | null {
+    const updatedAt = nowIso();
+    const nowMs = Date.now();
+    const leaseExpiresAt = nowMs + leaseMs;
     const row = this.#db
       .prepare(
         `
@@ -717,6 +1509,8 @@ export class DeploymentsStore {
       SET
         status = 'provisioning',
         active_task = 'provision',
+        provision_attempt = COALESCE(provision_attempt, 0) + 1,
+        next_attempt_at = NULL,
         lease_owner = ?,
         lease_expires_at = ?,
         updated_at = ?,
@@ -724,16 +1518,39 @@ export class DeploymentsStore {
       WHERE id = (
         SELECT id FROM deployments
         WHERE status = 'pending'
+          AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+          -- BYO deployments without a host are installed by the enrollment script, not by a worker.
+          AND NOT (provider = 'byo' AND json_extract(config_json, '$.byoHost') IS NULL)
+          AND (
+            ? IS NULL
+            OR provider_account IS NULL
+            OR (
+              SELECT COUNT(*) FROM deployments AS busy
+              WHERE busy.provider_account = deployments.provider_account
+                AND busy.status = 'provisioning'
+                AND busy.lease_expires_at >= ?
+            ) < ?
+          )
         ORDER BY created_at ASC
         LIMIT 1
       )
       RETURNING *
     `,
       )
-      .get(workerId, leaseExpiresAt, updatedAt, updatedAt) as DeploymentRow | undefined;
+      .get(
+        workerId,
+        leaseExpiresAt,
+        updatedAt,
+        updatedAt,
+        nowMs,
+        opts.maxPerAccount ?? null,
+        nowMs,
+        opts.maxPerAccount ?? null,
+      ) as DeploymentRow | undefined;
     if (!row) return null;
     this.appendEvent(row.id, "deployment.provision.started", "Provisioning job leased by worker", {
       workerId,
+      attempt: row.provision_attempt,
     });
     const deployment = this.#toInternal(row);
     this.#notifyDeploymentChanged(deployment);
@@ -748,7 +1565,7 @@ export class DeploymentsStore {
         `
       UPDATE deployments
       SET lease_expires_at = ?, updated_at = ?
-      WHERE id = ? AND status = 'provisioning' AND lease_owner = ?
+      WHERE id = ? AND (status = 'provisioning' OR active_task IN ('reconfigure', 'upgrade')) AND lease_owner = ?
     `,
       )
       .run(leaseExpiresAt, updatedAt, id, workerId);
@@ -769,6 +1586,136 @@ export class DeploymentsStore {
     return result.changes > 0;
   }
 
+  createEnrollmentToken(
+    ownerUserId: string,
+    id: string,
+    tokenHash: string,
+    ttlMs: number,
+  ): DeploymentEnrollmentToken | null {
+    const existing = this.#getRowForOwner(ownerUserId, id);
+    if (!existing) return null;
+    if (existing.provider !== "byo" || parseJson<DeploymentConfig | null>(existing.config_json, null)?.byoHost) {
+      throw new Error("Enrollment is only available for BYO deployments without byoHost");
+    }
+    if (existing.status !== "pending") {
+      throw new Error("Enrollment tokens can only be created for pending deployments");
+    }
+
+    const createdAt = nowIso();
+    const expiresAtMs = Date.now() + ttlMs;
+    const tx = this.#db.transaction(() => {
+      // Only the newest token is valid; minting a new one revokes any unused predecessor.
+      this.#db
+        .prepare(
+          `
+        DELETE FROM deployment_enrollments
+        WHERE deployment_id = ? AND consumed_at IS NULL
+      `,
+        )
+        .run(id);
+      this.#db
+        .prepare(
+          `
+        INSERT INTO deployment_enrollments (deployment_id, token_hash, expires_at, created_at)
+        VALUES (?, ?, ?, ?)
+      `,
+        )
+        .run(id, tokenHash, expiresAtMs, createdAt);
+    });
+    tx();
+
+    const expiresAt = new Date(expiresAtMs).toISOString();
+    this.appendEvent(id, "deployment.enrollment.created", "Enrollment token created", { expiresAt });
+    return { deploymentId: id, expiresAt };
+  }
+
+  // Consumes a one-time enrollment token and hands the deployment to the install script: it moves to
+  // `provisioning` with an enrollment lease that expires if the script never reports back.
+  beginEnrollment(
+    id: string,
+    input: {
+      tokenHash: string;
+      callbackSecretHash: string;
+      gatewayTokenEncrypted: string;
+      installTimeoutMs: number;
+    },
+  ): DeploymentInternal | null {
+    const updatedAt = nowIso();
+    const nowMs = Date.now();
+    const tx = this.#db.transaction(() => {
+      const row = this.#db
+        .prepare(
+          `
+        UPDATE deployments
+        SET
+          status = 'provisioning',
+          active_task = 'provision',
+          gateway_token_encrypted = ?,
+          lease_owner = ?,
+          lease_expires_at = ?,
+          updated_at = ?,
+          started_at = COALESCE(started_at, ?)
+        WHERE id = ? AND status = 'pending' AND provider = 'byo'
+          AND EXISTS (
+            SELECT 1 FROM deployment_enrollments
+            WHERE deployment_id = ? AND token_hash = ? AND consumed_at IS NULL AND expires_at > ?
+          )
+        RETURNING *
+      `,
+        )
+        .get(
+          input.gatewayTokenEncrypted,
+          ENROLLMENT_LEASE_OWNER,
+          nowMs + input.installTimeoutMs,
+          updatedAt,
+          updatedAt,
+          id,
+          id,
+          input.tokenHash,
+          nowMs,
+        ) as DeploymentRow | undefined;
+      if (!row) return undefined;
+
+      this.#db
+        .prepare(
+          `
+        UPDATE deployment_enrollments
+        SET consumed_at = ?, callback_secret_hash = ?
+        WHERE deployment_id = ? AND token_hash = ?
+      `,
+        )
+        .run(updatedAt, input.callbackSecretHash, id, input.tokenHash);
+      return row;
+    });
+
+    const row = tx();
+    if (!row) return null;
+
+    this.appendEvent(id, "deployment.enrollment.started", "Install script downloaded; waiting for it to report back", {
+      deadline: new Date(nowMs + input.installTimeoutMs).toISOString(),
+    });
+    const deployment = this.#toInternal(row);
+    this.#notifyDeploymentChanged(deployment);
+    return deployment;
+  }
+
+  verifyEnrollmentCallback(id: string, callbackSecretHash: string): boolean {
+    const row = this.#db
+      .prepare(
+        `
+      SELECT e.id FROM deployment_enrollments e
+      JOIN deployments d ON d.id = e.deployment_id
+      WHERE
+        e.deployment_id = ?
+        AND e.callback_secret_hash = ?
+        AND d.status = 'provisioning'
+        AND d.lease_owner = ?
+    `,
+      )
+      .get(id, callbackSecretHash, ENROLLMENT_LEASE_OWNER);
+    return Boolean(row);
+  }
+
   isCancelRequested(id: string): boolean {
     const row = this.#db
       .prepare(
@@ -780,6 +1727,297 @@ export class DeploymentsStore {
     return Boolean(row?.cancel_requested_at);
   }
 
+  // Puts a reconfigure/upgrade task on a running, idle deployment. The new config (and secrets, when they
+  // change) wait in the pending columns until the worker has applied them on the machine.
+  #queueConfigTask(
+    ownerUserId: string,
+    id: string,
+    task: "reconfigure" | "upgrade",
+    config: DeploymentConfig,
+    secretsEncrypted: string | null,
+  ): DeploymentRow | null {
+    const existing = this.#getRowForOwner(ownerUserId, id);
+    if (!existing) return null;
+    if (existing.status !== "running") {
+      throw new Error(`Only running deployments can be ${task === "upgrade" ? "upgraded" : "reconfigured"}`);
+    }
+
+    const row = this.#db
+      .prepare(
+        `
+      UPDATE deployments
+      SET
+        active_task = ?,
+        pending_config_json = ?,
+        pending_secrets_encrypted = COALESCE(?, secrets_encrypted),
+        updated_at = ?
+      WHERE id = ?
+        AND owner_user_id = ?
+        AND status = 'running'
+        AND active_task IS NULL
+        AND cancel_requested_at IS NULL
+        AND (lease_owner IS NULL OR lease_expires_at IS NULL OR lease_expires_at < ?)
+      RETURNING *
+    `,
+      )
+      .get(task, JSON.stringify(config), secretsEncrypted, nowIso(), id, ownerUserId, Date.now()) as
+      | DeploymentRow
+      | undefined;
+    if (!row) {
+      throw new Error("Deployment is busy; try again once the current task has finished");
+    }
+    return row;
+  }
+
+  requestReconfigure(
+    ownerUserId: string,
+    id: string,
+    input: {
+      config: DeploymentConfig;
+      secretsEncrypted: string;
+      changes: DeploymentConfigChange[];
+      secretsChanged: string[];
+    },
+  ): DeploymentPublic | null {
+    const row = this.#queueConfigTask(ownerUserId, id, "reconfigure", input.config, input.secretsEncrypted);
+    if (!row) return null;
+    this.appendEvent(id, "deployment.reconfigure.requested", "Reconfigure requested", {
+      userId: ownerUserId,
+      changes: input.changes,
+      secretsChanged: input.secretsChanged,
+    });
+    const deployment = this.#toPublic(row);
+    this.#notifyDeploymentChanged(deployment);
+    return deployment;
+  }
+
+  // `requestedBy` differs from the owner when an admin upgrades someone else's deployment.
+  requestUpgrade(
+    ownerUserId: string,
+    id: string,
+    input: { config: DeploymentConfig; fromVersion: string | null; requestedBy: string },
+  ): DeploymentPublic | null {
+    const row = this.#queueConfigTask(ownerUserId, id, "upgrade", input.config, null);
+    if (!row) return null;
+    this.appendEvent(id, "deployment.upgrade.requested", `Upgrade to openclaw@${input.config.openclawVersion} requested`, {
+      userId: input.requestedBy,
+      fromVersion: input.fromVersion,
+      toVersion: input.config.openclawVersion ?? null,
+    });
+    const deployment = this.#toPublic(row);
+    this.#notifyDeploymentChanged(deployment);
+    return deployment;
+  }
+
+  // `configPatch` is merged over the pending config, e.g. to pin the version an upgrade to a dist-tag resolved to.
+  completeConfigTask(id: string, workerId: string, configPatch: Partial<DeploymentConfig> = {}): DeploymentPublic | null {
+    const task = this.#getRow(id)?.active_task;
+    if (task !== "reconfigure" && task !== "upgrade") return null;
+    const row = this.#db
+      .prepare(
+        `
+      UPDATE deployments
+      SET
+        active_task = NULL,
+        config_json = json_patch(pending_config_json, ?),
+        secrets_encrypted = pending_secrets_encrypted,
+        pending_config_json = NULL,
+        pending_secrets_encrypted = NULL,
+        lease_owner = NULL,
+        lease_expires_at = NULL,
+        updated_at = ?
+      WHERE id = ?
+        AND status = 'running'
+        AND active_task = ?
+        AND pending_config_json IS NOT NULL
+        AND pending_secrets_encrypted IS NOT NULL
+        AND lease_owner = ?
+      RETURNING *
+    `,
+      )
+      .get(JSON.stringify(configPatch), nowIso(), id, task, workerId) as DeploymentRow | undefined;
+    if (!row) return null;
+    const deployment = this.#toPublic(row);
+    if (task === "upgrade") {
+      this.appendEvent(id, "deployment.upgraded", `Upgraded to openclaw@${deployment.config.openclawVersion}`, {
+        version: deployment.config.openclawVersion ?? null,
+      });
+    } else {
+      this.appendEvent(id, "deployment.reconfigured", "New configuration applied on the machine");
+    }
+    this.#notifyDeploymentChanged(deployment);
+    return deployment;
+  }
+
+  // The deployment keeps running on its previous config; the pending change is dropped.
+  failConfigTask(id: string, workerId: string, errorMessage: string): DeploymentPublic | null {
+    const task = this.#getRow(id)?.active_task;
+    if (task !== "reconfigure" && task !== "upgrade") return null;
+    const row = this.#db
+      .prepare(
+        `
+      UPDATE deployments
+      SET
+        active_task = NULL,
+        pending_config_json = NULL,
+        pending_secrets_encrypted = NULL,
+        lease_owner = NULL,
+        lease_expires_at = NULL,
+        updated_at = ?
+      WHERE id = ? AND active_task = ? AND lease_owner = ?
+      RETURNING *
+    `,
+      )
+      .get(nowIso(), id, task, workerId) as DeploymentRow | undefined;
+    if (!row) return null;
+    this.appendEvent(
+      id,
+      `deployment.${task}.failed`,
+      task === "upgrade" ? "Upgrade failed; previous version kept" : "Reconfigure failed; previous configuration kept",
+      { error: errorMessage },
+    );
+    const deployment = this.#toPublic(row);
+    this.#notifyDeploymentChanged(deployment);
+    return deployment;
+  }
+
+  // Takes the lease on a running deployment for an out-of-band gateway change, so cleanup (and a second
+  // rotation) waits until the gateway has been restarted with the new token.
+  beginGatewayTokenRotation(
+    ownerUserId: string,
+    id: string,
+    leaseOwner: string,
+    leaseMs: number,
+  ): DeploymentInternal | null {
+    const updatedAt = nowIso();
+    const nowMs = Date.now();
+    const row = this.#db
+      .prepare(
+        `
+      UPDATE deployments
+      SET lease_owner = ?, lease_expires_at = ?, updated_at = ?
+      WHERE owner_user_id = ?
+        AND id = ?
+        AND status = 'running'
+        AND cancel_requested_at IS NULL
+        AND gateway_token_encrypted IS NOT NULL
+        AND (lease_owner IS NULL OR lease_expires_at IS NULL OR lease_expires_at < ?)
+      RETURNING *
+    `,
+      )
+      .get(leaseOwner, nowMs + leaseMs, updatedAt, ownerUserId, id, nowMs) as DeploymentRow | undefined;
+    if (!row) return null;
+    this.appendEvent(id, "deployment.gateway_token.rotation.started", "Gateway token rotation started", {
+      userId: ownerUserId,
+    });
+    return this.#toInternal(row);
+  }
+
+  completeGatewayTokenRotation(id: string, leaseOwner: string, gatewayTokenEncrypted: string): DeploymentPublic | null {
+    const row = this.#db
+      .prepare(
+        `
+      UPDATE deployments
+      SET gateway_token_encrypted = ?, lease_owner = NULL, lease_expires_at = NULL, updated_at = ?
+      WHERE id = ? AND lease_owner = ?
+      RETURNING *
+    `,
+      )
+      .get(gatewayTokenEncrypted, nowIso(), id, leaseOwner) as DeploymentRow | undefined;
+    if (!row) return null;
+    this.appendEvent(id, "deployment.gateway_token.rotated", "Gateway token rotated");
+    return this.#toPublic(row);
+  }
+
+  failGatewayTokenRotation(id: string, leaseOwner: string, errorMessage: string) {
+    if (!this.releaseLease(id, leaseOwner)) return;
+    this.appendEvent(id, "deployment.gateway_token.rotation.failed", "Gateway token rotation failed", {
+      error: errorMessage,
+    });
+  }
+
+  recordBootstrapPhase(
+    id: string,
+    workerId: string,
+    phase: BootstrapPhase,
+    status: BootstrapPhaseStatus,
+  ): DeploymentBootstrapState | null {
+    const current = this.#getRow(id);
+    if (!current) return null;
+    if (current.status !== "provisioning" || current.lease_owner !== workerId) return null;
+
+    const state = parseJson<DeploymentBootstrapState>(current.bootstrap_state_json, {
+      completedPhases: [],
+      currentPhase: null,
+      failedPhase: null,
+    });
+    if (status === "started") {
+      state.currentPhase = phase;
+      state.failedPhase = null;
+    } else if (status === "failed") {
+      state.currentPhase = null;
+      state.failedPhase = phase;
+    } else {
+      if (!state.completedPhases.includes(phase)) {
+        state.completedPhases.push(phase);
+      }
+      state.currentPhase = null;
+    }
+
+    const row = this.#db
+      .prepare(
+        `
+      UPDATE deployments
+      SET bootstrap_state_json = ?, updated_at = ?
+      WHERE id = ? AND status = 'provisioning' AND lease_owner = ?
+      RETURNING *
+    `,
+      )
+      .get(JSON.stringify(state), nowIso(), id, workerId) as DeploymentRow | undefined;
+    if (!row) return null;
+
+    // Skipped phases are only interesting in aggregate; the log has them line by line.
+    if (status !== "skipped") {
+      this.appendEvent(id, "deployment.bootstrap.phase", `Bootstrap phase ${phase} ${status}`, { phase, status });
+    }
+    this.#notifyDeploymentChanged(this.#toPublic(row));
+    return state;
+  }
+
+  // Called once the machine the bootstrap ran on is being cleaned up, so a later retry starts from scratch.
+  clearBootstrapState(id: string, workerId: string) {
+    this.#db
+      .prepare(
+        `
+      UPDATE deployments
+      SET bootstrap_state_json = NULL, updated_at = ?
+      WHERE id = ? AND status = 'provisioning' AND lease_owner = ?
+    `,
+      )
+      .run(nowIso(), id, workerId);
+  }
+
+  // Pins the host keys seen on the first SSH connection to the deployment's machine. Keys that are already
+  // pinned are never replaced; they only go away with the address they belong to.
+  recordSshHostKeys(id: string, knownHosts: string): DeploymentInternal | null {
+    const row = this.#db
+      .prepare(
+        `
+      UPDATE deployments
+      SET ssh_known_hosts = ?, updated_at = ?
+      WHERE id = ? AND ssh_known_hosts IS NULL AND (server_ip IS NOT NULL OR ssh_host IS NOT NULL)
+      RETURNING *
+    `,
+      )
+      .get(knownHosts, nowIso(), id) as DeploymentRow | undefined;
+    if (!row) return null;
+    this.appendEvent(id, "deployment.ssh.host_key_pinned", "SSH host key pinned", {
+      host: row.ssh_host ?? row.server_ip,
+      fingerprints: hostKeyFingerprints(knownHosts),
+    });
+    return this.#toInternal(row);
+  }
+
   updateResourceState(
     id: string,
     workerId: string,
@@ -788,6 +2026,9 @@ export class DeploymentsStore {
       serverName?: string | null;
       serverIp?: string | null;
       sshKeyId?: number | null;
+      sshHost?: string | null;
+      sshUser?: string | null;
+      sshPort?: number | null;
       tailnetUrl?: string | null;
       gatewayTokenEncrypted?: string | null;
     },
@@ -800,10 +2041,16 @@ export class DeploymentsStore {
     const nextServerName = hasOwn(patch, "serverName") ? patch.serverName ?? null : current.server_name;
     const nextServerIp = hasOwn(patch, "serverIp") ? patch.serverIp ?? null : current.server_ip;
     const nextSshKeyId = hasOwn(patch, "sshKeyId") ? patch.sshKeyId ?? null : current.ssh_key_id;
+    const nextSshHost = hasOwn(patch, "sshHost") ? patch.sshHost ?? null : current.ssh_host;
+    const nextSshUser = hasOwn(patch, "sshUser") ? patch.sshUser ?? null : current.ssh_user;
+    const nextSshPort = hasOwn(patch, "sshPort") ? patch.sshPort ?? null : current.ssh_port;
     const nextTailnetUrl = hasOwn(patch, "tailnetUrl") ? patch.tailnetUrl ?? null : current.tailnet_url;
     const nextGatewayTokenEncrypted = hasOwn(patch, "gatewayTokenEncrypted")
       ? patch.gatewayTokenEncrypted ?? null
       : current.gateway_token_encrypted;
+    // Pinned host keys belong to the machine at the recorded address.
+    const nextSshKnownHosts =
+      nextServerIp === current.server_ip && nextSshHost === current.ssh_host ? current.ssh_known_hosts : null;
 
     const updatedAt = nowIso();
     const row = this.#db
@@ -815,6 +2062,10 @@ export class DeploymentsStore {
         server_name = ?,
         server_ip = ?,
         ssh_key_id = ?,
+        ssh_host = ?,
+        ssh_user = ?,
+        ssh_port = ?,
+        ssh_known_hosts = ?,
         tailnet_url = ?,
         gateway_token_encrypted = ?,
         updated_at = ?
@@ -827,6 +2078,10 @@ export class DeploymentsStore {
         nextServerName,
         nextServerIp,
         nextSshKeyId,
+        nextSshHost,
+        nextSshUser,
+        nextSshPort,
+        nextSshKnownHosts,
         nextTailnetUrl,
         nextGatewayTokenEncrypted,
         updatedAt,
@@ -844,15 +2099,18 @@ export class DeploymentsStore {
     id: string,
     workerId: string,
     payload: {
-      serverId: number;
-      serverName: string;
-      serverIp: string;
+      serverId: number | null;
+      serverName: string | null;
+      serverIp: string | null;
       sshKeyId: number | null;
       tailnetUrl: string | null;
       gatewayTokenEncrypted: string;
+      // Installed `openclaw` version, pinned into the config.
+      openclawVersion?: string | null;
     },
   ): DeploymentPublic | null {
     const updatedAt = nowIso();
+    const openclawVersion = payload.openclawVersion ?? null;
     const row = this.#db
       .prepare(
         `
@@ -866,10 +2124,14 @@ export class DeploymentsStore {
         ssh_key_id = ?,
         tailnet_url = ?,
         gateway_token_encrypted = ?,
+        config_json = CASE WHEN ? IS NULL THEN config_json ELSE json_set(config_json, '$.openclawVersion', ?) END,
         error_message = NULL,
         cancel_requested_at = NULL,
         lease_owner = NULL,
         lease_expires_at = NULL,
+        health_status = NULL,
+        health_checks_json = NULL,
+        health_checked_at = NULL,
         updated_at = ?
       WHERE id = ?
         AND status = 'provisioning'
@@ -885,6 +2147,8 @@ export class DeploymentsStore {
         payload.sshKeyId,
         payload.tailnetUrl,
         payload.gatewayTokenEncrypted,
+        openclawVersion,
+        openclawVersion,
         updatedAt,
         id,
         workerId,
@@ -893,7 +2157,9 @@ export class DeploymentsStore {
     this.appendEvent(id, "deployment.running", "Provisioning completed successfully", {
       serverId: payload.serverId,
       serverIp: payload.serverIp,
+      sshHost: row.ssh_host,
       tailnetUrl: payload.tailnetUrl,
+      openclawVersion,
     });
     const deployment = this.#toPublic(row);
     this.#notifyDeploymentChanged(deployment);
@@ -916,6 +2182,11 @@ export class DeploymentsStore {
         server_name = NULL,
         server_ip = NULL,
         ssh_key_id = NULL,
+        ssh_host = NULL,
+        ssh_user = NULL,
+        ssh_port = NULL,
+        ssh_known_hosts = NULL,
+        bootstrap_state_json = NULL,
         tailnet_url = NULL,
         gateway_token_encrypted = NULL,
         completed_at = ?,
@@ -951,6 +2222,11 @@ export class DeploymentsStore {
         server_name = NULL,
         server_ip = NULL,
         ssh_key_id = NULL,
+        ssh_host = NULL,
+        ssh_user = NULL,
+        ssh_port = NULL,
+        ssh_known_hosts = NULL,
+        bootstrap_state_json = NULL,
         tailnet_url = NULL,
         gateway_token_encrypted = NULL,
         completed_at = ?,
@@ -970,6 +2246,53 @@ export class DeploymentsStore {
     return deployment;
   }
 
+  // Puts a deployment whose provisioning attempt failed transiently back in the queue. It isn't leased again
+  // before `nextAttemptAt`; resources still attached (a failed bootstrap) are resumed by that attempt.
+  scheduleProvisionRetry(
+    id: string,
+    workerId: string,
+    params: { error: string; reason: string; nextAttemptAt: number; maxAttempts: number },
+  ): DeploymentPublic | null {
+    const updatedAt = nowIso();
+    const row = this.#db
+      .prepare(
+        `
+      UPDATE deployments
+      SET
+        status = 'pending',
+        active_task = NULL,
+        error_message = ?,
+        next_attempt_at = ?,
+        lease_owner = NULL,
+        lease_expires_at = NULL,
+        updated_at = ?
+      WHERE id = ?
+        AND status = 'provisioning'
+        AND lease_owner = ?
+        AND cancel_requested_at IS NULL
+      RETURNING *
+    `,
+      )
+      .get(params.error, params.nextAttemptAt, updatedAt, id, workerId) as DeploymentRow | undefined;
+    if (!row) return null;
+    const attempt = row.provision_attempt ?? 0;
+    this.appendEvent(
+      id,
+      "deployment.retry.scheduled",
+      `Attempt ${attempt} of ${params.maxAttempts} failed (${params.reason}); retrying automatically`,
+      {
+        attempt,
+        maxAttempts: params.maxAttempts,
+        nextAttemptAt: new Date(params.nextAttemptAt).toISOString(),
+        reason: params.reason,
+        error: params.error,
+      },
+    );
+    const deployment = this.#toPublic(row);
+    this.#notifyDeploymentChanged(deployment);
+    return deployment;
+  }
+
   markFailed(id: string, workerId: string, errorMessage: string): DeploymentPublic | null {
     const updatedAt = nowIso();
     const row = this.#db
@@ -994,9 +2317,194 @@ export class DeploymentsStore {
     if (!row) return null;
     this.appendEvent(id, "deployment.failed", "Deployment failed", {
       error: errorMessage,
+      attempt: row.provision_attempt ?? 0,
     });
     const deployment = this.#toPublic(row);
     this.#notifyDeploymentChanged(deployment);
     return deployment;
   }
+
+  listCloudResourceOwners(provider: CloudProviderName): CloudResourceOwner[] {
+    const rows = this.#db
+      .prepare(
+        `
+      SELECT id, status, active_task, server_id, ssh_key_id
+      FROM deployments
+      WHERE provider = ?
+    `,
+      )
+      .all(provider) as Array<Pick<DeploymentRow, "id" | "status" | "active_task" | "server_id" | "ssh_key_id">>;
+    return rows.map((row) => ({
+      id: row.id,
+      status: row.status,
+      activeTask: row.active_task,
+      serverId: row.server_id,
+      sshKeyId: row.ssh_key_id,
+    }));
+  }
+
+  // Encrypted secrets of every cloud deployment, for collecting the provider API tokens in use.
+  listCloudSecretsEncrypted(): Array<{ provider: CloudProviderName; secretsEncrypted: string }> {
+    const rows = this.#db
+      .prepare(
+        `
+      SELECT provider, secrets_encrypted
+      FROM deployments
+      WHERE provider != 'byo'
+    `,
+      )
+      .all() as Array<{ provider: CloudProviderName; secrets_encrypted: string }>;
+    return rows.map((row) => ({ provider: row.provider, secretsEncrypted: row.secrets_encrypted }));
+  }
+
+  // Records one complete scan of a provider account: `found` is everything currently orphaned there. Orphans
+  // of that account that weren't found again are marked resolved. Returns the account's current orphans.
+  recordOrphanScan(provider: CloudProviderName, account: string, found: OrphanCandidate[]): OrphanedResource[] {
+    const scannedAt = nowIso();
+    const detected: OrphanedResource[] = [];
+
+    const tx = this.#db.transaction(() => {
+      for (const candidate of found) {
+        const previous = this.#db
+          .prepare("SELECT status FROM orphaned_resources WHERE provider = ? AND kind = ? AND resource_id = ?")
+          .get(provider, candidate.kind, candidate.resourceId) as { status: OrphanedResourceStatus } | undefined;
+        const row = this.#db
+          .prepare(
+            `
+          INSERT INTO orphaned_resources (
+            provider, account, kind, resource_id, name, deployment_id, reason, status, first_seen_at, last_seen_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, 'orphaned', ?, ?)
+          ON CONFLICT(provider, kind, resource_id) DO UPDATE SET
+            account = excluded.account,
+            name = excluded.name,
+            deployment_id = excluded.deployment_id,
+            reason = excluded.reason,
+            -- A resource that turns up again after being resolved starts a new grace period.
+            first_seen_at = CASE WHEN status = 'orphaned' THEN first_seen_at ELSE excluded.first_seen_at END,
+            status = 'orphaned',
+            destroyed_at = NULL,
+            last_seen_at = excluded.last_seen_at
+          RETURNING *
+        `,
+          )
+          .get(
+            provider,
+            account,
+            candidate.kind,
+            candidate.resourceId,
+            candidate.name,
+            candidate.deploymentId,
+            candidate.reason,
+            scannedAt,
+            scannedAt,
+          ) as OrphanedResourceRow;
+        if (previous?.status !== "orphaned") {
+          detected.push(toOrphanedResource(row));
+        }
+      }
+
+      this.#db
+        .prepare(
+          `
+        UPDATE orphaned_resources
+        SET status = 'resolved', error = NULL
+        WHERE provider = ? AND account = ? AND status = 'orphaned' AND last_seen_at < ?
+      `,
+        )
+        .run(provider, account, scannedAt);
+    });
+    tx();
+
+    for (const orphan of detected) {
+      this.#appendOrphanEvent(orphan, "deployment.orphan.detected", `Orphaned ${orphan.kind.replace("_", " ")} detected`);
+    }
+    return this.listOrphanedResources({ status: "orphaned", provider, account, limit: 10_000 });
+  }
+
+  markOrphanDestroyed(id: number): OrphanedResource | null {
+    const destroyedAt = nowIso();
+    const row = this.#db
+      .prepare(
+        `
+      UPDATE orphaned_resources
+      SET status = 'destroyed', destroyed_at = ?, error = NULL
+      WHERE id = ? AND status = 'orphaned'
+      RETURNING *
+    `,
+      )
+      .get(destroyedAt, id) as OrphanedResourceRow | undefined;
+    if (!row) return null;
+    const orphan = toOrphanedResource(row);
+    this.#appendOrphanEvent(orphan, "deployment.orphan.destroyed", `Orphaned ${orphan.kind.replace("_", " ")} destroyed`);
+    return orphan;
+  }
+
+  // Leaves the resource orphaned, so the next scan tries again.
+  recordOrphanDestroyFailed(id: number, errorMessage: string): OrphanedResource | null {
+    const row = this.#db
+      .prepare(
+        `
+      UPDATE orphaned_resources
+      SET error = ?
+      WHERE id = ? AND status = 'orphaned'
+      RETURNING *
+    `,
+      )
+      .get(errorMessage, id) as OrphanedResourceRow | undefined;
+    if (!row) return null;
+    const orphan = toOrphanedResource(row);
+    this.#appendOrphanEvent(
+      orphan,
+      "deployment.orphan.destroy_failed",
+      `Destroying orphaned ${orphan.kind.replace("_", " ")} failed`,
+      { error: errorMessage },
+    );
+    return orphan;
+  }
+
+  listOrphanedResources(
+    filters: {
+      status?: OrphanedResourceStatus;
+      provider?: CloudProviderName;
+      account?: string;
+      limit?: number;
+      offset?: number;
+    } = {},
+  ): OrphanedResource[] {
+    const rows = this.#db
+      .prepare(
+        `
+      SELECT * FROM orphaned_resources
+      WHERE (? IS NULL OR status = ?)
+        AND (? IS NULL OR provider = ?)
+        AND (? IS NULL OR account = ?)
+      ORDER BY first_seen_at ASC, id ASC
+      LIMIT ? OFFSET ?
+    `,
+      )
+      .all(
+        filters.status ?? null,
+        filters.status ?? null,
+        filters.provider ?? null,
+        filters.provider ?? null,
+        filters.account ?? null,
+        filters.account ?? null,
+        filters.limit ?? 50,
+        filters.offset ?? 0,
+      ) as OrphanedResourceRow[];
+    return rows.map(toOrphanedResource);
+  }
+
+  // Orphans are only recorded on a deployment timeline while that deployment row still exists.
+  #appendOrphanEvent(orphan: OrphanedResource, type: string, message: string, extra: Record<string, unknown> = {}) {
+    if (!orphan.deploymentId || !this.#getRow(orphan.deploymentId)) return;
+    this.appendEvent(orphan.deploymentId, type, message, {
+      provider: orphan.provider,
+      kind: orphan.kind,
+      resourceId: orphan.resourceId,
+      name: orphan.name,
+      reason: orphan.reason,
+      ...extra,
+    });
+  }
 }
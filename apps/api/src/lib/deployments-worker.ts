@@ -3,26 +3,70 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import { SecretBox } from "./crypto.js";
+import { CloudProvider, createCloudProvider, isProviderNotFound } from "./cloud-provider.js";
 import {
   DeploymentConfig,
   DeploymentInternal,
+  DeploymentProvider,
   DeploymentSecrets,
   DeploymentsStore,
 } from "./deployments-store.js";
-import { HetznerClient } from "./hetzner-client.js";
-import { buildRemoteBootstrapScript } from "./remote-script.js";
-import { run, runOrThrow } from "./sh.js";
+import {
+  buildDeploymentBootstrap,
+  buildDeploymentReconfigure,
+  publicDomainUrl,
+  tailscaleModeFor,
+} from "./deployment-bootstrap.js";
+import { createSecretRedactor, DeploymentLogWriter } from "./deployment-logs.js";
+import { waitForGatewayHealthy } from "./gateway-health.js";
+import { generateGatewayToken } from "./gateway-token.js";
+import { detectOpenclawVersion } from "./openclaw-version.js";
+import {
+  classifyBootstrapFailure,
+  classifyProvisionError,
+  ProvisionErrorClassification,
+  provisionRetryDelayMs,
+} from "./provision-errors.js";
+import {
+  BootstrapPhase,
+  buildRemoteUninstallScript,
+  buildRemoteUpgradeScript,
+  parseBootstrapPhaseMarker,
+} from "./remote-script.js";
+import {
+  asRoot,
+  copyToRemote,
+  deploymentSshTarget,
+  detectTailnetUrl,
+  remoteScriptPath,
+  rootTarget,
+  runRemote,
+  shellEscape,
+  SshTarget,
+  waitForSsh,
+} from "./ssh.js";
+
+// How long a freshly bootstrapped gateway gets to come up before the deployment is failed and cleaned up.
+const GATEWAY_VERIFY_TIMEOUT_MS = 120_000;
+
+// Every cloud server the worker creates carries these labels plus `deployment_id`; the orphan reconciler
+// relies on them. The CLI uses the same `managed-by` label but no `deployment_id`.
+export const MANAGED_SERVER_LABELS = { "managed-by": "claw-launchpad" } as const;
+// Worker SSH keys are named `clawpad-<hostname>-<epoch ms>-<first 8 chars of the deployment id>`.
+export const WORKER_SSH_KEY_NAME_PATTERN = /^clawpad-.+-\d{13}-([0-9a-f]{8})$/;
 
 type ProvisioningResult = {
-  serverId: number;
-  serverName: string;
-  serverIp: string;
+  serverId: number | null;
+  serverName: string | null;
+  serverIp: string | null;
   sshKeyId: number | null;
   tailnetUrl: string | null;
   gatewayToken: string;
+  openclawVersion: string | null;
 };
 
 type CleanupResult = {
+  // For BYO deployments this means OpenClaw was uninstalled from the host.
   cleanedServer: boolean;
   cleanedSshKey: boolean;
   cleanupErrors: string[];
@@ -33,97 +77,60 @@ type DeploymentProvisionConfig = {
   sshPrivateKeyPath?: string;
 };
 
-function toRfc1123Label(value: string): string {
-  const normalized = String(value || "")
-    .trim()
-    .toLowerCase()
-    .replace(/[^a-z0-9-]/g, "-")
-    .replace(/-+/g, "-")
-    .replace(/^-+/, "")
-    .replace(/-+$/, "");
-
-  const sliced = normalized.slice(0, 63).replace(/-+$/, "");
-  const candidate = sliced || "openclaw";
-  if (!/^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/.test(candidate)) {
-    return "openclaw";
-  }
-  return candidate;
+export function providerApiToken(provider: DeploymentProvider, secrets: DeploymentSecrets): string | undefined {
+  if (provider === "digitalocean") return secrets.digitaloceanApiToken;
+  if (provider === "hetzner") return secrets.hetznerApiToken;
+  return undefined;
 }
 
-function shellEscape(value: string): string {
-  return `'${String(value).replace(/'/g, `'"'"'`)}'`;
+export function createProviderForJob(job: DeploymentInternal, secrets: DeploymentSecrets): CloudProvider | null {
+  if (job.provider === "byo") return null;
+  const token = providerApiToken(job.provider, secrets);
+  return token ? createCloudProvider(job.provider, token) : null;
 }
 
-function sshOptions(privateKeyPath?: string): string[] {
-  const options = [
-    "-o",
-    "StrictHostKeyChecking=no",
-    "-o",
-    "UserKnownHostsFile=/dev/null",
-    "-o",
-    "BatchMode=yes",
-  ];
-  if (privateKeyPath) {
-    options.push("-i", privateKeyPath, "-o", "IdentitiesOnly=yes");
+function byoTarget(job: DeploymentInternal): SshTarget {
+  const { config } = job;
+  if (!config.byoHost) {
+    throw new Error("BYO deployment is missing byoHost");
   }
-  return options;
-}
-
-function isHetznerNotFound(error: unknown): boolean {
-  return Number((error as any)?.statusCode || 0) === 404;
+  return {
+    host: config.byoHost,
+    user: config.byoSshUser ?? "root",
+    port: config.byoSshPort ?? 22,
+    deploymentId: job.id,
+    // Keys pinned by an earlier attempt only count for the host they were recorded on.
+    knownHosts: job.resources.sshHost === config.byoHost ? job.sshKnownHosts : null,
+  };
 }
 
-async function waitForSsh(ip: string, privateKeyPath?: string, timeoutMs = 180_000) {
-  const deadline = Date.now() + timeoutMs;
-  while (Date.now() < deadline) {
-    const res = await run([
-      "ssh",
-      ...sshOptions(privateKeyPath),
-      "-o",
-      "ConnectTimeout=5",
-      `root@${ip}`,
-      "true",
-    ]);
-    if (res.code === 0) return;
-    await new Promise((resolve) => setTimeout(resolve, 2_500));
+class CancelRequestedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CancelRequestedError";
   }
-  throw new Error(`Timeout waiting for SSH on ${ip}`);
 }
 
-async function detectTailnetUrl(ip: string, privateKeyPath?: string): Promise<string | null> {
-  for (let attempt = 0; attempt < 12; attempt++) {
-    const res = await run([
-      "ssh",
-      ...sshOptions(privateKeyPath),
-      `root@${ip}`,
-      "tailscale status --json",
-    ]);
-    if (res.code !== 0) {
-      await new Promise((resolve) => setTimeout(resolve, 2_500));
-      continue;
-    }
+// The machine exists and was reachable, but the bootstrap did not finish. Its resources are kept so a
+// retry can resume from the failed phase.
+class BootstrapFailedError extends Error {
+  readonly exitCode: number;
+  readonly phase: BootstrapPhase | null;
 
-    try {
-      const parsed = JSON.parse(res.stdout) as any;
-      const self = parsed?.Self;
-      const dns = typeof self?.DNSName === "string" ? String(self.DNSName) : "";
-      const host = dns ? dns.replace(/\.$/, "") : Array.isArray(self?.TailscaleIPs) ? self.TailscaleIPs[0] : null;
-      if (host) {
-        return `https://${host}/`;
-      }
-    } catch {
-      // retry
-    }
-    await new Promise((resolve) => setTimeout(resolve, 2_500));
+  constructor(message: string, exitCode: number, phase: BootstrapPhase | null) {
+    super(message);
+    this.name = "BootstrapFailedError";
+    this.exitCode = exitCode;
+    this.phase = phase;
   }
-  return null;
 }
 
-class CancelRequestedError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "CancelRequestedError";
-  }
+const DEFAULT_RETRY_BASE_MS = 30_000;
+const DEFAULT_EXPIRY_WARNING_HOURS = [24, 1];
+const MAX_RETRY_DELAY_MS = 10 * 60_000;
+
+function positiveCount(value: number | undefined): number {
+  return value !== undefined && Number.isFinite(value) && value >= 1 ? Math.floor(value) : 1;
 }
 
 export class DeploymentsWorker {
@@ -132,9 +139,17 @@ export class DeploymentsWorker {
   readonly #workerId: string;
   readonly #leaseMs: number;
   readonly #intervalMs: number;
+  readonly #verifyTimeoutMs: number;
   readonly #provisionConfig: DeploymentProvisionConfig;
+  readonly #concurrency: number;
+  readonly #destroyConcurrency: number;
+  readonly #maxJobsPerAccount: number | undefined;
+  readonly #maxProvisionAttempts: number;
+  readonly #retryBaseMs: number;
+  readonly #expiryWarningHours: number[];
+  // Deployment ids of the jobs running in this process, per slot pool.
+  readonly #running = { destroy: new Set<string>(), work: new Set<string>() };
   #timer: NodeJS.Timeout | null = null;
-  #tickRunning = false;
 
   constructor(params: {
     store: DeploymentsStore;
@@ -142,12 +157,34 @@ export class DeploymentsWorker {
     leaseMs: number;
     intervalMs: number;
     provisionConfig: DeploymentProvisionConfig;
+    verifyTimeoutMs?: number;
+    // Slots for provision, reconfigure and upgrade jobs.
+    concurrency?: number;
+    // Separate slots for cleanup jobs, so cancels never wait behind long bootstraps.
+    destroyConcurrency?: number;
+    // Deployments of one cloud provider account provisioning at once, across all workers; unset means no cap.
+    maxJobsPerAccount?: number;
+    // Provisioning attempts per deployment; transient failures are retried with exponential backoff from
+    // `retryBaseMs` until they run out. 1 (the default) fails on the first error.
+    maxProvisionAttempts?: number;
+    retryBaseMs?: number;
+    // How long before `expiresAt` deployments get a `deployment.expiry.warning` event, once per threshold.
+    expiryWarningHours?: number[];
   }) {
     this.#store = params.store;
     this.#secretBox = params.secretBox;
     this.#leaseMs = params.leaseMs;
     this.#intervalMs = params.intervalMs;
+    this.#verifyTimeoutMs = params.verifyTimeoutMs ?? GATEWAY_VERIFY_TIMEOUT_MS;
     this.#provisionConfig = params.provisionConfig;
+    this.#concurrency = positiveCount(params.concurrency);
+    this.#destroyConcurrency = positiveCount(params.destroyConcurrency);
+    this.#maxJobsPerAccount = params.maxJobsPerAccount;
+    this.#maxProvisionAttempts = positiveCount(params.maxProvisionAttempts);
+    this.#retryBaseMs = params.retryBaseMs ?? DEFAULT_RETRY_BASE_MS;
+    this.#expiryWarningHours = (params.expiryWarningHours ?? DEFAULT_EXPIRY_WARNING_HOURS).filter(
+      (hours) => Number.isFinite(hours) && hours > 0,
+    );
     this.#workerId = `worker-${process.pid}-${crypto.randomUUID()}`;
   }
 
@@ -166,24 +203,67 @@ export class DeploymentsWorker {
     this.#timer = null;
   }
 
+  // Fills the free slots with newly leased jobs and resolves once those jobs have finished. Leasing is
+  // synchronous, so overlapping ticks only ever fill slots the other one left free. Expired deployments get their
+  // cancel requested first, so their cleanup can be leased in the same tick.
   async tick() {
-    if (this.#tickRunning) return;
-    this.#tickRunning = true;
-    try {
-      this.#store.recoverExpiredProvisionLeases();
+    this.#store.recoverExpiredProvisionLeases();
+    this.#store.warnExpiringDeployments(this.#expiryWarningHours);
+    this.#store.expireDeployments();
+    const jobs: Array<Promise<void>> = [];
 
+    while (this.#running.destroy.size < this.#destroyConcurrency) {
       const destroyJob = this.#store.leaseNextDestroyJob(this.#workerId, this.#leaseMs);
-      if (destroyJob) {
-        await this.#handleDestroyJob(destroyJob);
-        return;
-      }
+      if (!destroyJob) break;
+      jobs.push(this.#run("destroy", destroyJob, () => this.#handleDestroyJob(destroyJob)));
+    }
 
-      const provisionJob = this.#store.leaseNextProvisionJob(this.#workerId, this.#leaseMs);
-      if (provisionJob) {
-        await this.#handleProvisionJob(provisionJob);
+    while (this.#running.work.size < this.#concurrency) {
+      const configJob = this.#store.leaseNextConfigJob(this.#workerId, this.#leaseMs);
+      if (configJob) {
+        jobs.push(
+          this.#run("work", configJob, () =>
+            configJob.activeTask === "upgrade" ? this.#handleUpgradeJob(configJob) : this.#handleReconfigureJob(configJob),
+          ),
+        );
+        continue;
       }
+
+      const provisionJob = this.#store.leaseNextProvisionJob(this.#workerId, this.#leaseMs, {
+        maxPerAccount: this.#maxJobsPerAccount,
+      });
+      if (!provisionJob) break;
+      jobs.push(this.#run("work", provisionJob, () => this.#handleProvisionJob(provisionJob)));
+    }
+
+    await Promise.all(jobs);
+  }
+
+  async #run(pool: "destroy" | "work", job: DeploymentInternal, handler: () => Promise<void>) {
+    // A lease that expired under a job still running here was re-leased by this process; the running job
+    // keeps it.
+    if (this.#running.destroy.has(job.id) || this.#running.work.has(job.id)) return;
+    this.#running[pool].add(job.id);
+
+    // Remote commands such as the bootstrap run for minutes without a heartbeat, so the lease is renewed on a
+    // timer as well. Handlers still heartbeat between steps, which is where a lost lease stops them.
+    const keepAlive = setInterval(
+      () => {
+        if (!this.#store.renewLease(job.id, this.#workerId, this.#leaseMs)) {
+          clearInterval(keepAlive);
+        }
+      },
+      Math.max(1_000, Math.floor(this.#leaseMs / 3)),
+    );
+    keepAlive.unref();
+
+    try {
+      await handler();
+    } catch (error) {
+      console.error(`Deployment job failed for ${job.id}`, error);
     } finally {
-      this.#tickRunning = false;
+      clearInterval(keepAlive);
+      this.#running[pool].delete(job.id);
     }
   }
 
@@ -224,6 +304,7 @@ export class DeploymentsWorker {
         sshKeyId: result.sshKeyId,
         tailnetUrl: result.tailnetUrl,
         gatewayTokenEncrypted,
+        openclawVersion: result.openclawVersion,
       });
       if (!marked) {
         throw new Error("Failed to transition deployment to running");
@@ -232,15 +313,37 @@ export class DeploymentsWorker {
     } catch (error) {
       canceled = error instanceof CancelRequestedError || this.#store.isCancelRequested(job.id);
       const baseMessage = error instanceof Error ? error.message : String(error);
+      const classification =
+        error instanceof BootstrapFailedError
+          ? classifyBootstrapFailure(error.exitCode, error.phase)
+          : classifyProvisionError(error);
+
+      if (error instanceof BootstrapFailedError && !canceled) {
+        this.#store.appendEvent(
+          job.id,
+          "deployment.provision.error",
+          "Bootstrap failed; resources kept so a retry can resume",
+          { error: baseMessage, attempt: job.provisionAttempt, transient: classification.transient },
+        );
+        if (this.#scheduleRetry(job, baseMessage, classification)) return;
+        this.#store.markFailed(
+          job.id,
+          this.#workerId,
+          `${baseMessage}; retry resumes on the same machine, cancel cleans it up`,
+        );
+        return;
+      }
+
       this.#store.appendEvent(
         job.id,
         "deployment.provision.error",
         canceled ? "Provisioning interrupted by cancellation" : "Provisioning failed; attempting cleanup",
-        { error: baseMessage },
+        { error: baseMessage, attempt: job.provisionAttempt, transient: classification.transient },
       );
 
       const current = this.#store.getInternal(job.id);
       if (!current) return;
+      this.#store.clearBootstrapState(job.id, this.#workerId);
 
       try {
         const secrets = this.#secretBox.decryptObject<DeploymentSecrets>(current.secretsEncrypted);
@@ -263,6 +366,9 @@ export class DeploymentsWorker {
           serverId: cleanup.cleanedServer ? null : undefined,
           serverName: cleanup.cleanedServer ? null : undefined,
           serverIp: cleanup.cleanedServer ? null : undefined,
+          sshHost: cleanup.cleanedServer ? null : undefined,
+          sshUser: cleanup.cleanedServer ? null : undefined,
+          sshPort: cleanup.cleanedServer ? null : undefined,
           tailnetUrl: cleanup.cleanedServer ? null : undefined,
           gatewayTokenEncrypted: cleanup.cleanedServer ? null : undefined,
           sshKeyId: cleanup.cleanedSshKey ? null : undefined,
@@ -276,16 +382,34 @@ export class DeploymentsWorker {
         }
       }
 
+      if (!canceled && cleanup.cleanupErrors.length === 0 && this.#scheduleRetry(job, baseMessage, classification)) {
+        return;
+      }
       this.#store.markFailed(job.id, this.#workerId, finalMessage);
     }
   }
 
+  // Requeues a transiently failed attempt with exponential backoff while attempts remain. Returns false when
+  // the deployment should fail instead.
+  #scheduleRetry(job: DeploymentInternal, error: string, classification: ProvisionErrorClassification): boolean {
+    if (!classification.transient || job.provisionAttempt >= this.#maxProvisionAttempts) return false;
+    const delayMs = provisionRetryDelayMs(job.provisionAttempt, this.#retryBaseMs, MAX_RETRY_DELAY_MS);
+    const scheduled = this.#store.scheduleProvisionRetry(job.id, this.#workerId, {
+      error,
+      reason: classification.reason,
+      nextAttemptAt: Date.now() + delayMs,
+      maxAttempts: this.#maxProvisionAttempts,
+    });
+    return scheduled !== null;
+  }
+
   async #handleDestroyJob(job: DeploymentInternal) {
     this.#store.appendEvent(job.id, "deployment.destroy.progress", "Starting cleanup orchestration", {
       workerId: this.#workerId,
     });
 
     try {
+      this.#store.clearBootstrapState(job.id, this.#workerId);
       const secrets = this.#secretBox.decryptObject<DeploymentSecrets>(job.secretsEncrypted);
       const cleanup = await this.#cleanupResources(job, secrets);
       if (cleanup.cleanupErrors.length > 0) {
@@ -297,6 +421,9 @@ export class DeploymentsWorker {
           serverId: cleanup.cleanedServer ? null : undefined,
           serverName: cleanup.cleanedServer ? null : undefined,
           serverIp: cleanup.cleanedServer ? null : undefined,
+          sshHost: cleanup.cleanedServer ? null : undefined,
+          sshUser: cleanup.cleanedServer ? null : undefined,
+          sshPort: cleanup.cleanedServer ? null : undefined,
           tailnetUrl: cleanup.cleanedServer ? null : undefined,
           gatewayTokenEncrypted: cleanup.cleanedServer ? null : undefined,
           sshKeyId: cleanup.cleanedSshKey ? null : undefined,
@@ -313,68 +440,255 @@ export class DeploymentsWorker {
     }
   }
 
-  async #provisionOne(job: DeploymentInternal, secrets: DeploymentSecrets): Promise<ProvisioningResult> {
-    const config = job.config;
+  async #handleReconfigureJob(job: DeploymentInternal) {
+    try {
+      const target = deploymentSshTarget(job);
+      if (!target) {
+        throw new Error("Deployment has no SSH target");
+      }
+      if (!job.pendingConfig || !job.pendingSecretsEncrypted || !job.gatewayTokenEncrypted) {
+        throw new Error("Reconfigure job is missing its pending config or gateway token");
+      }
+      const { gatewayToken } = this.#secretBox.decryptObject<{ gatewayToken: string }>(job.gatewayTokenEncrypted);
+      const previous = {
+        config: job.config,
+        secrets: this.#secretBox.decryptObject<DeploymentSecrets>(job.secretsEncrypted),
+      };
+      const next = {
+        config: job.pendingConfig,
+        secrets: this.#secretBox.decryptObject<DeploymentSecrets>(job.pendingSecretsEncrypted),
+      };
+      const redactValues = [gatewayToken, ...Object.values(previous.secrets), ...Object.values(next.secrets)];
+
+      try {
+        await this.#runReconfigure(job, target, next, previous, gatewayToken, redactValues);
+        await this.#verifyChangedGateway(job, target, gatewayToken, redactValues, "reconfigure");
+      } catch (error) {
+        // Put the machine back on the config the store still holds, so both agree again.
+        const message = error instanceof Error ? error.message : String(error);
+        try {
+          await this.#runReconfigure(job, target, previous, next, gatewayToken, redactValues);
+        } catch (rollbackError) {
+          const rollbackMessage = rollbackError instanceof Error ? rollbackError.message : String(rollbackError);
+          throw new Error(`${message}; restoring the previous config failed: ${rollbackMessage}`);
+        }
+        throw new Error(`${message}; the previous config was restored`);
+      }
+
+      await this.#heartbeat(job.id);
+      if (!this.#store.completeConfigTask(job.id, this.#workerId)) {
+        throw new Error("Failed to record the applied configuration");
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.#store.failConfigTask(job.id, this.#workerId, message);
+    }
+  }
+
+  // Installs the pending openclaw version and checks the gateway. A gateway that doesn't come back healthy is
+  // rolled back to the version it ran before.
+  async #handleUpgradeJob(job: DeploymentInternal) {
+    try {
+      const target = deploymentSshTarget(job);
+      if (!target) {
+        throw new Error("Deployment has no SSH target");
+      }
+      const targetVersion = job.pendingConfig?.openclawVersion;
+      if (!targetVersion || !job.gatewayTokenEncrypted) {
+        throw new Error("Upgrade job is missing its target version or gateway token");
+      }
+      const privateKeyPath = this.#provisionConfig.sshPrivateKeyPath;
+      const { gatewayToken } = this.#secretBox.decryptObject<{ gatewayToken: string }>(job.gatewayTokenEncrypted);
+      const secrets = this.#secretBox.decryptObject<DeploymentSecrets>(job.secretsEncrypted);
+      const redactValues = [gatewayToken, ...Object.values(secrets)];
+      // Deployments from before version pinning don't know their version; ask the machine.
+      const previousVersion = job.config.openclawVersion ?? (await detectOpenclawVersion(target, privateKeyPath));
+
+      try {
+        await this.#runUpgradeScript(job, target, targetVersion, redactValues);
+        await this.#verifyChangedGateway(job, target, gatewayToken, redactValues, "upgrade");
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (!previousVersion) {
+          throw new Error(`${message}; previous version unknown, nothing to roll back to`);
+        }
+        try {
+          await this.#runUpgradeScript(job, target, previousVersion, redactValues);
+          await this.#verifyChangedGateway(job, target, gatewayToken, redactValues, "upgrade");
+        } catch (rollbackError) {
+          const rollbackMessage = rollbackError instanceof Error ? rollbackError.message : String(rollbackError);
+          throw new Error(`${message}; rollback to openclaw@${previousVersion} failed: ${rollbackMessage}`);
+        }
+        this.#store.appendEvent(job.id, "deployment.upgrade.rolled_back", `Rolled back to openclaw@${previousVersion}`, {
+          fromVersion: targetVersion,
+          toVersion: previousVersion,
+        });
+        throw new Error(`${message}; rolled back to openclaw@${previousVersion}`);
+      }
+
+      // A dist-tag such as `latest` is pinned to whatever it resolved to.
+      const installedVersion = await detectOpenclawVersion(target, privateKeyPath);
+      await this.#heartbeat(job.id);
+      const completed = this.#store.completeConfigTask(
+        job.id,
+        this.#workerId,
+        installedVersion ? { openclawVersion: installedVersion } : {},
+      );
+      if (!completed) {
+        throw new Error("Failed to record the upgraded version");
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.#store.failConfigTask(job.id, this.#workerId, message);
+    }
+  }
+
+  async #runUpgradeScript(
+    job: DeploymentInternal,
+    target: SshTarget,
+    version: string,
+    redactValues: Array<string | undefined>,
+  ) {
+    await this.#heartbeat(job.id);
+    this.#store.appendEvent(job.id, "deployment.upgrade.progress", `Installing openclaw@${version}`, { version });
+    const logs = new DeploymentLogWriter(this.#store, job.id, redactValues);
+    const res = await runRemote(
+      target,
+      asRoot(target, `bash -c ${shellEscape(buildRemoteUpgradeScript({ openclawVersion: version }))}`),
+      this.#provisionConfig.sshPrivateKeyPath,
+      { onLine: logs.write },
+    );
+    logs.flush();
+    if (res.code !== 0) {
+      throw new Error(`upgrade script failed (${res.code}): ${logs.tail() || "no output"}`);
+    }
+  }
+
+  async #runReconfigure(
+    job: DeploymentInternal,
+    target: SshTarget,
+    next: { config: DeploymentConfig; secrets: DeploymentSecrets },
+    previous: { config: DeploymentConfig; secrets: DeploymentSecrets },
+    gatewayToken: string,
+    redactValues: Array<string | undefined>,
+  ) {
+    const { script, env } = buildDeploymentReconfigure(next.config, next.secrets, previous, { gatewayToken });
+    const exportPrefix = Object.entries(env)
+      .map(([key, value]) => `${key}=${shellEscape(value)}`)
+      .join(" ");
+
+    await this.#heartbeat(job.id);
+    this.#store.appendEvent(job.id, "deployment.reconfigure.progress", "Applying configuration over SSH");
+    const logs = new DeploymentLogWriter(this.#store, job.id, redactValues);
+    const res = await runRemote(
+      target,
+      asRoot(target, `env ${exportPrefix} bash -c ${shellEscape(script)}`),
+      this.#provisionConfig.sshPrivateKeyPath,
+      { onLine: logs.write },
+    );
+    logs.flush();
+    if (res.code !== 0) {
+      throw new Error(`reconfigure script failed (${res.code}): ${logs.tail() || "no output"}`);
+    }
+  }
+
+  async #verifyChangedGateway(
+    job: DeploymentInternal,
+    target: SshTarget,
+    gatewayToken: string,
+    redactValues: Array<string | undefined>,
+    task: "reconfigure" | "upgrade",
+  ) {
+    const { report, attempts } = await waitForGatewayHealthy({
+      target,
+      gatewayToken,
+      privateKeyPath: this.#provisionConfig.sshPrivateKeyPath,
+      redact: createSecretRedactor(redactValues),
+      timeoutMs: this.#verifyTimeoutMs,
+      doctor: false,
+      onAttempt: async () => {
+        await this.#heartbeat(job.id);
+      },
+    });
+    if (!report.healthy) {
+      const failing = report.checks
+        .filter((check) => !check.ok)
+        .map((check) => `${check.name}: ${check.detail}`)
+        .join("; ");
+      throw new Error(`gateway unhealthy after ${task} (${attempts} attempts: ${failing})`);
+    }
+  }
+
+  #readProvisionerPublicKey(): string {
     const sshPublicKey = fs.readFileSync(path.resolve(this.#provisionConfig.sshPublicKeyPath), "utf8").trim();
     if (!sshPublicKey.startsWith("ssh-")) {
       throw new Error("PROVISIONER_SSH_PUBLIC_KEY_PATH does not contain a valid SSH public key");
     }
+    return sshPublicKey;
+  }
 
-    if (!secrets.hetznerApiToken) {
-      throw new Error("Missing Hetzner API token");
-    }
-    if (!secrets.tailscaleAuthKey) {
+  async #provisionOne(job: DeploymentInternal, secrets: DeploymentSecrets): Promise<ProvisioningResult> {
+    if (tailscaleModeFor(job.config) !== "off" && !secrets.tailscaleAuthKey) {
       throw new Error("Missing Tailscale auth key");
     }
+    if (job.provider === "byo") {
+      return await this.#provisionByo(job, secrets);
+    }
+    return await this.#provisionCloud(job, secrets);
+  }
+
+  async #provisionCloud(job: DeploymentInternal, secrets: DeploymentSecrets): Promise<ProvisioningResult> {
+    const config = job.config;
+    const sshPublicKey = this.#readProvisionerPublicKey();
+
+    const provider = createProviderForJob(job, secrets);
+    if (!provider) {
+      throw new Error(`Missing ${job.provider} API token`);
+    }
+    if (job.resources.serverId && job.resources.serverIp) {
+      return await this.#resumeCloud(job, secrets);
+    }
+    if (!config.serverType || !config.image || !config.location) {
+      throw new Error("Deployment config is missing serverType, image or location");
+    }
 
-    const client = new HetznerClient(secrets.hetznerApiToken);
     const sshKeyName = `clawpad-${os.hostname()}-${Date.now()}-${job.id.slice(0, 8)}`;
-    const gatewayToken = crypto.randomBytes(32).toString("hex");
-    const tailscaleHostname = toRfc1123Label(config.tailscaleHostname ?? config.name);
 
     await this.#assertNotCanceled(job.id);
     await this.#heartbeat(job.id);
 
-    this.#store.appendEvent(job.id, "deployment.provision.progress", "Creating temporary Hetzner SSH key");
-    const sshKey = await client.createSshKey({ name: sshKeyName, public_key: sshPublicKey });
+    this.#store.appendEvent(
+      job.id,
+      "deployment.provision.progress",
+      `Creating temporary ${provider.label} SSH key`,
+    );
+    const sshKey = await provider.createSshKey({ name: sshKeyName, publicKey: sshPublicKey });
     await this.#heartbeat(job.id);
     this.#store.updateResourceState(job.id, this.#workerId, {
-      sshKeyId: sshKey.ssh_key.id,
+      sshKeyId: sshKey.id,
     });
 
     await this.#assertNotCanceled(job.id);
-    this.#store.appendEvent(job.id, "deployment.provision.progress", "Creating Hetzner server");
-    const create = await client.createServer({
+    this.#store.appendEvent(job.id, "deployment.provision.progress", `Creating ${provider.label} server`);
+    const created = await provider.createServer({
       name: config.name,
-      server_type: config.serverType,
+      serverType: config.serverType,
       image: config.image,
       location: config.location,
-      ssh_keys: [sshKey.ssh_key.id],
-      start_after_create: true,
-      public_net: { enable_ipv4: true, enable_ipv6: true },
-      labels: { "managed-by": "claw-launchpad", deployment_id: job.id },
+      sshKeyIds: [sshKey.id],
+      labels: { ...MANAGED_SERVER_LABELS, deployment_id: job.id },
     });
 
     await this.#heartbeat(job.id);
     this.#store.updateResourceState(job.id, this.#workerId, {
-      serverId: create.server.id,
-      serverName: create.server.name,
+      serverId: created.id,
+      serverName: created.name,
     });
 
-    const actionId = create.action?.id;
-    if (actionId) {
-      await this.#store.updateResourceState(job.id, this.#workerId, {
-        serverId: create.server.id,
-        serverName: create.server.name,
-      });
-      await client.waitForAction(actionId, { timeoutMs: 180_000 });
-      await this.#heartbeat(job.id);
-    }
-
     await this.#assertNotCanceled(job.id);
     this.#store.appendEvent(job.id, "deployment.provision.progress", "Waiting for server networking");
-    const latest = await client.getServer(create.server.id);
-    const ip = latest.server.public_net?.ipv4?.ip;
+    const latest = await provider.waitForServer(created.id, { timeoutMs: 180_000 });
+    const ip = latest.ipv4;
     if (!ip) {
       throw new Error("No ipv4 assigned yet");
     }
@@ -384,59 +698,160 @@ export class DeploymentsWorker {
     await this.#heartbeat(job.id);
 
     this.#store.appendEvent(job.id, "deployment.provision.progress", "Waiting for SSH to become available");
-    await waitForSsh(ip, this.#provisionConfig.sshPrivateKeyPath);
+    // A fresh server: its host key is accepted once here and pinned for every later connection.
+    const firstConnect = rootTarget(ip, { id: job.id, sshKnownHosts: null });
+    const recordedHostKeys = await waitForSsh(firstConnect, this.#provisionConfig.sshPrivateKeyPath);
+    const target = this.#pinHostKeys(job, firstConnect, recordedHostKeys);
+    await this.#heartbeat(job.id);
+    await this.#assertNotCanceled(job.id);
+
+    const { tailnetUrl, gatewayToken, openclawVersion } = await this.#bootstrap(job, secrets, target);
+
+    return {
+      serverId: created.id,
+      serverName: created.name,
+      serverIp: ip,
+      sshKeyId: sshKey.id,
+      tailnetUrl,
+      gatewayToken,
+      openclawVersion,
+    };
+  }
+
+  // Retry after a failed bootstrap: the server and its SSH key are still attached, so skip straight to the
+  // bootstrap, which skips phases that already completed on the machine.
+  async #resumeCloud(job: DeploymentInternal, secrets: DeploymentSecrets): Promise<ProvisioningResult> {
+    let target = rootTarget(String(job.resources.serverIp), job);
+    this.#store.appendEvent(job.id, "deployment.provision.progress", "Resuming bootstrap on existing server", {
+      serverId: job.resources.serverId,
+      serverIp: job.resources.serverIp,
+      resumeFromPhase: job.bootstrap?.failedPhase ?? job.bootstrap?.currentPhase ?? null,
+    });
+    const recordedHostKeys = await waitForSsh(target, this.#provisionConfig.sshPrivateKeyPath, 60_000);
+    target = this.#pinHostKeys(job, target, recordedHostKeys);
+    await this.#heartbeat(job.id);
+    await this.#assertNotCanceled(job.id);
+
+    const { tailnetUrl, gatewayToken, openclawVersion } = await this.#bootstrap(job, secrets, target);
+
+    return {
+      serverId: job.resources.serverId,
+      serverName: job.resources.serverName,
+      serverIp: job.resources.serverIp,
+      sshKeyId: job.resources.sshKeyId,
+      tailnetUrl,
+      gatewayToken,
+      openclawVersion,
+    };
+  }
+
+  async #provisionByo(job: DeploymentInternal, secrets: DeploymentSecrets): Promise<ProvisioningResult> {
+    let target = byoTarget(job);
+
+    await this.#assertNotCanceled(job.id);
+    await this.#heartbeat(job.id);
+
+    this.#store.appendEvent(job.id, "deployment.provision.progress", "Connecting to BYO host over SSH", {
+      host: target.host,
+      user: target.user,
+      port: target.port,
+    });
+    // The machine is already up, so a short wait is enough to tell "unreachable" from "slow".
+    const recordedHostKeys = await waitForSsh(target, this.#provisionConfig.sshPrivateKeyPath, 30_000);
+
+    // Recorded before anything is installed so a failure or cancel from here on triggers an uninstall.
+    this.#store.updateResourceState(job.id, this.#workerId, {
+      sshHost: target.host,
+      sshUser: target.user,
+      sshPort: target.port,
+    });
+    target = this.#pinHostKeys(job, target, recordedHostKeys);
     await this.#heartbeat(job.id);
     await this.#assertNotCanceled(job.id);
 
-    const script = buildRemoteBootstrapScript({
-      gatewayPort: 18789,
-      gatewayBind: "loopback",
-      tailscaleMode: "serve",
-      authChoice: config.authChoice,
-      discordBotToken: secrets.discordBotToken,
-      discordGroupPolicy: config.discordGroupPolicy,
-      discordGuildId: config.discordGuildId,
-      discordChannelIds: config.discordChannelIds,
+    const { tailnetUrl, gatewayToken, openclawVersion } = await this.#bootstrap(job, secrets, target);
+
+    return {
+      serverId: null,
+      serverName: null,
+      serverIp: null,
+      sshKeyId: null,
+      tailnetUrl,
+      gatewayToken,
+      openclawVersion,
+    };
+  }
+
+  // Persists the host keys the first connection to `target` accepted (as returned by that connection) and returns
+  // the target pinned to them. Targets that are already pinned are returned as they are.
+  #pinHostKeys(job: DeploymentInternal, target: SshTarget, recordedHostKeys: string | null): SshTarget {
+    if (target.knownHosts) return target;
+    if (!recordedHostKeys) {
+      throw new Error(`No SSH host key was recorded for ${target.host}`);
+    }
+    this.#store.recordSshHostKeys(job.id, recordedHostKeys);
+    return { ...target, knownHosts: recordedHostKeys };
+  }
+
+  async #bootstrap(
+    job: DeploymentInternal,
+    secrets: DeploymentSecrets,
+    target: SshTarget,
+  ): Promise<{ tailnetUrl: string | null; gatewayToken: string; openclawVersion: string | null }> {
+    const privateKeyPath = this.#provisionConfig.sshPrivateKeyPath;
+    // A resumed bootstrap may already have onboarded with a token, so keep using it.
+    const gatewayToken = job.gatewayTokenEncrypted
+      ? this.#secretBox.decryptObject<{ gatewayToken: string }>(job.gatewayTokenEncrypted).gatewayToken
+      : generateGatewayToken();
+    if (!job.gatewayTokenEncrypted) {
+      this.#store.updateResourceState(job.id, this.#workerId, {
+        gatewayTokenEncrypted: this.#secretBox.encryptObject({ gatewayToken }),
+      });
+    }
+    const { script, env } = buildDeploymentBootstrap(job.config, secrets, {
+      gatewayToken,
+      sshPort: target.port,
     });
     const tmpScriptPath = path.join(os.tmpdir(), `clawpad-bootstrap-${Date.now()}-${job.id}.sh`);
     fs.writeFileSync(tmpScriptPath, script, { mode: 0o700 });
+    const remotePath = remoteScriptPath(target, "clawpad-bootstrap.sh");
 
     try {
       this.#store.appendEvent(job.id, "deployment.provision.progress", "Copying bootstrap script");
-      await runOrThrow([
-        "scp",
-        ...sshOptions(this.#provisionConfig.sshPrivateKeyPath),
-        tmpScriptPath,
-        `root@${ip}:/root/clawpad-bootstrap.sh`,
-      ]);
+      await copyToRemote(target, tmpScriptPath, remotePath, privateKeyPath);
 
       await this.#heartbeat(job.id);
       await this.#assertNotCanceled(job.id);
 
-      const env: Record<string, string> = {
-        OPENCLAW_GATEWAY_TOKEN: gatewayToken,
-        TAILSCALE_AUTH_KEY: secrets.tailscaleAuthKey,
-        TAILSCALE_HOSTNAME: tailscaleHostname,
-      };
-      if (secrets.minimaxApiKey) env.MINIMAX_API_KEY = secrets.minimaxApiKey;
-      if (secrets.anthropicApiKey) env.ANTHROPIC_API_KEY = secrets.anthropicApiKey;
-      if (secrets.openaiApiKey) env.OPENAI_API_KEY = secrets.openaiApiKey;
-      if (secrets.discordBotToken) env.DISCORD_BOT_TOKEN = secrets.discordBotToken;
-
       const exportPrefix = Object.entries(env)
         .map(([key, value]) => `${key}=${shellEscape(value)}`)
         .join(" ");
 
       this.#store.appendEvent(job.id, "deployment.provision.progress", "Running bootstrap script");
-      const bootstrapRes = await run([
-        "ssh",
-        ...sshOptions(this.#provisionConfig.sshPrivateKeyPath),
-        `root@${ip}`,
-        `${exportPrefix} bash /root/clawpad-bootstrap.sh`,
-      ]);
+      const logs = new DeploymentLogWriter(this.#store, job.id, [gatewayToken, ...Object.values(secrets)]);
+      let failedPhase: BootstrapPhase | null = null;
+      const bootstrapRes = await runRemote(
+        target,
+        asRoot(target, `env ${exportPrefix} bash ${remotePath}`),
+        privateKeyPath,
+        {
+          onLine: (stream, line) => {
+            logs.write(stream, line);
+            const marker = parseBootstrapPhaseMarker(line);
+            if (!marker) return;
+            if (marker.status === "failed") failedPhase = marker.phase;
+            this.#store.recordBootstrapPhase(job.id, this.#workerId, marker.phase, marker.status);
+          },
+        },
+      );
+      logs.flush();
       if (bootstrapRes.code !== 0) {
-        throw new Error(
-          `bootstrap script failed (${bootstrapRes.code}): ${bootstrapRes.stderr || bootstrapRes.stdout}`,
+        // Full output is in the deployment log; only quote the redacted tail here.
+        const phase = failedPhase ? ` in phase ${failedPhase}` : "";
+        throw new BootstrapFailedError(
+          `bootstrap script failed${phase} (${bootstrapRes.code}): ${logs.tail() || "no output"}`,
+          bootstrapRes.code,
+          failedPhase,
         );
       }
 
@@ -450,19 +865,69 @@ export class DeploymentsWorker {
       }
     }
 
-    const tailnetUrl = await detectTailnetUrl(ip, this.#provisionConfig.sshPrivateKeyPath);
+    await this.#verifyGateway(job, secrets, target, gatewayToken);
+
+    const tailnetUrl = publicDomainUrl(job.config) ?? (await detectTailnetUrl(target, privateKeyPath));
     this.#store.updateResourceState(job.id, this.#workerId, {
       tailnetUrl,
     });
+    const openclawVersion = await detectOpenclawVersion(target, privateKeyPath);
 
-    return {
-      serverId: create.server.id,
-      serverName: create.server.name,
-      serverIp: ip,
-      sshKeyId: sshKey.ssh_key.id,
-      tailnetUrl,
+    return { tailnetUrl, gatewayToken, openclawVersion };
+  }
+
+  // A clean bootstrap exit does not prove the gateway serves requests. An unhealthy gateway is a plain
+  // failure (not a resumable bootstrap failure), so the machine is cleaned up.
+  async #verifyGateway(job: DeploymentInternal, secrets: DeploymentSecrets, target: SshTarget, gatewayToken: string) {
+    this.#store.appendEvent(job.id, "deployment.verify.started", "Verifying gateway health");
+    const { report, attempts } = await waitForGatewayHealthy({
+      target,
       gatewayToken,
-    };
+      privateKeyPath: this.#provisionConfig.sshPrivateKeyPath,
+      redact: createSecretRedactor([gatewayToken, ...Object.values(secrets)]),
+      timeoutMs: this.#verifyTimeoutMs,
+      onAttempt: async () => {
+        await this.#heartbeat(job.id);
+        await this.#assertNotCanceled(job.id);
+      },
+    });
+
+    const payload = { attempts, checks: report.checks };
+    if (report.healthy) {
+      this.#store.appendEvent(job.id, "deployment.verify.passed", "Gateway is active and answering", payload);
+      return;
+    }
+
+    this.#store.appendEvent(job.id, "deployment.verify.failed", "Gateway did not become healthy", payload);
+    const failing = report.checks
+      .filter((check) => !check.ok && check.name !== "doctor")
+      .map((check) => `${check.name}: ${check.detail}`)
+      .join("; ");
+    throw new Error(`gateway health check failed after ${attempts} attempts (${failing})`);
+  }
+
+  async #uninstallFromHost(job: DeploymentInternal, secrets: DeploymentSecrets, target: SshTarget) {
+    const privateKeyPath = this.#provisionConfig.sshPrivateKeyPath;
+    const tmpScriptPath = path.join(os.tmpdir(), `clawpad-uninstall-${Date.now()}-${job.id}.sh`);
+    fs.writeFileSync(tmpScriptPath, buildRemoteUninstallScript(), { mode: 0o700 });
+    const remotePath = remoteScriptPath(target, "clawpad-uninstall.sh");
+    try {
+      await copyToRemote(target, tmpScriptPath, remotePath, privateKeyPath);
+      const logs = new DeploymentLogWriter(this.#store, job.id, Object.values(secrets));
+      const res = await runRemote(target, asRoot(target, `bash ${remotePath}`), privateKeyPath, {
+        onLine: logs.write,
+      });
+      logs.flush();
+      if (res.code !== 0) {
+        throw new Error(`uninstall script failed (${res.code}): ${logs.tail() || "no output"}`);
+      }
+    } finally {
+      try {
+        fs.unlinkSync(tmpScriptPath);
+      } catch {
+        // no-op
+      }
+    }
   }
 
   async #cleanupResources(job: DeploymentInternal, secrets: DeploymentSecrets): Promise<CleanupResult> {
@@ -470,28 +935,41 @@ export class DeploymentsWorker {
     let cleanedServer = false;
     let cleanedSshKey = false;
 
-    if (!secrets.hetznerApiToken) {
+    if (job.provider === "byo") {
+      const { sshHost } = job.resources;
+      const target = deploymentSshTarget(job);
+      if (sshHost && target) {
+        try {
+          await this.#uninstallFromHost(job, secrets, target);
+          cleanedServer = true;
+          this.#store.appendEvent(job.id, "deployment.destroy.progress", "OpenClaw uninstalled from BYO host", {
+            host: sshHost,
+          });
+        } catch (error) {
+          cleanupErrors.push(`uninstall from host: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      return { cleanedServer, cleanedSshKey, cleanupErrors };
+    }
+
+    const provider = createProviderForJob(job, secrets);
+    if (!provider) {
       return {
         cleanedServer: false,
         cleanedSshKey: false,
-        cleanupErrors: ["Missing Hetzner API token for cleanup"],
+        cleanupErrors: [`Missing ${job.provider} API token for cleanup`],
       };
     }
 
-    const client = new HetznerClient(secrets.hetznerApiToken);
     if (job.resources.serverId) {
       try {
-        const deletion = await client.deleteServer(job.resources.serverId);
-        const actionId = deletion.action?.id;
-        if (actionId) {
-          await client.waitForAction(actionId, { timeoutMs: 180_000 });
-        }
+        await provider.deleteServer(job.resources.serverId);
         cleanedServer = true;
-        this.#store.appendEvent(job.id, "deployment.destroy.progress", "Hetzner server deleted", {
+        this.#store.appendEvent(job.id, "deployment.destroy.progress", `${provider.label} server deleted`, {
           serverId: job.resources.serverId,
         });
       } catch (error) {
-        if (isHetznerNotFound(error)) {
+        if (isProviderNotFound(error)) {
           cleanedServer = true;
         } else {
           cleanupErrors.push(`delete server: ${error instanceof Error ? error.message : String(error)}`);
@@ -501,13 +979,13 @@ export class DeploymentsWorker {
 
     if (job.resources.sshKeyId) {
       try {
-        await client.deleteSshKey(job.resources.sshKeyId);
+        await provider.deleteSshKey(job.resources.sshKeyId);
         cleanedSshKey = true;
         this.#store.appendEvent(job.id, "deployment.destroy.progress", "Temporary SSH key deleted", {
           sshKeyId: job.resources.sshKeyId,
         });
       } catch (error) {
-        if (isHetznerNotFound(error)) {
+        if (isProviderNotFound(error)) {
           cleanedSshKey = true;
         } else {
           cleanupErrors.push(`delete ssh key: ${error instanceof Error ? error.message : String(error)}`);
@@ -0,0 +1,142 @@
+const DEFAULT_BASE_URL = "https://api.digitalocean.com/v2";
+
+export type DigitalOceanDroplet = {
+  id: number;
+  name: string;
+  status: "new" | "active" | "off" | "archive" | string;
+  created_at: string;
+  tags?: string[];
+  networks?: {
+    v4?: Array<{ ip_address: string; type: "public" | "private" | string }>;
+    v6?: Array<{ ip_address: string; type: "public" | string }>;
+  };
+};
+
+export type DigitalOceanSshKey = {
+  id: number;
+  name: string;
+  fingerprint: string;
+};
+
+type SshKeysPage = {
+  ssh_keys: DigitalOceanSshKey[];
+  links?: { pages?: { next?: string } };
+};
+
+type DropletsPage = {
+  droplets: DigitalOceanDroplet[];
+  links?: { pages?: { next?: string } };
+};
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class DigitalOceanClient {
+  readonly #token: string;
+  readonly #baseUrl: string;
+
+  constructor(token: string, opts?: { baseUrl?: string }) {
+    if (!token) {
+      throw new Error("Missing DigitalOcean API token");
+    }
+    this.#token = token;
+    this.#baseUrl = String(opts?.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  }
+
+  async #request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const res = await fetch(`${this.#baseUrl}${path}`, {
+      method,
+      headers: {
+        authorization: `Bearer ${this.#token}`,
+        "content-type": "application/json",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const text = await res.text();
+    const data = text ? (JSON.parse(text) as T & { message?: string }) : ({} as T);
+
+    if (!res.ok) {
+      const message = (data as any)?.message || `DigitalOcean API error (${res.status})`;
+      const error = new Error(message);
+      (error as any).statusCode = res.status;
+      (error as any).details = data;
+      throw error;
+    }
+
+    return data;
+  }
+
+  async createSshKey(params: { name: string; public_key: string }) {
+    return await this.#request<{ ssh_key: DigitalOceanSshKey }>("POST", "/account/keys", params);
+  }
+
+  async listSshKeys(): Promise<DigitalOceanSshKey[]> {
+    const keys: DigitalOceanSshKey[] = [];
+    let page = 1;
+    for (;;) {
+      const query = new URLSearchParams({ per_page: "200", page: String(page) });
+      const res = await this.#request<SshKeysPage>("GET", `/account/keys?${query.toString()}`);
+      keys.push(...(res.ssh_keys ?? []));
+      if (!res.links?.pages?.next) break;
+      page += 1;
+    }
+    return keys;
+  }
+
+  async deleteSshKey(id: number) {
+    await this.#request<unknown>("DELETE", `/account/keys/${id}`);
+  }
+
+  async createDroplet(payload: {
+    name: string;
+    region: string;
+    size: string;
+    image: string;
+    ssh_keys: number[];
+    tags?: string[];
+    ipv6?: boolean;
+  }) {
+    return await this.#request<{ droplet: DigitalOceanDroplet }>("POST", "/droplets", payload);
+  }
+
+  async getDroplet(id: number) {
+    return await this.#request<{ droplet: DigitalOceanDroplet }>("GET", `/droplets/${id}`);
+  }
+
+  async deleteDroplet(id: number) {
+    await this.#request<unknown>("DELETE", `/droplets/${id}`);
+  }
+
+  async listDropletsByTag(tag: string): Promise<DigitalOceanDroplet[]> {
+    const droplets: DigitalOceanDroplet[] = [];
+    let page = 1;
+    // DigitalOcean paginates with `links.pages.next`; stop as soon as it is absent.
+    for (;;) {
+      const query = new URLSearchParams({ tag_name: tag, per_page: "200", page: String(page) });
+      const res = await this.#request<DropletsPage>("GET", `/droplets?${query.toString()}`);
+      droplets.push(...(res.droplets ?? []));
+      if (!res.links?.pages?.next) break;
+      page += 1;
+    }
+    return droplets;
+  }
+
+  async waitForDropletActive(id: number, opts?: { timeoutMs?: number; intervalMs?: number }) {
+    const timeoutMs = opts?.timeoutMs ?? 180_000;
+    const intervalMs = opts?.intervalMs ?? 2_500;
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const { droplet } = await this.getDroplet(id);
+      const hasPublicIp = (droplet.networks?.v4 ?? []).some((entry) => entry.type === "public");
+      if (droplet.status === "active" && hasPublicIp) {
+        return droplet;
+      }
+      await sleep(intervalMs);
+    }
+
+    throw new Error(`Timeout waiting for DigitalOcean droplet ${id} to become active`);
+  }
+}
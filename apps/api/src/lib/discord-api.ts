@@ -0,0 +1,203 @@
+export const DISCORD_API_BASE_URL = "https://discord.com/api/v10";
+
+export type DiscordResponse<T> = { ok: true; data: T } | { ok: false; status: number; data: unknown };
+
+export async function discordRequest<T>(
+  token: string,
+  path: string,
+  baseUrl: string = DISCORD_API_BASE_URL,
+): Promise<DiscordResponse<T>> {
+  const res = await fetch(`${baseUrl}${path}`, {
+    headers: {
+      authorization: `Bot ${token}`,
+    },
+  });
+
+  const text = await res.text();
+  let data: unknown = null;
+  if (text) {
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = text;
+    }
+  }
+
+  if (!res.ok) {
+    return { ok: false, status: res.status, data };
+  }
+
+  return { ok: true, data: data as T };
+}
+
+// Permission bits the bot needs in every allowlisted channel.
+const PERMISSIONS = {
+  administrator: 1n << 3n,
+  viewChannel: 1n << 10n,
+  sendMessages: 1n << 11n,
+  readMessageHistory: 1n << 16n,
+};
+
+// Application flags for the Message Content privileged intent (enabled, or enabled while unverified).
+const MESSAGE_CONTENT_FLAGS = (1 << 18) | (1 << 19);
+
+type DiscordRole = { id: string; permissions: string };
+type DiscordOverwrite = { id: string; type: 0 | 1; allow: string; deny: string };
+
+// Discord's permission algorithm: guild-level permissions from @everyone and the member's roles, then the
+// channel's @everyone, role and member overwrites in that order. Owners and administrators get everything.
+export function effectiveChannelPermissions(params: {
+  guildId: string;
+  ownerId: string;
+  roles: DiscordRole[];
+  memberId: string;
+  memberRoleIds: string[];
+  overwrites: DiscordOverwrite[];
+}): bigint {
+  const all = ~0n;
+  if (params.memberId === params.ownerId) return all;
+
+  const rolePermissions = new Map(params.roles.map((role) => [role.id, BigInt(role.permissions)]));
+  let permissions = rolePermissions.get(params.guildId) ?? 0n;
+  for (const roleId of params.memberRoleIds) {
+    permissions |= rolePermissions.get(roleId) ?? 0n;
+  }
+  if (permissions & PERMISSIONS.administrator) return all;
+
+  const apply = (allow: bigint, deny: bigint) => {
+    permissions = (permissions & ~deny) | allow;
+  };
+  const everyone = params.overwrites.find((overwrite) => overwrite.id === params.guildId);
+  if (everyone) apply(BigInt(everyone.allow), BigInt(everyone.deny));
+
+  let roleAllow = 0n;
+  let roleDeny = 0n;
+  for (const overwrite of params.overwrites) {
+    if (overwrite.type === 0 && params.memberRoleIds.includes(overwrite.id)) {
+      roleAllow |= BigInt(overwrite.allow);
+      roleDeny |= BigInt(overwrite.deny);
+    }
+  }
+  apply(roleAllow, roleDeny);
+
+  const member = params.overwrites.find((overwrite) => overwrite.type === 1 && overwrite.id === params.memberId);
+  if (member) apply(BigInt(member.allow), BigInt(member.deny));
+  return permissions;
+}
+
+export type DiscordPreflightCheckName =
+  | "messageContentIntent"
+  | "guildMember"
+  | "viewChannel"
+  | "sendMessages"
+  | "readMessageHistory";
+
+export type DiscordPreflightCheck = { name: DiscordPreflightCheckName; ok: boolean; detail?: string };
+
+export type DiscordChannelPreflight = {
+  guildId: string;
+  channelId: string;
+  channelName: string | null;
+  ok: boolean;
+  checks: DiscordPreflightCheck[];
+};
+
+export type DiscordPreflightReport = {
+  ok: boolean;
+  bot: { id: string; username: string };
+  messageContentIntent: boolean;
+  channels: DiscordChannelPreflight[];
+};
+
+function discordError(message: string, res: { status: number; data: unknown }): Error {
+  const error = new Error(message);
+  (error as any).statusCode = res.status;
+  (error as any).details = res.data;
+  return error;
+}
+
+// Rate limits and outages say nothing about the bot's setup, so they fail the preflight as a whole instead of
+// being reported as a failed check.
+function assertAnswered(res: DiscordResponse<unknown>) {
+  if (!res.ok && (res.status === 429 || res.status >= 500)) {
+    throw discordError(`Discord API error (${res.status})`, res);
+  }
+}
+
+// Checks, for every allowlisted channel, what makes a bot look silent: the Message Content intent, membership in
+// the guild and View Channel / Send Messages / Read Message History there. Throws with `statusCode` when the
+// token is rejected or Discord is unavailable.
+export async function runDiscordPreflight(
+  token: string,
+  guilds: Array<{ guildId: string; channelIds: string[] }>,
+  opts?: { baseUrl?: string },
+): Promise<DiscordPreflightReport> {
+  const get = async <T>(path: string) => {
+    const res = await discordRequest<T>(token, path, opts?.baseUrl);
+    assertAnswered(res);
+    return res;
+  };
+
+  const me = await get<{ id: string; username: string }>("/users/@me");
+  if (!me.ok) {
+    throw discordError("Discord token invalid", me);
+  }
+  const application = await get<{ flags?: number }>("/applications/@me");
+  const messageContentIntent = application.ok && ((application.data.flags ?? 0) & MESSAGE_CONTENT_FLAGS) !== 0;
+  const intentCheck: DiscordPreflightCheck = messageContentIntent
+    ? { name: "messageContentIntent", ok: true }
+    : {
+        name: "messageContentIntent",
+        ok: false,
+        detail: "Enable the Message Content intent for the bot in the Discord developer portal",
+      };
+
+  const channels: DiscordChannelPreflight[] = [];
+  for (const { guildId, channelIds } of guilds) {
+    const guild = await get<{ owner_id: string; roles: DiscordRole[] }>(`/guilds/${guildId}`);
+    const member = guild.ok ? await get<{ roles: string[] }>(`/guilds/${guildId}/members/${me.data.id}`) : guild;
+
+    for (const channelId of channelIds) {
+      const checks: DiscordPreflightCheck[] = [intentCheck];
+      let channelName: string | null = null;
+      const permissionChecks = (granted: bigint | null, detail?: string) =>
+        (["viewChannel", "sendMessages", "readMessageHistory"] as const).map((name): DiscordPreflightCheck => {
+          const ok = granted !== null && (granted & PERMISSIONS[name]) !== 0n;
+          return ok ? { name, ok } : { name, ok, detail: detail ?? "Missing in this channel for the bot's roles" };
+        });
+
+      if (!guild.ok || !member.ok) {
+        checks.push({ name: "guildMember", ok: false, detail: "The bot has not been added to this guild" });
+        checks.push(...permissionChecks(null, "Not checked: the bot is not in the guild"));
+      } else {
+        checks.push({ name: "guildMember", ok: true });
+        const channel = await get<{ name?: string; guild_id?: string; permission_overwrites?: DiscordOverwrite[] }>(
+          `/channels/${channelId}`,
+        );
+        if (!channel.ok || channel.data.guild_id !== guildId) {
+          checks.push(...permissionChecks(null, "Channel not found in this guild, or not visible to the bot"));
+        } else {
+          channelName = channel.data.name ?? null;
+          const granted = effectiveChannelPermissions({
+            guildId,
+            ownerId: guild.data.owner_id,
+            roles: guild.data.roles,
+            memberId: me.data.id,
+            memberRoleIds: member.data.roles,
+            overwrites: channel.data.permission_overwrites ?? [],
+          });
+          checks.push(...permissionChecks(granted));
+        }
+      }
+
+      channels.push({ guildId, channelId, channelName, ok: checks.every((check) => check.ok), checks });
+    }
+  }
+
+  return {
+    ok: channels.every((channel) => channel.ok),
+    bot: { id: me.data.id, username: me.data.username },
+    messageContentIntent,
+    channels,
+  };
+}
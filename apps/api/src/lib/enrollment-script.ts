@@ -0,0 +1,113 @@
+import { GATEWAY_PORT } from "./deployment-bootstrap.js";
+import { GATEWAY_PROBE_PATH } from "./gateway-health.js";
+import { shellEscape } from "./ssh.js";
+
+// Sets TAILNET_URL from `tailscale status`, waiting up to 30s for the node to get its name.
+const TAILNET_URL_DETECTION = `TAILNET_URL=""
+for attempt in $(seq 1 12); do
+  TAILNET_URL="$(tailscale status --json 2>/dev/null | node -e '
+let raw = "";
+process.stdin.on("data", (chunk) => (raw += chunk)).on("end", () => {
+  try {
+    const self = JSON.parse(raw).Self || {};
+    const host = String(self.DNSName || "").replace(/\\.$/, "") || (self.TailscaleIPs || [])[0];
+    if (host) process.stdout.write("https://" + host + "/");
+  } catch {}
+});
+' || true)"
+  if [ -n "$TAILNET_URL" ]; then
+    break
+  fi
+  sleep 2.5
+done`;
+
+// Wraps the regular bootstrap script into a self-contained installer for machines we cannot SSH into.
+// The customer pipes it to `sudo bash`; when it finishes it reports the outcome (and tailnet URL) to the
+// control plane using a callback secret that is only valid for this enrollment.
+//
+// IMPORTANT: the returned script embeds this deployment's secrets. It must only be served once, over the
+// single-use enrollment link.
+export function buildEnrollmentInstallScript(params: {
+  deploymentId: string;
+  bootstrapScript: string;
+  env: Record<string, string>;
+  callbackUrl: string;
+  callbackSecret: string;
+  // Reported instead of the tailnet URL (public-domain deployments don't join a tailnet).
+  publicUrl?: string | null;
+}): string {
+  const exports = Object.entries(params.env)
+    .map(([key, value]) => `export ${key}=${shellEscape(value)}`)
+    .join("\n");
+
+  return `#!/usr/bin/env bash
+# OpenClaw installer for claw-launchpad deployment ${params.deploymentId}.
+set -uo pipefail
+
+if [ "$(id -u)" -ne 0 ]; then
+  echo "This installer must run as root (pipe it to 'sudo bash')." >&2
+  exit 1
+fi
+
+${exports}
+
+CLAWPAD_CALLBACK_URL=${shellEscape(params.callbackUrl)}
+CLAWPAD_CALLBACK_SECRET=${shellEscape(params.callbackSecret)}
+
+clawpad_report() {
+  curl -fsS --retry 5 --retry-connrefused -X POST "$CLAWPAD_CALLBACK_URL" \\
+    -H "authorization: Bearer $CLAWPAD_CALLBACK_SECRET" \\
+    -H "content-type: application/json" \\
+    --data "$1" >/dev/null
+}
+
+BOOTSTRAP_PATH="$(mktemp /tmp/clawpad-bootstrap.XXXXXX)"
+trap 'rm -f "$BOOTSTRAP_PATH"' EXIT
+cat > "$BOOTSTRAP_PATH" <<'CLAWPAD_BOOTSTRAP'
+${params.bootstrapScript.trimEnd()}
+CLAWPAD_BOOTSTRAP
+
+bash "$BOOTSTRAP_PATH"
+rc=$?
+if [ "$rc" -ne 0 ]; then
+  clawpad_report "{\\"ok\\":false,\\"error\\":\\"bootstrap script exited with code $rc\\"}" || true
+  echo "OpenClaw install failed (exit $rc); the control plane has been notified." >&2
+  exit "$rc"
+fi
+
+# Same verification the worker does over SSH: the service is active, the gateway takes our token and it
+# rejects a made-up one.
+gateway_probe() {
+  curl -sS -o /dev/null --max-time 10 -w '%{http_code}' -X POST -H 'content-type: application/json' --data '{}' \\
+    -H "Authorization: Bearer $1" http://127.0.0.1:${GATEWAY_PORT}${GATEWAY_PROBE_PATH} 2>/dev/null || true
+}
+GATEWAY_OK=""
+for attempt in $(seq 1 24); do
+  if systemctl is-active --quiet openclaw-gateway; then
+    code="$(gateway_probe "$OPENCLAW_GATEWAY_TOKEN")"
+    wrong_code="$(gateway_probe "clawpad-probe-$(date +%s%N)")"
+    case "$code:$wrong_code" in
+      401:*|403:*|5??:*|000:*|:*) ;;
+      *:401|*:403) GATEWAY_OK=1; break ;;
+    esac
+  fi
+  sleep 5
+done
+if [ -z "$GATEWAY_OK" ]; then
+  clawpad_report '{"ok":false,"error":"gateway did not become healthy"}' || true
+  echo "OpenClaw installed, but the gateway did not become healthy; the control plane has been notified." >&2
+  exit 1
+fi
+
+# Node is installed by the bootstrap, so use it to read tailscale's JSON and to encode the report.
+${params.publicUrl ? `TAILNET_URL=${shellEscape(params.publicUrl)}` : TAILNET_URL_DETECTION}
+
+PAYLOAD="$(node -e 'process.stdout.write(JSON.stringify({ ok: true, tailnetUrl: process.argv[1] || null }))' "$TAILNET_URL")"
+if ! clawpad_report "$PAYLOAD"; then
+  echo "OpenClaw installed, but reporting back to the control plane failed." >&2
+  exit 1
+fi
+
+echo "OpenClaw installed; deployment ${params.deploymentId} is now running."
+`;
+}
@@ -0,0 +1,175 @@
+import crypto from "node:crypto";
+import { GATEWAY_PORT } from "./deployment-bootstrap.js";
+import { asRoot, runRemote, shellEscape, SshTarget } from "./ssh.js";
+
+export type GatewayCheckName = "ssh" | "service" | "probe" | "doctor" | "disk" | "memory";
+
+export type GatewayCheckResult = {
+  name: GatewayCheckName;
+  ok: boolean;
+  detail: string;
+};
+
+export type GatewayHealthReport = {
+  // Service and probe only; `openclaw doctor` findings are advisory.
+  healthy: boolean;
+  checks: GatewayCheckResult[];
+  checkedAt: string;
+};
+
+const DETAIL_MAX_LENGTH = 500;
+
+function summarize(output: string, redact: (text: string) => string): string {
+  const trimmed = redact(output.trim());
+  return trimmed.length > DETAIL_MAX_LENGTH ? `…${trimmed.slice(-DETAIL_MAX_LENGTH)}` : trimmed;
+}
+
+// ssh exits with 255 when it could not connect or authenticate; anything else came from the remote command.
+const SSH_ERROR_EXIT_CODE = 255;
+
+async function checkService(target: SshTarget, privateKeyPath?: string): Promise<GatewayCheckResult> {
+  const res = await runRemote(target, "systemctl is-active openclaw-gateway", privateKeyPath);
+  if (res.code === SSH_ERROR_EXIT_CODE) {
+    return { name: "ssh", ok: false, detail: res.stderr.trim() || `could not connect to ${target.host}:${target.port}` };
+  }
+  const state = res.stdout.trim() || res.stderr.trim() || "unknown";
+  return { name: "service", ok: res.code === 0 && state === "active", detail: state };
+}
+
+// Gateway endpoint that always requires the gateway token. The probe sends an empty call, so an authenticated
+// request gets a 4xx about the body rather than a 2xx; anything but 401/403 (or a 5xx) means the token was taken.
+export const GATEWAY_PROBE_PATH = "/tools/invoke";
+
+function probeRequest(token: string): string {
+  return [
+    "curl -sS -o /dev/null --max-time 10",
+    "-w '%{http_code}\\n'",
+    "-X POST -H 'content-type: application/json' --data '{}'",
+    "-H",
+    shellEscape(`Authorization: Bearer ${token}`),
+    `http://127.0.0.1:${GATEWAY_PORT}${GATEWAY_PROBE_PATH}`,
+  ].join(" ");
+}
+
+function isRejected(status: number): boolean {
+  return status === 401 || status === 403;
+}
+
+// Calls the loopback gateway with our token and with a random one. Passing needs both answers: ours accepted and
+// the random one rejected, so a gateway that stopped checking tokens fails too.
+async function probeGateway(
+  target: SshTarget,
+  gatewayToken: string,
+  privateKeyPath?: string,
+): Promise<GatewayCheckResult> {
+  const wrongToken = crypto.randomBytes(16).toString("hex");
+  const res = await runRemote(target, `${probeRequest(gatewayToken)}; ${probeRequest(wrongToken)}`, privateKeyPath);
+  const [status, wrongStatus] = res.stdout
+    .trim()
+    .split(/\s+/)
+    .map((value) => Number.parseInt(value, 10));
+  if (!Number.isFinite(status) || status === 0 || !Number.isFinite(wrongStatus) || wrongStatus === 0) {
+    return { name: "probe", ok: false, detail: res.stderr.trim() || `curl exited with ${res.code}` };
+  }
+  if (isRejected(status) || status >= 500) {
+    return { name: "probe", ok: false, detail: `HTTP ${status}` };
+  }
+  if (!isRejected(wrongStatus)) {
+    return { name: "probe", ok: false, detail: `HTTP ${wrongStatus} for an invalid token; the gateway does not check it` };
+  }
+  return { name: "probe", ok: true, detail: `HTTP ${status}` };
+}
+
+async function runDoctor(
+  target: SshTarget,
+  privateKeyPath: string | undefined,
+  redact: (text: string) => string,
+): Promise<GatewayCheckResult> {
+  const res = await runRemote(
+    target,
+    asRoot(target, "timeout 120 sudo -u openclaw -H env HOME=/home/openclaw openclaw doctor </dev/null"),
+    privateKeyPath,
+  );
+  return {
+    name: "doctor",
+    ok: res.code === 0,
+    detail: summarize(`${res.stdout}\n${res.stderr}`, redact) || `exited with ${res.code}`,
+  };
+}
+
+export async function checkGatewayHealth(params: {
+  target: SshTarget;
+  gatewayToken: string;
+  privateKeyPath?: string;
+}): Promise<GatewayHealthReport> {
+  const service = await checkService(params.target, params.privateKeyPath);
+  const checks =
+    service.name === "ssh"
+      ? [service]
+      : [service, await probeGateway(params.target, params.gatewayToken, params.privateKeyPath)];
+  return {
+    healthy: checks.every((check) => check.ok),
+    checks,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+const DISK_USED_MAX_PERCENT = 90;
+const MEMORY_AVAILABLE_MIN_PERCENT = 5;
+
+// Root filesystem usage and available memory, from `df` and `free` on the host.
+export async function checkHostResources(target: SshTarget, privateKeyPath?: string): Promise<GatewayCheckResult[]> {
+  const res = await runRemote(
+    target,
+    `df -P / | awk 'NR==2 {print $5}'; free -m | awk '/^Mem:/ {print $2, $7}'`,
+    privateKeyPath,
+  );
+  const [diskLine = "", memoryLine = ""] = res.stdout.trim().split(/\r?\n/);
+  const diskUsed = Number.parseInt(diskLine, 10);
+  const [memoryTotal, memoryAvailable] = memoryLine.trim().split(/\s+/).map((value) => Number.parseInt(value, 10));
+
+  const disk: GatewayCheckResult = Number.isFinite(diskUsed)
+    ? { name: "disk", ok: diskUsed < DISK_USED_MAX_PERCENT, detail: `${diskUsed}% used` }
+    : { name: "disk", ok: false, detail: res.stderr.trim() || "could not read disk usage" };
+  const memory: GatewayCheckResult =
+    Number.isFinite(memoryTotal) && Number.isFinite(memoryAvailable) && memoryTotal > 0
+      ? {
+          name: "memory",
+          ok: (memoryAvailable / memoryTotal) * 100 >= MEMORY_AVAILABLE_MIN_PERCENT,
+          detail: `${memoryAvailable} of ${memoryTotal} MiB available`,
+        }
+      : { name: "memory", ok: false, detail: res.stderr.trim() || "could not read memory usage" };
+  return [disk, memory];
+}
+
+// Polls service + probe until both pass or the deadline hits, then runs `openclaw doctor` once for the record
+// (unless `doctor` is false).
+export async function waitForGatewayHealthy(params: {
+  target: SshTarget;
+  gatewayToken: string;
+  privateKeyPath?: string;
+  redact?: (text: string) => string;
+  timeoutMs?: number;
+  intervalMs?: number;
+  doctor?: boolean;
+  onAttempt?: (report: GatewayHealthReport, attempt: number) => void | Promise<void>;
+}): Promise<{ report: GatewayHealthReport; attempts: number }> {
+  const deadline = Date.now() + (params.timeoutMs ?? 120_000);
+  const intervalMs = params.intervalMs ?? 5_000;
+
+  let attempts = 0;
+  let report: GatewayHealthReport;
+  for (;;) {
+    attempts += 1;
+    report = await checkGatewayHealth(params);
+    await params.onAttempt?.(report, attempts);
+    if (report.healthy || Date.now() + intervalMs >= deadline) break;
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+
+  if (params.doctor === false) {
+    return { report, attempts };
+  }
+  const doctor = await runDoctor(params.target, params.privateKeyPath, params.redact ?? ((text) => text));
+  return { report: { ...report, checks: [...report.checks, doctor] }, attempts };
+}
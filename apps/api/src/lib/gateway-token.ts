@@ -0,0 +1,73 @@
+import crypto from "node:crypto";
+import { GatewayHealthReport, waitForGatewayHealthy } from "./gateway-health.js";
+import { asRoot, runRemote, shellEscape, SshTarget } from "./ssh.js";
+
+const GATEWAY_ENV_PATH = "/etc/openclaw/openclaw.env";
+
+export function generateGatewayToken(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+// Onboarding saved the token in two places: OPENCLAW_GATEWAY_TOKEN in the env file and `gateway.auth.token` in
+// the OpenClaw config (from `--gateway-token`). Both are rewritten, the env line appended if missing, and the
+// service restarted.
+async function writeGatewayToken(target: SshTarget, token: string, privateKeyPath?: string) {
+  // Tokens are generated here as hex; anything else could break out of the sed expression.
+  if (!/^[A-Za-z0-9_-]+$/.test(token)) {
+    throw new Error("Gateway token contains unsupported characters");
+  }
+  const line = `OPENCLAW_GATEWAY_TOKEN=${token}`;
+  const script = [
+    "set -e",
+    `test -f ${GATEWAY_ENV_PATH}`,
+    `if grep -q '^OPENCLAW_GATEWAY_TOKEN=' ${GATEWAY_ENV_PATH}; then` +
+      ` sed -i 's/^OPENCLAW_GATEWAY_TOKEN=.*/${line}/' ${GATEWAY_ENV_PATH};` +
+      ` else echo '${line}' >> ${GATEWAY_ENV_PATH}; fi`,
+    `sudo -u openclaw -H env HOME=/home/openclaw openclaw config set gateway.auth.token '"${token}"' --json`,
+    "systemctl restart openclaw-gateway",
+  ].join("\n");
+  const res = await runRemote(target, asRoot(target, `sh -c ${shellEscape(script)}`), privateKeyPath);
+  if (res.code !== 0) {
+    throw new Error(`failed to update the gateway token on ${target.host}: ${res.stderr.trim() || `exit ${res.code}`}`);
+  }
+}
+
+function describeFailingChecks(report: GatewayHealthReport): string {
+  return report.checks
+    .filter((check) => !check.ok)
+    .map((check) => `${check.name}: ${check.detail}`)
+    .join("; ");
+}
+
+// Switches the gateway to `nextToken` and waits until it accepts it. When it doesn't, the previous token is
+// written back so the deployment keeps working with the token the store still holds.
+export async function rotateGatewayToken(params: {
+  target: SshTarget;
+  currentToken: string;
+  nextToken: string;
+  privateKeyPath?: string;
+  timeoutMs?: number;
+  intervalMs?: number;
+}): Promise<{ report: GatewayHealthReport; attempts: number }> {
+  await writeGatewayToken(params.target, params.nextToken, params.privateKeyPath);
+  const result = await waitForGatewayHealthy({
+    target: params.target,
+    gatewayToken: params.nextToken,
+    privateKeyPath: params.privateKeyPath,
+    timeoutMs: params.timeoutMs ?? 60_000,
+    intervalMs: params.intervalMs,
+    doctor: false,
+  });
+  if (result.report.healthy) {
+    return result;
+  }
+
+  const failing = describeFailingChecks(result.report);
+  try {
+    await writeGatewayToken(params.target, params.currentToken, params.privateKeyPath);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`gateway did not accept the new token (${failing}); restoring the previous token failed: ${message}`);
+  }
+  throw new Error(`gateway did not accept the new token (${failing}); the previous token was restored`);
+}
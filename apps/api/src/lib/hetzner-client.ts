@@ -5,6 +5,7 @@ export type HetznerServer = {
   name: string;
   status: string;
   created: string;
+  labels?: Record<string, string>;
   public_net?: {
     ipv4?: { ip?: string | null };
     ipv6?: { ip?: string | null };
@@ -62,6 +63,21 @@ export class HetznerClient {
     return await this.#request<{ ssh_key: { id: number; name: string } }>("POST", "/ssh_keys", params);
   }
 
+  async listSshKeys() {
+    const keys: Array<{ id: number; name: string; created: string }> = [];
+    let page: number | null = 1;
+    while (page) {
+      const query = new URLSearchParams({ per_page: "50", page: String(page) });
+      const res: {
+        ssh_keys: Array<{ id: number; name: string; created: string }>;
+        meta?: { pagination?: { next_page?: number | null } };
+      } = await this.#request("GET", `/ssh_keys?${query.toString()}`);
+      keys.push(...(res.ssh_keys ?? []));
+      page = res.meta?.pagination?.next_page ?? null;
+    }
+    return keys;
+  }
+
   async deleteSshKey(id: number) {
     return await this.#request<{ action?: HetznerAction }>("DELETE", `/ssh_keys/${id}`);
   }
@@ -74,6 +90,24 @@ export class HetznerClient {
     return await this.#request<{ server: HetznerServer }>("GET", `/servers/${id}`);
   }
 
+  async listServers(params: { labelSelector?: string } = {}) {
+    const servers: HetznerServer[] = [];
+    let page: number | null = 1;
+    while (page) {
+      const query = new URLSearchParams({ per_page: "50", page: String(page) });
+      if (params.labelSelector) {
+        query.set("label_selector", params.labelSelector);
+      }
+      const res: {
+        servers: HetznerServer[];
+        meta?: { pagination?: { next_page?: number | null } };
+      } = await this.#request("GET", `/servers?${query.toString()}`);
+      servers.push(...(res.servers ?? []));
+      page = res.meta?.pagination?.next_page ?? null;
+    }
+    return servers;
+  }
+
   async deleteServer(id: number) {
     return await this.#request<{ action?: HetznerAction }>("DELETE", `/servers/${id}`);
   }
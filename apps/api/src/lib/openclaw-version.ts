@@ -0,0 +1,21 @@
+import { runRemote, SshTarget } from "./ssh.js";
+
+// What `npm install -g openclaw@<version>` accepts here: an exact version or the `latest` dist-tag. Kept
+// strict because the value ends up in remote scripts.
+export const OPENCLAW_VERSION_PATTERN = /^(?:latest|\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?)$/;
+
+export function isOpenclawVersion(value: string): boolean {
+  return OPENCLAW_VERSION_PATTERN.test(value);
+}
+
+export function parseOpenclawVersionOutput(output: string): string | null {
+  const match = /\b(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?)\b/.exec(output);
+  return match ? match[1] : null;
+}
+
+// The version of the installed `openclaw` CLI, or null when it can't be determined.
+export async function detectOpenclawVersion(target: SshTarget, privateKeyPath?: string): Promise<string | null> {
+  const res = await runRemote(target, "openclaw --version", privateKeyPath);
+  if (res.code !== 0) return null;
+  return parseOpenclawVersionOutput(res.stdout);
+}
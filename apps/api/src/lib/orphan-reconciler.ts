@@ -0,0 +1,230 @@
+import { SecretBox } from "./crypto.js";
+import {
+  CLOUD_PROVIDER_NAMES,
+  CloudProvider,
+  CloudProviderName,
+  CloudServer,
+  createCloudProvider,
+  isProviderNotFound,
+  providerAccountFingerprint,
+} from "./cloud-provider.js";
+import {
+  CloudResourceOwner,
+  DeploymentSecrets,
+  DeploymentsStore,
+  OrphanCandidate,
+  OrphanedResource,
+} from "./deployments-store.js";
+import { MANAGED_SERVER_LABELS, providerApiToken, WORKER_SSH_KEY_NAME_PATTERN } from "./deployments-worker.js";
+
+export type OrphanScanAccount = {
+  provider: CloudProviderName;
+  account: string;
+  servers: number;
+  sshKeys: number;
+  orphans: number;
+  destroyed: number;
+  error?: string;
+};
+
+export type OrphanScanReport = {
+  scannedAt: string;
+  destroyEnabled: boolean;
+  accounts: OrphanScanAccount[];
+  orphans: OrphanedResource[];
+};
+
+// A deployment that is provisioning (or running any task) may have created a resource it hasn't recorded yet.
+function isInFlight(owner: CloudResourceOwner): boolean {
+  return owner.status === "pending" || owner.status === "provisioning" || owner.activeTask !== null;
+}
+
+function findOrphans(
+  owners: CloudResourceOwner[],
+  servers: CloudServer[],
+  sshKeys: Array<{ id: number; name: string }>,
+): OrphanCandidate[] {
+  const orphans: OrphanCandidate[] = [];
+  const ownersById = new Map(owners.map((owner) => [owner.id, owner]));
+  const referencedServers = new Set(owners.map((owner) => owner.serverId).filter((id) => id !== null));
+  const referencedKeys = new Set(owners.map((owner) => owner.sshKeyId).filter((id) => id !== null));
+
+  for (const server of servers) {
+    const deploymentId = server.labels.deployment_id;
+    // Servers created by the CLI have no deployment_id and aren't tracked by the control plane.
+    if (!deploymentId || referencedServers.has(server.id)) continue;
+    const owner = ownersById.get(deploymentId);
+    if (owner && isInFlight(owner)) continue;
+    orphans.push({
+      kind: "server",
+      resourceId: server.id,
+      name: server.name,
+      deploymentId,
+      reason: owner ? "deployment_released" : "deployment_missing",
+    });
+  }
+
+  for (const key of sshKeys) {
+    const match = WORKER_SSH_KEY_NAME_PATTERN.exec(key.name);
+    if (!match || referencedKeys.has(key.id)) continue;
+    const matching = owners.filter((owner) => owner.id.startsWith(match[1]));
+    if (matching.some(isInFlight)) continue;
+    orphans.push({
+      kind: "ssh_key",
+      resourceId: key.id,
+      name: key.name,
+      deploymentId: matching.length === 1 ? matching[0].id : null,
+      reason: matching.length > 0 ? "deployment_released" : "deployment_missing",
+    });
+  }
+  return orphans;
+}
+
+// Periodically lists the servers and worker SSH keys in every provider account the control plane knows a token
+// for (tokens of existing deployments plus `extraTokens`) and records the ones no deployment row points at.
+// With `destroy` enabled, orphans still present after `graceMs` are deleted.
+export class OrphanReconciler {
+  readonly #store: DeploymentsStore;
+  readonly #secretBox: SecretBox;
+  readonly #intervalMs: number;
+  readonly #graceMs: number;
+  readonly #destroy: boolean;
+  readonly #extraTokens: Partial<Record<CloudProviderName, string[]>>;
+  readonly #createProvider: (name: CloudProviderName, token: string) => CloudProvider;
+  #timer: NodeJS.Timeout | null = null;
+  #scan: Promise<OrphanScanReport> | null = null;
+
+  constructor(params: {
+    store: DeploymentsStore;
+    secretBox: SecretBox;
+    intervalMs: number;
+    graceMs: number;
+    destroy: boolean;
+    extraTokens?: Partial<Record<CloudProviderName, string[]>>;
+    createProvider?: (name: CloudProviderName, token: string) => CloudProvider;
+  }) {
+    this.#store = params.store;
+    this.#secretBox = params.secretBox;
+    this.#intervalMs = params.intervalMs;
+    this.#graceMs = params.graceMs;
+    this.#destroy = params.destroy;
+    this.#extraTokens = params.extraTokens ?? {};
+    this.#createProvider = params.createProvider ?? ((name, token) => createCloudProvider(name, token));
+  }
+
+  start() {
+    if (this.#timer) return;
+    this.#timer = setInterval(() => {
+      void this.tick();
+    }, this.#intervalMs);
+    this.#timer.unref();
+    void this.tick();
+  }
+
+  stop() {
+    if (!this.#timer) return;
+    clearInterval(this.#timer);
+    this.#timer = null;
+  }
+
+  async tick() {
+    try {
+      await this.reconcile();
+    } catch (error) {
+      console.error("Orphan reconciliation failed", error);
+    }
+  }
+
+  // Concurrent callers share the scan that is already running.
+  reconcile(): Promise<OrphanScanReport> {
+    if (!this.#scan) {
+      this.#scan = this.#reconcile().finally(() => {
+        this.#scan = null;
+      });
+    }
+    return this.#scan;
+  }
+
+  async #reconcile(): Promise<OrphanScanReport> {
+    const scannedAt = new Date().toISOString();
+    const accounts: OrphanScanAccount[] = [];
+    const orphans: OrphanedResource[] = [];
+    for (const { provider, token } of this.#collectTokens()) {
+      const account = providerAccountFingerprint(token);
+      const summary: OrphanScanAccount = { provider, account, servers: 0, sshKeys: 0, orphans: 0, destroyed: 0 };
+      accounts.push(summary);
+      try {
+        const remaining = await this.#scanAccount(this.#createProvider(provider, token), account, summary);
+        summary.orphans = remaining.length;
+        orphans.push(...remaining);
+      } catch (error) {
+        summary.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+    return { scannedAt, destroyEnabled: this.#destroy, accounts, orphans };
+  }
+
+  #collectTokens(): Array<{ provider: CloudProviderName; token: string }> {
+    const seen = new Set<string>();
+    const tokens: Array<{ provider: CloudProviderName; token: string }> = [];
+    const add = (provider: CloudProviderName, token: string | undefined) => {
+      if (!token || seen.has(`${provider}:${token}`)) return;
+      seen.add(`${provider}:${token}`);
+      tokens.push({ provider, token });
+    };
+
+    for (const provider of CLOUD_PROVIDER_NAMES) {
+      for (const token of this.#extraTokens[provider] ?? []) add(provider, token);
+    }
+    for (const row of this.#store.listCloudSecretsEncrypted()) {
+      try {
+        const secrets = this.#secretBox.decryptObject<DeploymentSecrets>(row.secretsEncrypted);
+        add(row.provider, providerApiToken(row.provider, secrets));
+      } catch {
+        // Rows encrypted with a different key can't contribute a token.
+      }
+    }
+    return tokens;
+  }
+
+  async #scanAccount(provider: CloudProvider, account: string, summary: OrphanScanAccount): Promise<OrphanedResource[]> {
+    const servers = await provider.listServersByLabel({ ...MANAGED_SERVER_LABELS });
+    const sshKeys = await provider.listSshKeys();
+    summary.servers = servers.length;
+    summary.sshKeys = sshKeys.filter((key) => WORKER_SSH_KEY_NAME_PATTERN.test(key.name)).length;
+
+    // Read deployment rows after listing, so a resource recorded while the provider was queried isn't flagged.
+    const found = findOrphans(this.#store.listCloudResourceOwners(provider.name), servers, sshKeys);
+    const current = this.#store.recordOrphanScan(provider.name, account, found);
+    if (!this.#destroy) return current;
+
+    const dueBefore = Date.now() - this.#graceMs;
+    const remaining: OrphanedResource[] = [];
+    // Servers first: a key can only go once nothing is using it.
+    const due = [...current].sort((a, b) => (a.kind === b.kind ? 0 : a.kind === "server" ? -1 : 1));
+    for (const orphan of due) {
+      if (Date.parse(orphan.firstSeenAt) > dueBefore) {
+        remaining.push(orphan);
+        continue;
+      }
+      try {
+        if (orphan.kind === "server") {
+          await provider.deleteServer(orphan.resourceId);
+        } else {
+          await provider.deleteSshKey(orphan.resourceId);
+        }
+        this.#store.markOrphanDestroyed(orphan.id);
+        summary.destroyed += 1;
+      } catch (error) {
+        if (isProviderNotFound(error)) {
+          this.#store.markOrphanDestroyed(orphan.id);
+          summary.destroyed += 1;
+          continue;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        remaining.push(this.#store.recordOrphanDestroyFailed(orphan.id, message) ?? orphan);
+      }
+    }
+    return remaining;
+  }
+}
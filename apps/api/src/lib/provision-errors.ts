@@ -0,0 +1,76 @@
+import type { BootstrapPhase } from "./remote-script.js";
+
+// Whether a failed provisioning attempt is worth repeating unchanged. Transient failures (rate limits,
+// provider hiccups, dropped connections, package mirrors) are retried automatically with backoff; permanent
+// ones (bad tokens, invalid config, a gateway that doesn't come up) fail the deployment right away.
+export type ProvisionErrorClassification = {
+  transient: boolean;
+  reason: string;
+};
+
+const TRANSIENT_STATUS_CODES = new Set([408, 423, 429, 500, 502, 503, 504]);
+
+const TRANSIENT_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_SOCKET",
+]);
+
+// Phases that mostly download (apt, install scripts, npm). The others only configure the machine, so running
+// them again would fail the same way.
+const NETWORK_BOUND_PHASES: ReadonlySet<BootstrapPhase> = new Set(["packages", "tailscale", "node", "openclaw", "proxy"]);
+
+// ssh exits with 255 when the connection itself fails or drops, rather than passing on the remote exit code.
+const SSH_CONNECTION_EXIT_CODE = 255;
+
+function networkCode(error: unknown): string | null {
+  const code = (error as any)?.code ?? (error as any)?.cause?.code;
+  return typeof code === "string" ? code : null;
+}
+
+export function classifyProvisionError(error: unknown): ProvisionErrorClassification {
+  const statusCode = Number((error as any)?.statusCode || 0);
+  if (statusCode) {
+    return TRANSIENT_STATUS_CODES.has(statusCode)
+      ? { transient: true, reason: `provider API returned ${statusCode}` }
+      : { transient: false, reason: `provider API returned ${statusCode}` };
+  }
+
+  const code = networkCode(error);
+  if (code && TRANSIENT_NETWORK_CODES.has(code)) {
+    return { transient: true, reason: `network error ${code}` };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  // The provider and SSH wait helpers all report a deadline this way.
+  if (/^Timeout waiting for /.test(message)) {
+    return { transient: true, reason: "timed out waiting for the server" };
+  }
+  if (message === "No ipv4 assigned yet") {
+    return { transient: true, reason: "server has no address yet" };
+  }
+  if (error instanceof TypeError && message === "fetch failed") {
+    return { transient: true, reason: "provider API unreachable" };
+  }
+  return { transient: false, reason: "not retryable" };
+}
+
+export function classifyBootstrapFailure(exitCode: number, phase: BootstrapPhase | null): ProvisionErrorClassification {
+  if (exitCode === SSH_CONNECTION_EXIT_CODE) {
+    return { transient: true, reason: "SSH connection dropped during bootstrap" };
+  }
+  if (phase && NETWORK_BOUND_PHASES.has(phase)) {
+    return { transient: true, reason: `bootstrap phase ${phase} failed` };
+  }
+  return { transient: false, reason: phase ? `bootstrap phase ${phase} failed` : "bootstrap failed before any phase" };
+}
+
+// Exponential backoff from `baseMs`, doubling per attempt and capped at `maxMs`.
+export function provisionRetryDelayMs(attempt: number, baseMs: number, maxMs: number): number {
+  return Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+}
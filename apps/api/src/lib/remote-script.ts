@@ -1,17 +1,216 @@
-export function buildRemoteBootstrapScript(params: {
-  gatewayPort: number;
-  gatewayBind: "loopback" | "lan";
-  authChoice:
-    | "skip"
-    | "minimax-api"
-    | "anthropic-api-key"
-    | "openai-api-key"
-    | "custom-api-key";
-  discordBotToken?: string;
+import type { DiscordGuild } from "./deployments-store.js";
+import { OPENCLAW_VERSION_PATTERN } from "./openclaw-version.js";
+import { shellEscape } from "./ssh.js";
+
+export const BOOTSTRAP_PHASES = [
+  "packages",
+  "tailscale",
+  "node",
+  "openclaw",
+  "onboard",
+  "channels",
+  "systemd",
+  "proxy",
+  "firewall",
+] as const;
+export type BootstrapPhase = (typeof BOOTSTRAP_PHASES)[number];
+export type BootstrapPhaseStatus = "started" | "completed" | "skipped" | "failed";
+
+export const BOOTSTRAP_PHASE_MARKER = "::clawpad-phase::";
+// Done files live here on the target; the uninstall script removes them so a reinstall starts clean.
+export const BOOTSTRAP_STATE_DIR = "/var/lib/clawpad/bootstrap";
+
+export function parseBootstrapPhaseMarker(
+  line: string,
+): { phase: BootstrapPhase; status: BootstrapPhaseStatus } | null {
+  const match = /^::clawpad-phase:: ([a-z]+) (started|completed|skipped|failed)$/.exec(line.trim());
+  if (!match || !(BOOTSTRAP_PHASES as readonly string[]).includes(match[1])) return null;
+  return { phase: match[1] as BootstrapPhase, status: match[2] as BootstrapPhaseStatus };
+}
+
+// OpenClaw's own Tailscale integration: "serve" publishes the gateway on the tailnet, "funnel" on the internet.
+export type TailscaleMode = "off" | "serve" | "funnel";
+
+// Site name, and certificate name, of the nginx reverse proxy in front of the gateway.
+const NGINX_SITE = "openclaw";
+
+type DiscordChannelParams = {
   discordGroupPolicy?: "open" | "allowlist" | "disabled";
   discordGuildId?: string;
   discordChannelIds?: string[];
-  tailscaleMode: "off" | "serve";
+  discordGuilds?: DiscordGuild[];
+};
+
+// The allowlist as `discordGuilds`, or the single guild of `discordGuildId` + `discordChannelIds`.
+function discordGuildEntries(params: DiscordChannelParams): DiscordGuild[] {
+  if (params.discordGuilds?.length) return params.discordGuilds;
+  return params.discordGuildId ? [{ guildId: params.discordGuildId, channelIds: params.discordChannelIds ?? [] }] : [];
+}
+
+// OpenClaw's `channels.discord.guilds` map. Channels inherit the guild's requireMention unless they set their own.
+function discordGuildsConfig(guilds: DiscordGuild[]): Record<string, unknown> {
+  return Object.fromEntries(
+    guilds.map((guild) => {
+      const requireMention = guild.requireMention ?? true;
+      const channels = guild.channelIds.map((channel) =>
+        typeof channel === "string"
+          ? [channel, { allow: true, requireMention }]
+          : [channel.id, { allow: true, requireMention: channel.requireMention ?? requireMention }],
+      );
+      return [
+        String(guild.guildId),
+        {
+          requireMention,
+          ...(guild.users?.length ? { users: guild.users } : {}),
+          channels: Object.fromEntries(channels),
+        },
+      ];
+    }),
+  );
+}
+
+// `openclaw` commands that wire up the Discord channel. Expects DISCORD_BOT_TOKEN in the environment. With
+// `resetGuilds`, policies other than allowlist write an empty guild map so a previous allowlist is dropped.
+function discordChannelCommands(params: DiscordChannelParams, opts: { resetGuilds: boolean }): string {
+  const effectiveDiscordGroupPolicy = params.discordGroupPolicy ?? "allowlist";
+  const allowlistEnabled = effectiveDiscordGroupPolicy === "allowlist";
+  const guilds = discordGuildEntries(params);
+  if (allowlistEnabled) {
+    if (guilds.length === 0) {
+      throw new Error("discordGuilds is required when discordGroupPolicy=allowlist");
+    }
+    const empty = guilds.find((guild) => guild.channelIds.length === 0);
+    if (empty) {
+      throw new Error(`Discord guild ${empty.guildId} needs at least one channel when discordGroupPolicy=allowlist`);
+    }
+  }
+
+  const discordGuildsJson = allowlistEnabled ? JSON.stringify(discordGuildsConfig(guilds)) : "{}";
+
+  const discordGroupPolicyJson = JSON.stringify(effectiveDiscordGroupPolicy);
+
+  const discordGuildsBlock =
+    allowlistEnabled || opts.resetGuilds
+      ? `
+
+  # ${allowlistEnabled ? "Allowlist: only the configured channels are accepted" : "No allowlist: drop any previous guild entries"}
+  sudo -u openclaw -H env HOME=/home/openclaw \\
+    openclaw config set channels.discord.guilds '${discordGuildsJson}' --json`
+      : "";
+
+  return `  # Discord channel wiring
+  sudo -u openclaw -H env HOME=/home/openclaw DISCORD_BOT_TOKEN="$DISCORD_BOT_TOKEN" \\
+    openclaw channels add --channel discord --use-env
+
+  # Group messages policy
+  sudo -u openclaw -H env HOME=/home/openclaw \\
+    openclaw config set channels.discord.groupPolicy '${discordGroupPolicyJson}' --json${discordGuildsBlock}`;
+}
+
+type TelegramChannelParams = {
+  telegramGroupPolicy?: "open" | "allowlist" | "disabled";
+  telegramChatIds?: string[];
+};
+
+// `openclaw` commands that wire up the Telegram channel. Expects TELEGRAM_BOT_TOKEN in the environment. Direct
+// messages follow OpenClaw's pairing default; the group policy decides which group and channel chats are served.
+function telegramChannelCommands(params: TelegramChannelParams, opts: { resetGroups: boolean }): string {
+  const groupPolicy = params.telegramGroupPolicy ?? "allowlist";
+  const allowlistEnabled = groupPolicy === "allowlist";
+  if (allowlistEnabled && (!Array.isArray(params.telegramChatIds) || params.telegramChatIds.length === 0)) {
+    throw new Error("telegramChatIds is required when telegramGroupPolicy=allowlist");
+  }
+
+  const groupsJson = allowlistEnabled
+    ? JSON.stringify(
+        Object.fromEntries((params.telegramChatIds ?? []).map((chatId) => [String(chatId), { requireMention: true }])),
+      )
+    : "{}";
+
+  const groupsBlock =
+    allowlistEnabled || opts.resetGroups
+      ? `
+
+  # ${allowlistEnabled ? "Allowlist: only the configured chats are accepted" : "No allowlist: drop any previous chat entries"}
+  sudo -u openclaw -H env HOME=/home/openclaw \\
+    openclaw config set channels.telegram.groups '${groupsJson}' --json`
+      : "";
+
+  return `  # Telegram channel wiring
+  sudo -u openclaw -H env HOME=/home/openclaw TELEGRAM_BOT_TOKEN="$TELEGRAM_BOT_TOKEN" \\
+    openclaw channels add --channel telegram --use-env
+
+  # Group messages policy
+  sudo -u openclaw -H env HOME=/home/openclaw \\
+    openclaw config set channels.telegram.groupPolicy '${JSON.stringify(groupPolicy)}' --json${groupsBlock}`;
+}
+
+type SlackChannelParams = {
+  slackGroupPolicy?: "open" | "allowlist" | "disabled";
+  slackChannelIds?: string[];
+};
+
+// `openclaw` commands that wire up the Slack channel in Socket Mode. Expects SLACK_BOT_TOKEN and SLACK_APP_TOKEN in
+// the environment. Same allowlist defaults as Discord: only the configured channels, and only when mentioned.
+function slackChannelCommands(params: SlackChannelParams, opts: { resetChannels: boolean }): string {
+  const groupPolicy = params.slackGroupPolicy ?? "allowlist";
+  const allowlistEnabled = groupPolicy === "allowlist";
+  if (allowlistEnabled && (!Array.isArray(params.slackChannelIds) || params.slackChannelIds.length === 0)) {
+    throw new Error("slackChannelIds is required when slackGroupPolicy=allowlist");
+  }
+
+  const channelsJson = allowlistEnabled
+    ? JSON.stringify(
+        Object.fromEntries(
+          (params.slackChannelIds ?? []).map((channelId) => [String(channelId), { allow: true, requireMention: true }]),
+        ),
+      )
+    : "{}";
+
+  const channelsBlock =
+    allowlistEnabled || opts.resetChannels
+      ? `
+
+  # ${allowlistEnabled ? "Allowlist: only the configured channels are accepted" : "No allowlist: drop any previous channel entries"}
+  sudo -u openclaw -H env HOME=/home/openclaw \\
+    openclaw config set channels.slack.channels '${channelsJson}' --json`
+      : "";
+
+  return `  # Slack channel wiring
+  sudo -u openclaw -H env HOME=/home/openclaw SLACK_BOT_TOKEN="$SLACK_BOT_TOKEN" SLACK_APP_TOKEN="$SLACK_APP_TOKEN" \\
+    openclaw channels add --channel slack --use-env
+
+  # Group messages policy
+  sudo -u openclaw -H env HOME=/home/openclaw \\
+    openclaw config set channels.slack.groupPolicy '${JSON.stringify(groupPolicy)}' --json${channelsBlock}`;
+}
+
+// Root-owned env file for runtime secrets, read by the gateway unit. Values come from the script environment.
+const GATEWAY_ENV_FILE_BLOCK = `  install -d -m 0755 /etc/openclaw
+  cat > /etc/openclaw/openclaw.env <<EOF
+OPENCLAW_GATEWAY_TOKEN=$OPENCLAW_GATEWAY_TOKEN
+MINIMAX_API_KEY=$MINIMAX_API_KEY
+ANTHROPIC_API_KEY=$ANTHROPIC_API_KEY
+OPENAI_API_KEY=$OPENAI_API_KEY
+DISCORD_BOT_TOKEN=$DISCORD_BOT_TOKEN
+TELEGRAM_BOT_TOKEN=$TELEGRAM_BOT_TOKEN
+SLACK_BOT_TOKEN=$SLACK_BOT_TOKEN
+SLACK_APP_TOKEN=$SLACK_APP_TOKEN
+EOF
+  chmod 600 /etc/openclaw/openclaw.env`;
+
+function openclawPackageSpec(version: string): string {
+  if (!OPENCLAW_VERSION_PATTERN.test(version)) {
+    throw new Error(`Unsupported openclaw version: ${version}`);
+  }
+  return `openclaw@${version}`;
+}
+
+function onboardCommand(params: {
+  gatewayPort: number;
+  gatewayBind: "loopback" | "lan";
+  authChoice: string;
+  tailscaleMode: TailscaleMode;
 }): string {
   const onboardKeyArg =
     params.authChoice === "minimax-api"
@@ -21,80 +220,136 @@ export function buildRemoteBootstrapScript(params: {
         : params.authChoice === "openai-api-key"
           ? '--openai-api-key "$OPENAI_API_KEY"'
           : "";
+  const tailscaleOnboardArg = params.tailscaleMode === "off" ? "" : `--tailscale ${params.tailscaleMode}`;
 
-  const effectiveDiscordGroupPolicy = params.discordGroupPolicy ?? "allowlist";
-  const allowlistEnabled = Boolean(
-    params.discordBotToken && effectiveDiscordGroupPolicy === "allowlist",
-  );
-  if (allowlistEnabled) {
-    if (!params.discordGuildId) {
-      throw new Error("discordGuildId is required when discordGroupPolicy=allowlist");
-    }
-    if (!Array.isArray(params.discordChannelIds) || params.discordChannelIds.length === 0) {
-      throw new Error("discordChannelIds is required when discordGroupPolicy=allowlist");
-    }
+  return `  sudo -u openclaw -H env \\
+    HOME=/home/openclaw \\
+    OPENCLAW_GATEWAY_TOKEN="$OPENCLAW_GATEWAY_TOKEN" \\
+    MINIMAX_API_KEY="$MINIMAX_API_KEY" \\
+    ANTHROPIC_API_KEY="$ANTHROPIC_API_KEY" \\
+    OPENAI_API_KEY="$OPENAI_API_KEY" \\
+    openclaw onboard --non-interactive --accept-risk --no-install-daemon --skip-channels --skip-skills --skip-ui --skip-health \\
+      --gateway-bind ${params.gatewayBind} --gateway-port ${params.gatewayPort} --gateway-auth token --gateway-token "$OPENCLAW_GATEWAY_TOKEN" \\
+      ${tailscaleOnboardArg} --auth-choice ${params.authChoice} ${onboardKeyArg}`;
+}
+
+// nginx terminates TLS for `hostname` and proxies to the loopback gateway (including its WebSocket). certbot
+// answers the HTTP challenge through nginx, so DNS must already point at the machine.
+function publicDomainPhase(publicDomain: { hostname: string; acmeEmail?: string }, gatewayPort: number): string {
+  const accountArg = publicDomain.acmeEmail
+    ? `--email ${shellEscape(publicDomain.acmeEmail)}`
+    : "--register-unsafely-without-email";
+  return `
+
+# Public hostname: nginx + Let's Encrypt in front of the loopback gateway.
+phase_proxy() {
+  apt-get install -y nginx certbot python3-certbot-nginx
+  cat > /etc/nginx/sites-available/${NGINX_SITE} <<'NGINX'
+map $http_upgrade $connection_upgrade {
+  default upgrade;
+  '' close;
+}
+
+server {
+  listen 80;
+  listen [::]:80;
+  server_name ${publicDomain.hostname};
+
+  location / {
+    proxy_pass http://127.0.0.1:${gatewayPort};
+    proxy_http_version 1.1;
+    proxy_set_header Host $host;
+    proxy_set_header Upgrade $http_upgrade;
+    proxy_set_header Connection $connection_upgrade;
+    proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
+    proxy_set_header X-Forwarded-Proto $scheme;
+    proxy_read_timeout 3600s;
   }
+}
+NGINX
+  ln -sf /etc/nginx/sites-available/${NGINX_SITE} /etc/nginx/sites-enabled/${NGINX_SITE}
+  rm -f /etc/nginx/sites-enabled/default
+  nginx -t
+  systemctl enable nginx
+  systemctl reload nginx || systemctl restart nginx
 
-  const discordGuildsJson = allowlistEnabled
-    ? JSON.stringify(
-        {
-          [String(params.discordGuildId)]: {
-            requireMention: true,
-            channels: Object.fromEntries(
-              (params.discordChannelIds ?? []).map((channelId) => [
-                String(channelId),
-                { allow: true, requireMention: true },
-              ]),
-            ),
-          },
-        },
-        null,
-        0,
-      )
-    : "";
+  # Opened before the certificate request: ufw may already be active on a BYO host.
+  ufw allow 80/tcp
+  ufw allow 443/tcp
+  certbot --nginx --non-interactive --agree-tos ${accountArg} \\
+    --cert-name ${NGINX_SITE} -d ${publicDomain.hostname} --redirect
+}
+run_phase proxy phase_proxy
+`;
+}
 
-  const discordGroupPolicyJson = JSON.stringify(effectiveDiscordGroupPolicy);
+export function buildRemoteBootstrapScript(params: {
+  gatewayPort: number;
+  gatewayBind: "loopback" | "lan";
+  authChoice:
+    | "skip"
+    | "minimax-api"
+    | "anthropic-api-key"
+    | "openai-api-key"
+    | "custom-api-key";
+  discordBotToken?: string;
+  discordGroupPolicy?: "open" | "allowlist" | "disabled";
+  discordGuildId?: string;
+  discordChannelIds?: string[];
+  discordGuilds?: DiscordGuild[];
+  telegramBotToken?: string;
+  telegramGroupPolicy?: "open" | "allowlist" | "disabled";
+  telegramChatIds?: string[];
+  slackBotToken?: string;
+  slackGroupPolicy?: "open" | "allowlist" | "disabled";
+  slackChannelIds?: string[];
+  tailscaleMode: TailscaleMode;
+  // Serves the gateway on this hostname through nginx, with a certificate from Let's Encrypt.
+  publicDomain?: { hostname: string; acmeEmail?: string };
+  // Port sshd listens on; the firewall keeps it open (BYO hosts may not use 22).
+  sshPort?: number;
+  // npm version or dist-tag of the openclaw package (default: latest).
+  openclawVersion?: string;
+}): string {
+  const openclawPackage = openclawPackageSpec(params.openclawVersion ?? "latest");
 
-  const tailscaleInstallBlock =
-    params.tailscaleMode === "serve"
+  const tailscalePhase =
+    params.tailscaleMode !== "off"
       ? `
 
-# Tailscale (Serve) for secure remote access without opening any ports.
-curl -fsSL https://tailscale.com/install.sh | sh
-systemctl enable --now tailscaled
-tailscale up --authkey "$TAILSCALE_AUTH_KEY" --hostname "$TAILSCALE_HOSTNAME"
+# Tailscale (${params.tailscaleMode === "funnel" ? "Funnel" : "Serve"}) for remote access without opening any ports.
+phase_tailscale() {
+  curl -fsSL https://tailscale.com/install.sh | sh
+  systemctl enable --now tailscaled
+  tailscale up --authkey "$TAILSCALE_AUTH_KEY" --hostname "$TAILSCALE_HOSTNAME"
 
-# Ensure OpenClaw can manage serve/reset without full root.
-cat > /etc/sudoers.d/openclaw-tailscale <<'SUDOERS'
-openclaw ALL=(root) NOPASSWD: /usr/bin/tailscale serve *, /usr/bin/tailscale serve reset
+  # Ensure OpenClaw can manage serve/reset without full root.
+  cat > /etc/sudoers.d/openclaw-tailscale <<'SUDOERS'
+openclaw ALL=(root) NOPASSWD: /usr/bin/tailscale serve *, /usr/bin/tailscale serve reset, /usr/bin/tailscale funnel *, /usr/bin/tailscale funnel reset
 SUDOERS
-chmod 440 /etc/sudoers.d/openclaw-tailscale
+  chmod 440 /etc/sudoers.d/openclaw-tailscale
+}
+run_phase tailscale phase_tailscale
 `
       : "";
 
-  const tailscaleOnboardArg = params.tailscaleMode === "serve" ? "--tailscale serve" : "";
-
-  const discordBlock = params.discordBotToken
-    ? `
-
-# Discord channel wiring
-sudo -u openclaw -H env HOME=/home/openclaw DISCORD_BOT_TOKEN="$DISCORD_BOT_TOKEN" \\
-  openclaw channels add --channel discord --use-env
-
-# Group messages policy
-sudo -u openclaw -H env HOME=/home/openclaw \\
-  openclaw config set channels.discord.groupPolicy '${discordGroupPolicyJson}' --json
-`
-    : "";
+  const proxyPhase = params.publicDomain ? publicDomainPhase(params.publicDomain, params.gatewayPort) : "";
 
-  const discordAllowlistBlock = allowlistEnabled
-    ? `
+  const channelCommands = [
+    params.discordBotToken ? discordChannelCommands(params, { resetGuilds: false }) : null,
+    params.telegramBotToken ? telegramChannelCommands(params, { resetGroups: false }) : null,
+    params.slackBotToken ? slackChannelCommands(params, { resetChannels: false }) : null,
+  ].filter(Boolean);
+  const channelsPhase =
+    channelCommands.length > 0
+      ? `
 
-# Allowlist: only the configured channels are accepted
-sudo -u openclaw -H env HOME=/home/openclaw \\
-  openclaw config set channels.discord.guilds '${discordGuildsJson}' --json
+phase_channels() {
+${channelCommands.join("\n\n")}
+}
+run_phase channels phase_channels
 `
-    : "";
+      : "";
 
   return `#!/usr/bin/env bash
 set -eo pipefail
@@ -102,54 +357,69 @@ set -eo pipefail
 export DEBIAN_FRONTEND=noninteractive
 export NEEDRESTART_MODE=a
 
-apt-get update
-apt-get install -y ca-certificates curl gnupg ufw
-${tailscaleInstallBlock}
+# Every phase prints "${BOOTSTRAP_PHASE_MARKER} <phase> <status>" and leaves a done file behind, so running
+# the script again on the same machine resumes at the first phase that did not complete.
+CLAWPAD_STATE_DIR=${BOOTSTRAP_STATE_DIR}
+mkdir -p "$CLAWPAD_STATE_DIR"
+CLAWPAD_CURRENT_PHASE=""
+trap 'rc=$?; if [ "$rc" -ne 0 ] && [ -n "$CLAWPAD_CURRENT_PHASE" ]; then echo "${BOOTSTRAP_PHASE_MARKER} $CLAWPAD_CURRENT_PHASE failed" >&2; fi' EXIT
 
-# Node 22
-mkdir -p /etc/apt/keyrings
-curl -fsSL https://deb.nodesource.com/gpgkey/nodesource-repo.gpg.key | gpg --dearmor -o /etc/apt/keyrings/nodesource.gpg
-echo "deb [signed-by=/etc/apt/keyrings/nodesource.gpg] https://deb.nodesource.com/node_22.x nodistro main" > /etc/apt/sources.list.d/nodesource.list
-apt-get update
-apt-get install -y nodejs
+run_phase() {
+  local name="$1"
+  if [ -f "$CLAWPAD_STATE_DIR/$name.done" ]; then
+    echo "${BOOTSTRAP_PHASE_MARKER} $name skipped"
+    return 0
+  fi
+  CLAWPAD_CURRENT_PHASE="$name"
+  echo "${BOOTSTRAP_PHASE_MARKER} $name started"
+  "$2"
+  touch "$CLAWPAD_STATE_DIR/$name.done"
+  CLAWPAD_CURRENT_PHASE=""
+  echo "${BOOTSTRAP_PHASE_MARKER} $name completed"
+}
 
-# OpenClaw
-npm install -g openclaw@latest
+phase_packages() {
+  apt-get update
+  apt-get install -y ca-certificates curl gnupg ufw
+}
+run_phase packages phase_packages
+${tailscalePhase}
 
-# Dedicated user + home
-if ! id -u openclaw >/dev/null 2>&1; then
-  useradd -r -m -d /home/openclaw -s /bin/bash openclaw
-fi
-mkdir -p /home/openclaw/.openclaw
-chown -R openclaw:openclaw /home/openclaw/.openclaw
-usermod -aG tailscale openclaw >/dev/null 2>&1 || true
+phase_node() {
+  # Node 22
+  mkdir -p /etc/apt/keyrings
+  curl -fsSL https://deb.nodesource.com/gpgkey/nodesource-repo.gpg.key | gpg --dearmor --yes -o /etc/apt/keyrings/nodesource.gpg
+  echo "deb [signed-by=/etc/apt/keyrings/nodesource.gpg] https://deb.nodesource.com/node_22.x nodistro main" > /etc/apt/sources.list.d/nodesource.list
+  apt-get update
+  apt-get install -y nodejs
+}
+run_phase node phase_node
 
-# Root-owned env file for runtime secrets
-install -d -m 0755 /etc/openclaw
-cat > /etc/openclaw/openclaw.env <<EOF
-OPENCLAW_GATEWAY_TOKEN=$OPENCLAW_GATEWAY_TOKEN
-MINIMAX_API_KEY=$MINIMAX_API_KEY
-ANTHROPIC_API_KEY=$ANTHROPIC_API_KEY
-OPENAI_API_KEY=$OPENAI_API_KEY
-DISCORD_BOT_TOKEN=$DISCORD_BOT_TOKEN
-EOF
-chmod 600 /etc/openclaw/openclaw.env
-
-# Generate config via OpenClaw itself (non-interactive)
-sudo -u openclaw -H env \\
-  HOME=/home/openclaw \\
-  OPENCLAW_GATEWAY_TOKEN="$OPENCLAW_GATEWAY_TOKEN" \\
-  MINIMAX_API_KEY="$MINIMAX_API_KEY" \\
-  ANTHROPIC_API_KEY="$ANTHROPIC_API_KEY" \\
-  OPENAI_API_KEY="$OPENAI_API_KEY" \\
-  openclaw onboard --non-interactive --accept-risk --no-install-daemon --skip-channels --skip-skills --skip-ui --skip-health \\
-    --gateway-bind ${params.gatewayBind} --gateway-port ${params.gatewayPort} --gateway-auth token --gateway-token "$OPENCLAW_GATEWAY_TOKEN" \\
-    ${tailscaleOnboardArg} --auth-choice ${params.authChoice} ${onboardKeyArg}
-${discordBlock}
-${discordAllowlistBlock}
-
-# Systemd service (system-level: reliable on headless VPS)
-cat > /etc/systemd/system/openclaw-gateway.service <<SYSTEMD
+phase_openclaw() {
+  npm install -g ${openclawPackage}
+
+  # Dedicated user + home
+  if ! id -u openclaw >/dev/null 2>&1; then
+    useradd -r -m -d /home/openclaw -s /bin/bash openclaw
+  fi
+  mkdir -p /home/openclaw/.openclaw
+  chown -R openclaw:openclaw /home/openclaw/.openclaw
+  usermod -aG tailscale openclaw >/dev/null 2>&1 || true
+}
+run_phase openclaw phase_openclaw
+
+phase_onboard() {
+${GATEWAY_ENV_FILE_BLOCK}
+
+  # Generate config via OpenClaw itself (non-interactive)
+${onboardCommand(params)}
+}
+run_phase onboard phase_onboard
+${channelsPhase}
+
+phase_systemd() {
+  # Systemd service (system-level: reliable on headless VPS)
+  cat > /etc/systemd/system/openclaw-gateway.service <<SYSTEMD
 [Unit]
 Description=OpenClaw Gateway
 After=network-online.target
@@ -171,15 +441,147 @@ RestartSec=5
 WantedBy=multi-user.target
 SYSTEMD
 
-systemctl daemon-reload
-systemctl enable openclaw-gateway
-systemctl restart openclaw-gateway
+  systemctl daemon-reload
+  systemctl enable openclaw-gateway
+  systemctl restart openclaw-gateway
+}
+run_phase systemd phase_systemd
+${proxyPhase}
 
-# Firewall
-ufw allow OpenSSH
-ufw allow 41641/udp || true
-ufw --force enable
+phase_firewall() {
+  ufw allow OpenSSH
+  ufw allow ${params.sshPort ?? 22}/tcp
+  ufw allow 41641/udp || true
+  ufw --force enable
+}
+run_phase firewall phase_firewall
 
 echo "bootstrap complete"
 `;
 }
+
+// Applies a changed config to a running gateway: rewrites the env file, re-runs onboarding only when the
+// model auth changed, re-applies the Discord, Telegram and Slack channel settings and restarts the service. Safe
+// to run again.
+export function buildRemoteReconfigureScript(
+  params: DiscordChannelParams &
+    TelegramChannelParams &
+    SlackChannelParams & {
+    gatewayPort: number;
+    gatewayBind: "loopback" | "lan";
+    authChoice: "skip" | "minimax-api" | "anthropic-api-key" | "openai-api-key";
+    tailscaleMode: TailscaleMode;
+    discordBotToken?: string;
+    telegramBotToken?: string;
+    slackBotToken?: string;
+    reonboard: boolean;
+    // The previous config had a Discord bot; without a token now the channel is switched off.
+    disableDiscord: boolean;
+    // Same for Telegram and Slack.
+    disableTelegram: boolean;
+    disableSlack: boolean;
+  },
+): string {
+  const onboardBlock = params.reonboard
+    ? `
+
+  # Model auth changed; regenerate the config with the new credentials
+${onboardCommand(params)}`
+    : "";
+
+  const discordBlock = params.discordBotToken
+    ? `
+
+${discordChannelCommands(params, { resetGuilds: true })}`
+    : params.disableDiscord
+      ? `
+
+  # Discord bot removed: stop accepting group messages
+  sudo -u openclaw -H env HOME=/home/openclaw \\
+    openclaw config set channels.discord.groupPolicy '"disabled"' --json`
+      : "";
+
+  const telegramBlock = params.telegramBotToken
+    ? `
+
+${telegramChannelCommands(params, { resetGroups: true })}`
+    : params.disableTelegram
+      ? `
+
+  # Telegram bot removed: stop accepting group messages
+  sudo -u openclaw -H env HOME=/home/openclaw \\
+    openclaw config set channels.telegram.groupPolicy '"disabled"' --json`
+      : "";
+
+  const slackBlock = params.slackBotToken
+    ? `
+
+${slackChannelCommands(params, { resetChannels: true })}`
+    : params.disableSlack
+      ? `
+
+  # Slack bot removed: stop accepting channel messages
+  sudo -u openclaw -H env HOME=/home/openclaw \\
+    openclaw config set channels.slack.groupPolicy '"disabled"' --json`
+      : "";
+
+  return `#!/usr/bin/env bash
+set -eo pipefail
+
+reconfigure() {
+${GATEWAY_ENV_FILE_BLOCK}${onboardBlock}${discordBlock}${telegramBlock}${slackBlock}
+
+  systemctl restart openclaw-gateway
+}
+reconfigure
+
+echo "reconfigure complete"
+`;
+}
+
+// Installs another openclaw version on a provisioned machine and restarts the gateway on it. Used both for
+// upgrades and for rolling back to the previous version.
+export function buildRemoteUpgradeScript(params: { openclawVersion: string }): string {
+  return `#!/usr/bin/env bash
+set -eo pipefail
+
+npm install -g ${openclawPackageSpec(params.openclawVersion)}
+systemctl restart openclaw-gateway
+
+echo "upgrade complete: $(openclaw --version)"
+`;
+}
+
+// Reverses the bootstrap on a machine we do not own (BYO): stops and removes the gateway service and its
+// secrets, and logs the node out of the tailnet. /home/openclaw is left in place so workspace data survives.
+export function buildRemoteUninstallScript(): string {
+  return `#!/usr/bin/env bash
+set -o pipefail
+
+systemctl disable --now openclaw-gateway >/dev/null 2>&1 || true
+rm -f /etc/systemd/system/openclaw-gateway.service
+systemctl daemon-reload
+
+rm -rf /etc/openclaw
+rm -f /etc/sudoers.d/openclaw-tailscale
+rm -rf ${BOOTSTRAP_STATE_DIR}
+
+if [ -f /etc/nginx/sites-available/${NGINX_SITE} ]; then
+  rm -f /etc/nginx/sites-enabled/${NGINX_SITE} /etc/nginx/sites-available/${NGINX_SITE}
+  systemctl reload nginx >/dev/null 2>&1 || true
+  certbot delete --cert-name ${NGINX_SITE} --non-interactive >/dev/null 2>&1 || true
+fi
+
+if command -v tailscale >/dev/null 2>&1; then
+  tailscale funnel reset >/dev/null 2>&1 || true
+  tailscale serve reset >/dev/null 2>&1 || true
+  tailscale logout || true
+fi
+
+if command -v npm >/dev/null 2>&1; then
+  npm uninstall -g openclaw || true
+fi
+
+echo "uninstall complete"
+`;
+}
@@ -6,7 +6,16 @@ export type RunResult = {
   stderr: string;
 };
 
-export async function run(argv: string[], opts?: { cwd?: string; env?: NodeJS.ProcessEnv }): Promise<RunResult> {
+export type OutputStream = "stdout" | "stderr";
+
+export type RunOptions = {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  // Called once per complete output line (without the newline) while the command runs.
+  onLine?: (stream: OutputStream, line: string) => void;
+};
+
+export async function run(argv: string[], opts?: RunOptions): Promise<RunResult> {
   return await new Promise((resolve) => {
     let settled = false;
     const finish = (result: RunResult) => {
@@ -23,10 +32,34 @@ export async function run(argv: string[], opts?: { cwd?: string; env?: NodeJS.Pr
 
     let stdout = "";
     let stderr = "";
+    const partial: Record<OutputStream, string> = { stdout: "", stderr: "" };
+    const emitLines = (stream: OutputStream, chunk: string) => {
+      if (!opts?.onLine) return;
+      const lines = (partial[stream] + chunk).split(/\r?\n/);
+      partial[stream] = lines.pop() ?? "";
+      for (const line of lines) {
+        opts.onLine(stream, line);
+      }
+    };
+    const flushLines = () => {
+      for (const stream of ["stdout", "stderr"] as const) {
+        if (partial[stream]) {
+          opts?.onLine?.(stream, partial[stream]);
+          partial[stream] = "";
+        }
+      }
+    };
+
     child.stdout.setEncoding("utf8");
     child.stderr.setEncoding("utf8");
-    child.stdout.on("data", (chunk: string) => (stdout += chunk));
-    child.stderr.on("data", (chunk: string) => (stderr += chunk));
+    child.stdout.on("data", (chunk: string) => {
+      stdout += chunk;
+      emitLines("stdout", chunk);
+    });
+    child.stderr.on("data", (chunk: string) => {
+      stderr += chunk;
+      emitLines("stderr", chunk);
+    });
 
     child.on("error", (error) => {
       finish({
@@ -37,6 +70,7 @@ export async function run(argv: string[], opts?: { cwd?: string; env?: NodeJS.Pr
     });
 
     child.on("close", (code: number | null) => {
+      flushLines();
       finish({ code: Number(code ?? 1), stdout, stderr });
     });
   });
@@ -44,7 +78,7 @@ export async function run(argv: string[], opts?: { cwd?: string; env?: NodeJS.Pr
 
 export async function runOrThrow(
   argv: string[],
-  opts?: { cwd?: string; env?: NodeJS.ProcessEnv; label?: string },
+  opts?: RunOptions & { label?: string },
 ): Promise<RunResult> {
   const res = await run(argv, opts);
   if (res.code !== 0) {
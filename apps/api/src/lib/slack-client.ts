@@ -0,0 +1,112 @@
+const DEFAULT_BASE_URL = "https://slack.com/api";
+
+// Slack answers with HTTP 200 and `ok: false` for most failures; these errors mean the token itself is no good.
+const AUTH_ERRORS = new Set(["not_authed", "invalid_auth", "account_inactive", "token_revoked", "token_expired"]);
+
+export type SlackAuth = {
+  url: string;
+  team: string;
+  team_id: string;
+  user: string;
+  user_id: string;
+  bot_id?: string;
+};
+
+type SlackRawChannel = {
+  id: string;
+  name: string;
+  is_private?: boolean;
+  is_member?: boolean;
+  is_archived?: boolean;
+  num_members?: number;
+};
+
+// A channel as offered for the allowlist. The app only sees messages in channels it is a member of.
+export type SlackChannel = {
+  id: string;
+  name: string;
+  isPrivate: boolean;
+  isMember: boolean;
+  memberCount: number | null;
+};
+
+type SlackResponse = { ok: boolean; error?: string; response_metadata?: { next_cursor?: string } };
+
+export class SlackClient {
+  readonly #token: string;
+  readonly #baseUrl: string;
+
+  constructor(token: string, opts?: { baseUrl?: string }) {
+    if (!token) {
+      throw new Error("Missing Slack token");
+    }
+    this.#token = token;
+    this.#baseUrl = String(opts?.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  }
+
+  async #call<T extends SlackResponse>(method: string, params?: Record<string, string>): Promise<T> {
+    const res = await fetch(`${this.#baseUrl}/${method}`, {
+      method: "POST",
+      headers: {
+        authorization: `Bearer ${this.#token}`,
+        "content-type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams(params ?? {}).toString(),
+    });
+
+    const text = await res.text();
+    let data: T | null = null;
+    try {
+      data = text ? (JSON.parse(text) as T) : null;
+    } catch {
+      // Non-JSON bodies (proxies, outages) are reported by status below.
+    }
+
+    if (!res.ok || !data?.ok) {
+      const code = data?.error;
+      const error = new Error(code ? `Slack API error: ${code}` : `Slack API error (${res.status})`);
+      (error as any).statusCode = !res.ok ? res.status : code && AUTH_ERRORS.has(code) ? 401 : 400;
+      (error as any).details = data;
+      throw error;
+    }
+    return data;
+  }
+
+  // Works with bot and user tokens; app-level tokens are rejected (`not_allowed_token_type`).
+  async authTest(): Promise<SlackAuth> {
+    return await this.#call<SlackResponse & SlackAuth>("auth.test");
+  }
+
+  // Checks an app-level token (xapp-) by asking for a Socket Mode URL, which is only handed out when the token is
+  // valid and Socket Mode is enabled for the app. The URL itself is not used.
+  async checkSocketMode(): Promise<void> {
+    await this.#call("apps.connections.open");
+  }
+
+  // Public and private channels visible to the token, unarchived, sorted by name.
+  async listChannels(): Promise<SlackChannel[]> {
+    const channels: SlackChannel[] = [];
+    let cursor = "";
+    do {
+      const page = await this.#call<SlackResponse & { channels: SlackRawChannel[] }>("conversations.list", {
+        types: "public_channel,private_channel",
+        exclude_archived: "true",
+        limit: "200",
+        ...(cursor ? { cursor } : {}),
+      });
+      for (const channel of page.channels) {
+        if (channel.is_archived) continue;
+        channels.push({
+          id: channel.id,
+          name: channel.name,
+          isPrivate: Boolean(channel.is_private),
+          isMember: Boolean(channel.is_member),
+          memberCount: typeof channel.num_members === "number" ? channel.num_members : null,
+        });
+      }
+      cursor = page.response_metadata?.next_cursor ?? "";
+    } while (cursor);
+
+    return channels.sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
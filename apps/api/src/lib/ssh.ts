@@ -0,0 +1,169 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { run, RunOptions, RunResult, runOrThrow } from "./sh.js";
+
+export type SshTarget = {
+  host: string;
+  user: string;
+  port: number;
+  // Deployment the machine belongs to; names its known_hosts file.
+  deploymentId: string;
+  // Pinned host keys (known_hosts lines). Null until the first connection has recorded them, which is the only
+  // connection that accepts an unknown key.
+  knownHosts: string | null;
+};
+
+type SshAddress = Pick<SshTarget, "host" | "user" | "port">;
+
+export function rootTarget(host: string, deployment: { id: string; sshKnownHosts: string | null }): SshTarget {
+  return { host, user: "root", port: 22, deploymentId: deployment.id, knownHosts: deployment.sshKnownHosts };
+}
+
+// Where a running deployment is reachable: the recorded BYO host, else root on the provider server's IP.
+export function deploymentSshAddress(resources: {
+  sshHost: string | null;
+  sshUser: string | null;
+  sshPort: number | null;
+  serverIp: string | null;
+}): SshAddress | null {
+  if (resources.sshHost) {
+    return { host: resources.sshHost, user: resources.sshUser ?? "root", port: resources.sshPort ?? 22 };
+  }
+  return resources.serverIp ? { host: resources.serverIp, user: "root", port: 22 } : null;
+}
+
+export function deploymentSshTarget(deployment: {
+  id: string;
+  sshKnownHosts: string | null;
+  resources: { sshHost: string | null; sshUser: string | null; sshPort: number | null; serverIp: string | null };
+}): SshTarget | null {
+  const address = deploymentSshAddress(deployment.resources);
+  return address ? { ...address, deploymentId: deployment.id, knownHosts: deployment.sshKnownHosts } : null;
+}
+
+export function shellEscape(value: string): string {
+  return `'${String(value).replace(/'/g, `'"'"'`)}'`;
+}
+
+// Every connection gets a known_hosts file of its own, written from `SshTarget.knownHosts` and removed once the
+// connection is done, so connections to the same deployment running side by side never see each other's file.
+// The database stays the only record of pinned keys.
+//
+// Pinned targets only accept their recorded keys. Unpinned targets start from an empty file, accept whatever
+// key the host presents and hand it back as `recordedHostKeys`.
+async function withSshOptions<T>(
+  target: SshTarget,
+  privateKeyPath: string | undefined,
+  connect: (options: string[]) => Promise<T>,
+): Promise<{ result: T; recordedHostKeys: string | null }> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "clawpad-known-hosts-"));
+  try {
+    const file = path.join(dir, "known_hosts");
+    fs.writeFileSync(file, target.knownHosts ? `${target.knownHosts.trim()}\n` : "", { mode: 0o600 });
+    const options = [
+      "-o",
+      `StrictHostKeyChecking=${target.knownHosts ? "yes" : "accept-new"}`,
+      "-o",
+      `UserKnownHostsFile=${file}`,
+      "-o",
+      "BatchMode=yes",
+    ];
+    if (privateKeyPath) {
+      options.push("-i", privateKeyPath, "-o", "IdentitiesOnly=yes");
+    }
+    const result = await connect(options);
+    const recorded = target.knownHosts ? "" : fs.readFileSync(file, "utf8").trim();
+    return { result, recordedHostKeys: recorded || null };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// OpenSSH-style `SHA256:…` fingerprints of the keys in known_hosts lines.
+export function hostKeyFingerprints(knownHosts: string): string[] {
+  return knownHosts
+    .split("\n")
+    .map((line) => line.trim().split(/\s+/))
+    .filter((fields) => fields.length >= 3 && !fields[0].startsWith("#"))
+    .map((fields) => {
+      const digest = crypto.createHash("sha256").update(Buffer.from(fields[2], "base64")).digest("base64");
+      return `${fields[1]} SHA256:${digest.replace(/=+$/, "")}`;
+    });
+}
+
+function sshArgv(target: SshTarget, options: string[]): string[] {
+  return ["ssh", ...options, "-p", String(target.port), `${target.user}@${target.host}`];
+}
+
+// Non-root users (typical on BYO machines) need passwordless sudo; `-n` fails fast instead of prompting.
+export function asRoot(target: SshTarget, command: string): string {
+  return target.user === "root" ? command : `sudo -n ${command}`;
+}
+
+// `recordedHostKeys` is set when an unpinned target accepted a key on this connection.
+export async function runRemote(
+  target: SshTarget,
+  command: string,
+  privateKeyPath?: string,
+  opts?: Pick<RunOptions, "onLine">,
+): Promise<RunResult & { recordedHostKeys: string | null }> {
+  const { result, recordedHostKeys } = await withSshOptions(target, privateKeyPath, (options) =>
+    run([...sshArgv(target, options), command], opts),
+  );
+  return { ...result, recordedHostKeys };
+}
+
+// Resolves with the host keys the successful connection recorded (null for pinned targets).
+export async function waitForSsh(target: SshTarget, privateKeyPath?: string, timeoutMs = 180_000) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const { result, recordedHostKeys } = await withSshOptions(target, privateKeyPath, (options) =>
+      run([...sshArgv(target, [...options, "-o", "ConnectTimeout=5"]), "true"]),
+    );
+    if (result.code === 0) return recordedHostKeys;
+    await new Promise((resolve) => setTimeout(resolve, 2_500));
+  }
+  throw new Error(`Timeout waiting for SSH on ${target.host}:${target.port}`);
+}
+
+export async function copyToRemote(
+  target: SshTarget,
+  localPath: string,
+  remotePath: string,
+  privateKeyPath?: string,
+) {
+  await withSshOptions(target, privateKeyPath, (options) =>
+    runOrThrow(["scp", ...options, "-P", String(target.port), localPath, `${target.user}@${target.host}:${remotePath}`]),
+  );
+}
+
+// Scripts land in the login user's home; for root that is /root as before.
+export function remoteScriptPath(target: SshTarget, fileName: string): string {
+  return target.user === "root" ? `/root/${fileName}` : fileName;
+}
+
+export async function detectTailnetUrl(target: SshTarget, privateKeyPath?: string): Promise<string | null> {
+  for (let attempt = 0; attempt < 12; attempt++) {
+    const res = await runRemote(target, "tailscale status --json", privateKeyPath);
+    if (res.code !== 0) {
+      await new Promise((resolve) => setTimeout(resolve, 2_500));
+      continue;
+    }
+
+    try {
+      const parsed = JSON.parse(res.stdout) as any;
+      const self = parsed?.Self;
+      const dns = typeof self?.DNSName === "string" ? String(self.DNSName) : "";
+      const host = dns ? dns.replace(/\.$/, "") : Array.isArray(self?.TailscaleIPs) ? self.TailscaleIPs[0] : null;
+      if (host) {
+        return `https://${host}/`;
+      }
+    } catch {
+      // retry
+    }
+    await new Promise((resolve) => setTimeout(resolve, 2_500));
+  }
+  return null;
+}
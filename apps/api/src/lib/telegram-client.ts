@@ -0,0 +1,112 @@
+const DEFAULT_BASE_URL = "https://api.telegram.org";
+
+export type TelegramBot = {
+  id: number;
+  is_bot: boolean;
+  first_name: string;
+  username?: string;
+  can_join_groups?: boolean;
+  can_read_all_group_messages?: boolean;
+};
+
+type TelegramRawChat = {
+  id: number;
+  type: "private" | "group" | "supergroup" | "channel";
+  title?: string;
+  username?: string;
+  first_name?: string;
+  last_name?: string;
+};
+
+type TelegramUpdate = {
+  update_id: number;
+  message?: { chat: TelegramRawChat; date: number };
+  edited_message?: { chat: TelegramRawChat; date: number };
+  channel_post?: { chat: TelegramRawChat; date: number };
+  my_chat_member?: { chat: TelegramRawChat; date: number };
+};
+
+// A chat the bot has seen recently, as offered for the allowlist. Ids are strings, as in the deployment config
+// (group and channel ids are negative).
+export type TelegramChat = {
+  id: string;
+  type: TelegramRawChat["type"];
+  name: string;
+  lastSeenAt: string;
+};
+
+type TelegramResponse<T> = { ok: true; result: T } | { ok: false; error_code?: number; description?: string };
+
+function chatName(chat: TelegramRawChat): string {
+  if (chat.title) return chat.title;
+  const person = [chat.first_name, chat.last_name].filter(Boolean).join(" ");
+  return person || (chat.username ? `@${chat.username}` : String(chat.id));
+}
+
+export class TelegramClient {
+  readonly #token: string;
+  readonly #baseUrl: string;
+
+  constructor(token: string, opts?: { baseUrl?: string }) {
+    if (!token) {
+      throw new Error("Missing Telegram bot token");
+    }
+    this.#token = token;
+    this.#baseUrl = String(opts?.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  }
+
+  async #call<T>(method: string, params?: Record<string, unknown>): Promise<T> {
+    const res = await fetch(`${this.#baseUrl}/bot${this.#token}/${method}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(params ?? {}),
+    });
+
+    const text = await res.text();
+    let data: TelegramResponse<T> | null = null;
+    try {
+      data = text ? (JSON.parse(text) as TelegramResponse<T>) : null;
+    } catch {
+      // Non-JSON bodies (proxies, outages) are reported by status below.
+    }
+
+    if (!res.ok || !data?.ok) {
+      const description = data && !data.ok ? data.description : undefined;
+      const error = new Error(description || `Telegram API error (${res.status})`);
+      (error as any).statusCode = (data && !data.ok && data.error_code) || res.status;
+      (error as any).details = data;
+      throw error;
+    }
+    return data.result;
+  }
+
+  async getMe(): Promise<TelegramBot> {
+    return await this.#call<TelegramBot>("getMe");
+  }
+
+  // Chats from the updates Telegram still holds for the bot (the last 24 hours), newest first. Without an
+  // offset getUpdates confirms nothing, so a gateway polling with the same token still receives them. Fails
+  // with 409 while the bot has a webhook or another getUpdates call is in flight.
+  async recentChats(): Promise<TelegramChat[]> {
+    const updates = await this.#call<TelegramUpdate[]>("getUpdates", {
+      limit: 100,
+      timeout: 0,
+      allowed_updates: ["message", "edited_message", "channel_post", "my_chat_member"],
+    });
+
+    const chats = new Map<string, TelegramChat>();
+    for (const update of [...updates].reverse()) {
+      const entry = update.message ?? update.edited_message ?? update.channel_post ?? update.my_chat_member;
+      if (!entry) continue;
+      const id = String(entry.chat.id);
+      if (chats.has(id)) continue;
+      chats.set(id, {
+        id,
+        type: entry.chat.type,
+        name: chatName(entry.chat),
+        lastSeenAt: new Date(entry.date * 1000).toISOString(),
+      });
+    }
+    return [...chats.values()];
+  }
+}
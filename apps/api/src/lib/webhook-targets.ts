@@ -0,0 +1,94 @@
+import dns from "node:dns";
+import net from "node:net";
+
+// Addresses a webhook may not reach: loopback, "this network", private (RFC 1918), carrier-grade NAT (which
+// includes tailnet addresses), link-local (the 169.254.169.254 cloud metadata service), benchmarking, multicast
+// and reserved ranges, plus their IPv6 counterparts. IPv4-mapped IPv6 addresses are checked as IPv4.
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return PRIVATE_ADDRESSES.check(mapped[1], "ipv4");
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+function targetError(message: string): Error {
+  const error = new Error(message);
+  (error as any).statusCode = 400;
+  return error;
+}
+
+function urlHostname(url: string): string {
+  // IPv6 literals keep their brackets in URL.hostname.
+  return new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+}
+
+// Rejects URLs whose host is, or currently resolves to, an address from the list above. Names that don't resolve
+// are let through; the dispatcher checks again on every connection.
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  const hostname = urlHostname(url);
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+    throw targetError("url must not point at localhost");
+  }
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : await dns.promises
+        .lookup(hostname, { all: true, verbatim: true })
+        .then((results) => results.map((result) => result.address))
+        .catch(() => []);
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) {
+    throw targetError(`url resolves to a private or reserved address (${blocked})`);
+  }
+}
+
+// `lookup` for the dispatcher's connections: the same check, applied to the addresses the socket actually
+// connects to, so a name that changes after the endpoint was created can't be pointed at internal services.
+export const publicAddressLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, results) => {
+    if (error) return callback(error, "", 0);
+    const addresses = results as dns.LookupAddress[];
+    const blocked = addresses.find((result) => isPrivateAddress(result.address));
+    if (blocked) {
+      return callback(targetError(`webhook host resolves to a private or reserved address (${blocked.address})`), "", 0);
+    }
+    if (options.all) {
+      return (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// Connections to IP literals skip `lookup`, so those are checked up front.
+export function assertPublicWebhookHost(url: string): void {
+  const hostname = urlHostname(url);
+  if (net.isIP(hostname) && isPrivateAddress(hostname)) {
+    throw targetError(`webhook host is a private or reserved address (${hostname})`);
+  }
+}
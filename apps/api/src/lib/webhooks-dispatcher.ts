@@ -0,0 +1,215 @@
+import crypto from "node:crypto";
+import http from "node:http";
+import https from "node:https";
+import { SecretBox } from "./crypto.js";
+import { assertPublicWebhookHost, publicAddressLookup } from "./webhook-targets.js";
+import {
+  WebhookDeliveryInternal,
+  WebhookEventSource,
+  WEBHOOK_RESPONSE_EXCERPT_MAX_LENGTH,
+  WebhookSourceEvent,
+  WebhooksStore,
+} from "./webhooks-store.js";
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-clawpad-signature";
+
+const DISPATCH_BATCH_SIZE = 10;
+const FAN_OUT_BATCH_SIZE = 200;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">`, keyed with the endpoint secret. Receivers
+// recompute v1 over the raw body and reject stale timestamps to stop replays.
+export function signWebhookPayload(secret: string, body: string, timestampSeconds: number): string {
+  const signature = crypto.createHmac("sha256", secret).update(`${timestampSeconds}.${body}`).digest("hex");
+  return `t=${timestampSeconds},v1=${signature}`;
+}
+
+// A table of events the dispatcher turns into deliveries, read by id from its cursor in the webhooks store.
+export type WebhookEventFeed = {
+  source: WebhookEventSource;
+  lastEventId: () => number;
+  // Events after `afterId`, oldest first.
+  eventsAfter: (afterId: number, limit: number) => WebhookSourceEvent[];
+};
+
+export type WebhooksDispatcherOptions = {
+  store: WebhooksStore;
+  feeds: WebhookEventFeed[];
+  secretBox: SecretBox;
+  intervalMs: number;
+  timeoutMs: number;
+  maxAttempts: number;
+  retryBaseMs: number;
+  // Lets deliveries reach loopback and private addresses (local receivers in development and tests).
+  allowPrivateTargets?: boolean;
+};
+
+// POSTs without following redirects and reads at most `maxBodyLength` characters of the response.
+function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  opts: { signal: AbortSignal; maxBodyLength: number; allowPrivateTargets: boolean },
+): Promise<{ status: number; body: string }> {
+  if (!opts.allowPrivateTargets) {
+    assertPublicWebhookHost(url);
+  }
+  const client = new URL(url).protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "content-length": String(Buffer.byteLength(body)) },
+        signal: opts.signal,
+        ...(opts.allowPrivateTargets ? {} : { lookup: publicAddressLookup }),
+      },
+      (res) => {
+        let text = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          if (text.length < opts.maxBodyLength) text += chunk;
+        });
+        res.on("end", () => resolve({ status: res.statusCode ?? 0, body: text.slice(0, opts.maxBodyLength) }));
+        res.on("error", reject);
+        res.on("close", () => reject(new Error("connection closed before the response ended")));
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// Fans new events out into the webhook outbox, then drains it: POSTs each due delivery, records the attempt and
+// schedules retries with exponential backoff (retryBaseMs, 2x, 4x, … capped at 6h) until maxAttempts.
+export class WebhooksDispatcher {
+  readonly #store: WebhooksStore;
+  readonly #feeds: WebhookEventFeed[];
+  readonly #secretBox: SecretBox;
+  readonly #intervalMs: number;
+  readonly #timeoutMs: number;
+  readonly #maxAttempts: number;
+  readonly #retryBaseMs: number;
+  readonly #allowPrivateTargets: boolean;
+  #timer: NodeJS.Timeout | null = null;
+  #tickRunning = false;
+
+  constructor(options: WebhooksDispatcherOptions) {
+    this.#store = options.store;
+    this.#feeds = options.feeds;
+    this.#secretBox = options.secretBox;
+    this.#intervalMs = options.intervalMs;
+    this.#timeoutMs = options.timeoutMs;
+    this.#maxAttempts = Math.max(1, options.maxAttempts);
+    this.#retryBaseMs = options.retryBaseMs;
+    this.#allowPrivateTargets = options.allowPrivateTargets ?? false;
+  }
+
+  start() {
+    if (this.#timer) return;
+    for (const feed of this.#feeds) {
+      this.#store.initEventCursor(feed.source, feed.lastEventId());
+    }
+    this.#timer = setInterval(() => {
+      void this.tick();
+    }, this.#intervalMs);
+    this.#timer.unref();
+    void this.tick();
+  }
+
+  stop() {
+    if (!this.#timer) return;
+    clearInterval(this.#timer);
+    this.#timer = null;
+  }
+
+  // Runs a tick soon after an event was appended, outside whatever the caller is in the middle of.
+  nudge() {
+    setImmediate(() => void this.tick());
+  }
+
+  async tick() {
+    if (this.#tickRunning) return;
+    this.#tickRunning = true;
+    try {
+      this.#fanOut();
+      // A claim outlives one request by a wide margin, so a slow endpoint is never sent the same delivery twice.
+      const deliveries = this.#store.leaseDueDeliveries(this.#timeoutMs * 2, DISPATCH_BATCH_SIZE);
+      await Promise.all(deliveries.map((delivery) => this.#deliver(delivery)));
+    } catch (error) {
+      console.error("Webhook dispatch tick failed", error);
+    } finally {
+      this.#tickRunning = false;
+    }
+  }
+
+  // Catches every feed up from its cursor. Events are committed before they are read here, so nothing depends on
+  // the append hooks having run.
+  #fanOut() {
+    for (const feed of this.#feeds) {
+      for (;;) {
+        const cursor = this.#store.getEventCursor(feed.source);
+        if (cursor === null) break;
+        const events = feed.eventsAfter(cursor, FAN_OUT_BATCH_SIZE);
+        this.#store.enqueueSourceEvents(feed.source, events, () => crypto.randomUUID());
+        if (events.length < FAN_OUT_BATCH_SIZE) break;
+      }
+    }
+  }
+
+  #retryAt(attempts: number): string | null {
+    if (attempts >= this.#maxAttempts) return null;
+    const delayMs = Math.min(this.#retryBaseMs * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+    return new Date(Date.now() + delayMs).toISOString();
+  }
+
+  async #deliver(delivery: WebhookDeliveryInternal) {
+    const startedAt = Date.now();
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    let responseExcerpt: string | null = null;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.#timeoutMs);
+    timer.unref?.();
+    try {
+      const { secret } = this.#secretBox.decryptObject<{ secret: string }>(delivery.endpointSecretEncrypted);
+      const response = await postWebhook(
+        delivery.endpointUrl,
+        {
+          "content-type": "application/json",
+          "user-agent": "claw-launchpad-webhooks/1",
+          "x-clawpad-event": delivery.eventType,
+          "x-clawpad-event-id": delivery.eventId,
+          "x-clawpad-delivery": delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, delivery.payloadJson, Math.floor(Date.now() / 1000)),
+        },
+        delivery.payloadJson,
+        {
+          signal: controller.signal,
+          maxBodyLength: WEBHOOK_RESPONSE_EXCERPT_MAX_LENGTH,
+          allowPrivateTargets: this.#allowPrivateTargets,
+        },
+      );
+      statusCode = response.status;
+      responseExcerpt = response.body || null;
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `HTTP ${statusCode}`;
+      }
+    } catch (err) {
+      error = controller.signal.aborted
+        ? `timed out after ${this.#timeoutMs}ms`
+        : err instanceof Error
+          ? err.message
+          : String(err);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    this.#store.recordDeliveryAttempt(
+      delivery.id,
+      { statusCode, error, responseExcerpt, durationMs: Date.now() - startedAt },
+      this.#retryAt(delivery.attempts + 1),
+    );
+  }
+}
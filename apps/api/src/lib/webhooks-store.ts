@@ -0,0 +1,595 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+
+export type WebhookEventSource = "deployment" | "order";
+export type WebhookDeliveryStatus = "pending" | "delivering" | "succeeded" | "failed";
+
+type WebhookEndpointRow = {
+  id: string;
+  owner_user_id: string;
+  url: string;
+  description: string | null;
+  event_types_json: string;
+  secret_encrypted: string;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+};
+
+type WebhookDeliveryRow = {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: string;
+  event_source: WebhookEventSource;
+  payload_json: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  redelivery_of: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type WebhookDeliveryAttemptRow = {
+  id: number;
+  delivery_id: string;
+  attempt: number;
+  status_code: number | null;
+  error: string | null;
+  response_excerpt: string | null;
+  duration_ms: number;
+  created_at: string;
+};
+
+export type WebhookEndpointPublic = {
+  id: string;
+  ownerUserId: string;
+  url: string;
+  description: string | null;
+  // Exact event types, `<prefix>.*` or `*`.
+  eventTypes: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WebhookDeliveryPublic = {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: string;
+  eventSource: WebhookEventSource;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  redeliveryOf: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WebhookDeliveryInternal = WebhookDeliveryPublic & {
+  payloadJson: string;
+  endpointUrl: string;
+  endpointSecretEncrypted: string;
+};
+
+export type WebhookDeliveryAttempt = {
+  id: number;
+  deliveryId: string;
+  attempt: number;
+  statusCode: number | null;
+  error: string | null;
+  responseExcerpt: string | null;
+  durationMs: number;
+  createdAt: string;
+};
+
+// What gets POSTed to endpoints; `id` is stable across retries and redeliveries so receivers can dedupe.
+export type WebhookEnvelope = {
+  id: string;
+  type: string;
+  createdAt: string;
+  data: Record<string, unknown>;
+};
+
+// One source event ready for fan-out; `ownerUserId` is null when its deployment or order is gone.
+export type WebhookSourceEvent = {
+  eventId: number;
+  ownerUserId: string | null;
+  envelope: WebhookEnvelope;
+};
+
+export const WEBHOOK_RESPONSE_EXCERPT_MAX_LENGTH = 500;
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function webhookEventMatches(patterns: string[], eventType: string): boolean {
+  return patterns.some((pattern) => {
+    if (pattern === "*") return true;
+    if (pattern.endsWith(".*")) return eventType.startsWith(pattern.slice(0, -1));
+    return pattern === eventType;
+  });
+}
+
+export class WebhooksStore {
+  readonly #db: Database.Database;
+
+  constructor(dbPath: string) {
+    const absolutePath = path.resolve(dbPath);
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+    this.#db = new Database(absolutePath);
+    this.#db.pragma("journal_mode = WAL");
+    this.#db.pragma("foreign_keys = ON");
+    this.#init();
+  }
+
+  close() {
+    this.#db.close();
+  }
+
+  #init() {
+    this.#db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_endpoints (
+        id TEXT PRIMARY KEY,
+        owner_user_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        description TEXT NULL,
+        event_types_json TEXT NOT NULL,
+        secret_encrypted TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        endpoint_id TEXT NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+        event_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        event_source TEXT NOT NULL CHECK(event_source IN ('deployment','order')),
+        payload_json TEXT NOT NULL,
+        status TEXT NOT NULL CHECK(status IN ('pending','delivering','succeeded','failed')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TEXT NULL,
+        last_attempt_at TEXT NULL,
+        last_status_code INTEGER NULL,
+        last_error TEXT NULL,
+        delivered_at TEXT NULL,
+        redelivery_of TEXT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS webhook_delivery_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        delivery_id TEXT NOT NULL REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+        attempt INTEGER NOT NULL,
+        status_code INTEGER NULL,
+        error TEXT NULL,
+        response_excerpt TEXT NULL,
+        duration_ms INTEGER NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS webhook_event_cursors (
+        source TEXT PRIMARY KEY CHECK(source IN ('deployment','order')),
+        last_event_id INTEGER NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_owner ON webhook_endpoints(owner_user_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_webhook_delivery_attempts_delivery ON webhook_delivery_attempts(delivery_id, id);
+    `);
+  }
+
+  #toEndpoint(row: WebhookEndpointRow): WebhookEndpointPublic {
+    return {
+      id: row.id,
+      ownerUserId: row.owner_user_id,
+      url: row.url,
+      description: row.description,
+      eventTypes: parseJson<string[]>(row.event_types_json, []),
+      enabled: row.enabled === 1,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  #toDelivery(row: WebhookDeliveryRow): WebhookDeliveryPublic {
+    return {
+      id: row.id,
+      endpointId: row.endpoint_id,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      eventSource: row.event_source,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastAttemptAt: row.last_attempt_at,
+      lastStatusCode: row.last_status_code,
+      lastError: row.last_error,
+      deliveredAt: row.delivered_at,
+      redeliveryOf: row.redelivery_of,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  #getEndpointRowForOwner(ownerUserId: string, id: string): WebhookEndpointRow | null {
+    const row = this.#db
+      .prepare(
+        `
+      SELECT * FROM webhook_endpoints WHERE owner_user_id = ? AND id = ?
+    `,
+      )
+      .get(ownerUserId, id) as WebhookEndpointRow | undefined;
+    return row ?? null;
+  }
+
+  createEndpoint(input: {
+    id: string;
+    ownerUserId: string;
+    url: string;
+    description?: string;
+    eventTypes: string[];
+    secretEncrypted: string;
+  }): WebhookEndpointPublic {
+    const createdAt = nowIso();
+    const row = this.#db
+      .prepare(
+        `
+      INSERT INTO webhook_endpoints (
+        id, owner_user_id, url, description, event_types_json, secret_encrypted, enabled, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?)
+      RETURNING *
+    `,
+      )
+      .get(
+        input.id,
+        input.ownerUserId,
+        input.url,
+        input.description ?? null,
+        JSON.stringify(input.eventTypes),
+        input.secretEncrypted,
+        createdAt,
+        createdAt,
+      ) as WebhookEndpointRow;
+    return this.#toEndpoint(row);
+  }
+
+  getEndpointForOwner(ownerUserId: string, id: string): WebhookEndpointPublic | null {
+    const row = this.#getEndpointRowForOwner(ownerUserId, id);
+    return row ? this.#toEndpoint(row) : null;
+  }
+
+  listEndpointsForOwner(ownerUserId: string, limit = 50, offset = 0): WebhookEndpointPublic[] {
+    const rows = this.#db
+      .prepare(
+        `
+      SELECT * FROM webhook_endpoints
+      WHERE owner_user_id = ?
+      ORDER BY created_at DESC
+      LIMIT ? OFFSET ?
+    `,
+      )
+      .all(ownerUserId, limit, offset) as WebhookEndpointRow[];
+    return rows.map((row) => this.#toEndpoint(row));
+  }
+
+  updateEndpoint(
+    ownerUserId: string,
+    id: string,
+    patch: { url?: string; description?: string | null; eventTypes?: string[]; enabled?: boolean },
+  ): WebhookEndpointPublic | null {
+    const existing = this.#getEndpointRowForOwner(ownerUserId, id);
+    if (!existing) return null;
+    const row = this.#db
+      .prepare(
+        `
+      UPDATE webhook_endpoints
+      SET url = ?, description = ?, event_types_json = ?, enabled = ?, updated_at = ?
+      WHERE id = ?
+      RETURNING *
+    `,
+      )
+      .get(
+        patch.url ?? existing.url,
+        patch.description !== undefined ? patch.description : existing.description,
+        patch.eventTypes ? JSON.stringify(patch.eventTypes) : existing.event_types_json,
+        patch.enabled !== undefined ? (patch.enabled ? 1 : 0) : existing.enabled,
+        nowIso(),
+        id,
+      ) as WebhookEndpointRow;
+    return this.#toEndpoint(row);
+  }
+
+  // Also drops the endpoint's delivery log.
+  deleteEndpoint(ownerUserId: string, id: string): boolean {
+    const result = this.#db
+      .prepare(
+        `
+      DELETE FROM webhook_endpoints WHERE owner_user_id = ? AND id = ?
+    `,
+      )
+      .run(ownerUserId, id);
+    return result.changes > 0;
+  }
+
+  // Outbox write: one pending delivery per enabled endpoint of the owner subscribed to the event type.
+  enqueueEvent(input: {
+    ownerUserId: string;
+    source: WebhookEventSource;
+    envelope: WebhookEnvelope;
+    newId: () => string;
+  }): WebhookDeliveryPublic[] {
+    const endpoints = this.#db
+      .prepare(
+        `
+      SELECT * FROM webhook_endpoints WHERE owner_user_id = ? AND enabled = 1
+    `,
+      )
+      .all(input.ownerUserId) as WebhookEndpointRow[];
+    const matching = endpoints.filter((endpoint) =>
+      webhookEventMatches(parseJson<string[]>(endpoint.event_types_json, []), input.envelope.type),
+    );
+    if (matching.length === 0) return [];
+
+    const createdAt = nowIso();
+    const payloadJson = JSON.stringify(input.envelope);
+    const insert = this.#db.prepare(
+      `
+      INSERT INTO webhook_deliveries (
+        id, endpoint_id, event_id, event_type, event_source, payload_json, status, attempts, next_attempt_at,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?, ?)
+      RETURNING *
+    `,
+    );
+    const tx = this.#db.transaction(() =>
+      matching.map(
+        (endpoint) =>
+          insert.get(
+            input.newId(),
+            endpoint.id,
+            input.envelope.id,
+            input.envelope.type,
+            input.source,
+            payloadJson,
+            createdAt,
+            createdAt,
+            createdAt,
+          ) as WebhookDeliveryRow,
+      ),
+    );
+    return tx().map((row) => this.#toDelivery(row));
+  }
+
+  // Where fan-out of a source's events (deployment_events / billing_order_events ids) has got to. Created at the
+  // source's current last id the first time, so enabling webhooks doesn't replay history.
+  initEventCursor(source: WebhookEventSource, lastEventId: number) {
+    this.#db
+      .prepare(
+        `
+      INSERT INTO webhook_event_cursors (source, last_event_id, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(source) DO NOTHING
+    `,
+      )
+      .run(source, lastEventId, nowIso());
+  }
+
+  getEventCursor(source: WebhookEventSource): number | null {
+    const row = this.#db.prepare(`SELECT last_event_id FROM webhook_event_cursors WHERE source = ?`).get(source) as
+      | { last_event_id: number }
+      | undefined;
+    return row?.last_event_id ?? null;
+  }
+
+  // Queues the deliveries for a batch of source events and moves the cursor past them in one transaction, so a
+  // crash either keeps both or neither and the next fan-out picks the batch up again.
+  enqueueSourceEvents(source: WebhookEventSource, events: WebhookSourceEvent[], newId: () => string): number {
+    if (events.length === 0) return 0;
+    const tx = this.#db.transaction(() => {
+      let queued = 0;
+      for (const event of events) {
+        if (!event.ownerUserId) continue;
+        queued += this.enqueueEvent({ ownerUserId: event.ownerUserId, source, envelope: event.envelope, newId }).length;
+      }
+      this.#db
+        .prepare(`UPDATE webhook_event_cursors SET last_event_id = ?, updated_at = ? WHERE source = ?`)
+        .run(events[events.length - 1].eventId, nowIso(), source);
+      return queued;
+    });
+    return tx();
+  }
+
+  listDeliveriesForEndpoint(endpointId: string, limit = 50, offset = 0): WebhookDeliveryPublic[] {
+    const rows = this.#db
+      .prepare(
+        `
+      SELECT * FROM webhook_deliveries
+      WHERE endpoint_id = ?
+      ORDER BY created_at DESC, rowid DESC
+      LIMIT ? OFFSET ?
+    `,
+      )
+      .all(endpointId, limit, offset) as WebhookDeliveryRow[];
+    return rows.map((row) => this.#toDelivery(row));
+  }
+
+  getDelivery(endpointId: string, id: string): WebhookDeliveryPublic | null {
+    const row = this.#db
+      .prepare(
+        `
+      SELECT * FROM webhook_deliveries WHERE endpoint_id = ? AND id = ?
+    `,
+      )
+      .get(endpointId, id) as WebhookDeliveryRow | undefined;
+    return row ? this.#toDelivery(row) : null;
+  }
+
+  listDeliveryAttempts(deliveryId: string): WebhookDeliveryAttempt[] {
+    const rows = this.#db
+      .prepare(
+        `
+      SELECT * FROM webhook_delivery_attempts
+      WHERE delivery_id = ?
+      ORDER BY id ASC
+    `,
+      )
+      .all(deliveryId) as WebhookDeliveryAttemptRow[];
+    return rows.map((row) => ({
+      id: row.id,
+      deliveryId: row.delivery_id,
+      attempt: row.attempt,
+      statusCode: row.status_code,
+      error: row.error,
+      responseExcerpt: row.response_excerpt,
+      durationMs: row.duration_ms,
+      createdAt: row.created_at,
+    }));
+  }
+
+  // Queues the same envelope again as a new delivery; the original keeps its history.
+  redeliver(endpointId: string, id: string, newId: string): WebhookDeliveryPublic | null {
+    const createdAt = nowIso();
+    const row = this.#db
+      .prepare(
+        `
+      INSERT INTO webhook_deliveries (
+        id, endpoint_id, event_id, event_type, event_source, payload_json, status, attempts, next_attempt_at,
+        redelivery_of, created_at, updated_at
+      )
+      SELECT ?, endpoint_id, event_id, event_type, event_source, payload_json, 'pending', 0, ?, id, ?, ?
+      FROM webhook_deliveries
+      WHERE endpoint_id = ? AND id = ?
+      RETURNING *
+    `,
+      )
+      .get(newId, createdAt, createdAt, createdAt, endpointId, id) as WebhookDeliveryRow | undefined;
+    return row ? this.#toDelivery(row) : null;
+  }
+
+  // Claims due deliveries for one attempt. `next_attempt_at` doubles as the claim's expiry, so deliveries
+  // stuck in `delivering` after a crash are picked up again once `leaseMs` has passed.
+  leaseDueDeliveries(leaseMs: number, limit = 10, nowMs = Date.now()): WebhookDeliveryInternal[] {
+    const now = new Date(nowMs).toISOString();
+    const leaseUntil = new Date(nowMs + leaseMs).toISOString();
+    const tx = this.#db.transaction(() => {
+      const rows = this.#db
+        .prepare(
+          `
+        SELECT d.*, e.url AS endpoint_url, e.secret_encrypted AS endpoint_secret_encrypted
+        FROM webhook_deliveries d
+        JOIN webhook_endpoints e ON e.id = d.endpoint_id
+        WHERE d.status IN ('pending','delivering')
+          AND d.next_attempt_at <= ?
+          AND e.enabled = 1
+        ORDER BY d.next_attempt_at ASC
+        LIMIT ?
+      `,
+        )
+        .all(now, limit) as Array<WebhookDeliveryRow & { endpoint_url: string; endpoint_secret_encrypted: string }>;
+      const claim = this.#db.prepare(
+        `
+        UPDATE webhook_deliveries
+        SET status = 'delivering', next_attempt_at = ?, updated_at = ?
+        WHERE id = ?
+      `,
+      );
+      for (const row of rows) {
+        claim.run(leaseUntil, now, row.id);
+      }
+      return rows;
+    });
+    return tx().map((row) => ({
+      ...this.#toDelivery({ ...row, status: "delivering", next_attempt_at: leaseUntil }),
+      payloadJson: row.payload_json,
+      endpointUrl: row.endpoint_url,
+      endpointSecretEncrypted: row.endpoint_secret_encrypted,
+    }));
+  }
+
+  // Records one attempt. A 2xx response succeeds; anything else is retried at `retryAt`, or marks the delivery
+  // failed when `retryAt` is null (attempts exhausted).
+  recordDeliveryAttempt(
+    id: string,
+    result: { statusCode: number | null; error: string | null; responseExcerpt: string | null; durationMs: number },
+    retryAt: string | null,
+  ): WebhookDeliveryPublic | null {
+    const attemptedAt = nowIso();
+    const succeeded = result.statusCode !== null && result.statusCode >= 200 && result.statusCode < 300;
+    const tx = this.#db.transaction(() => {
+      const row = this.#db
+        .prepare(
+          `
+        UPDATE webhook_deliveries
+        SET
+          status = ?,
+          attempts = attempts + 1,
+          next_attempt_at = ?,
+          last_attempt_at = ?,
+          last_status_code = ?,
+          last_error = ?,
+          delivered_at = ?,
+          updated_at = ?
+        WHERE id = ? AND status = 'delivering'
+        RETURNING *
+      `,
+        )
+        .get(
+          succeeded ? "succeeded" : retryAt ? "pending" : "failed",
+          succeeded ? null : retryAt,
+          attemptedAt,
+          result.statusCode,
+          succeeded ? null : result.error,
+          succeeded ? attemptedAt : null,
+          attemptedAt,
+          id,
+        ) as WebhookDeliveryRow | undefined;
+      if (!row) return undefined;
+      this.#db
+        .prepare(
+          `
+        INSERT INTO webhook_delivery_attempts (
+          delivery_id, attempt, status_code, error, response_excerpt, duration_ms, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `,
+        )
+        .run(
+          id,
+          row.attempts,
+          result.statusCode,
+          result.error,
+          result.responseExcerpt?.slice(0, WEBHOOK_RESPONSE_EXCERPT_MAX_LENGTH) ?? null,
+          Math.round(result.durationMs),
+          attemptedAt,
+        );
+      return row;
+    });
+    const row = tx();
+    return row ? this.#toDelivery(row) : null;
+  }
+}
@@ -1,6 +1,7 @@
 import { serve } from "@hono/node-server";
 import { Hono, type MiddlewareHandler } from "hono";
 import { cors } from "hono/cors";
+import { streamSSE } from "hono/streaming";
 import { z } from "zod";
 import crypto from "node:crypto";
 import fs from "node:fs";
@@ -9,18 +10,44 @@ import type Stripe from "stripe";
 import { SecretBox } from "./lib/crypto.js";
 import { createAuthState } from "./lib/auth.js";
 import {
+  ACCESS_MODES,
   AuthChoice,
+  DEPLOYMENT_PROVIDERS,
+  DEPLOYMENT_STATUSES,
   DeploymentConfig,
+  DeploymentConfigChange,
+  DeploymentEvent,
+  DeploymentInternal,
+  DeploymentProvider,
+  DeploymentPublic,
   DeploymentSecrets,
+  DeploymentStatus,
   DeploymentsStore,
+  DiscordGuild,
+  ENROLLMENT_LEASE_OWNER,
+  ORPHANED_RESOURCE_STATUSES,
+  OrphanedResourceStatus,
 } from "./lib/deployments-store.js";
-import { DeploymentsWorker } from "./lib/deployments-worker.js";
+import { deploymentSshAddress, deploymentSshTarget } from "./lib/ssh.js";
+import { DeploymentsWorker, providerApiToken } from "./lib/deployments-worker.js";
+import { DeploymentsMonitor } from "./lib/deployments-monitor.js";
+import { OrphanReconciler } from "./lib/orphan-reconciler.js";
+import { DeploymentEventsHub, type DeploymentStreamMessage } from "./lib/deployment-events-hub.js";
+import { buildDeploymentBootstrap, publicDomainUrl } from "./lib/deployment-bootstrap.js";
+import { buildEnrollmentInstallScript } from "./lib/enrollment-script.js";
+import { generateGatewayToken, rotateGatewayToken } from "./lib/gateway-token.js";
+import { CLOUD_PROVIDER_DEFAULTS, providerAccountFingerprint } from "./lib/cloud-provider.js";
+import { isOpenclawVersion, OPENCLAW_VERSION_PATTERN } from "./lib/openclaw-version.js";
 import { ConvexMirrorClient } from "./lib/convex-mirror.js";
 import { BillingStore } from "./lib/billing-store.js";
 import { loadBillingPlans, plansMap } from "./lib/billing-plans.js";
 import { StripeBillingClient } from "./lib/stripe-billing.js";
-
-const DISCORD_BASE_URL = "https://discord.com/api/v10";
+import { WebhookEventSource, WebhookSourceEvent, WebhooksStore } from "./lib/webhooks-store.js";
+import { WebhooksDispatcher } from "./lib/webhooks-dispatcher.js";
+import { assertPublicWebhookUrl } from "./lib/webhook-targets.js";
+import { TelegramChat, TelegramClient } from "./lib/telegram-client.js";
+import { SlackClient } from "./lib/slack-client.js";
+import { DISCORD_API_BASE_URL, discordRequest, runDiscordPreflight } from "./lib/discord-api.js";
 
 function toRfc1123Label(value: string): string {
   const normalized = String(value || "")
@@ -80,6 +107,10 @@ function requestHash(value: unknown): string {
   return crypto.createHash("sha256").update(stableStringify(value)).digest("hex");
 }
 
+function sha256Hex(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
 function asStringId(value: string | { id?: string } | null | undefined): string | null {
   if (!value) return null;
   if (typeof value === "string") return value;
@@ -87,44 +118,72 @@ function asStringId(value: string | { id?: string } | null | undefined): string
   return null;
 }
 
-async function discordRequest<T>(token: string, path: string): Promise<{ ok: true; data: T } | { ok: false; status: number; data: unknown }> {
-  const res = await fetch(`${DISCORD_BASE_URL}${path}`, {
-    headers: {
-      authorization: `Bot ${token}`,
-    },
-  });
-
-  const text = await res.text();
-  let data: unknown = null;
-  if (text) {
-    try {
-      data = JSON.parse(text);
-    } catch {
-      data = text;
-    }
-  }
-
-  if (!res.ok) {
-    return { ok: false, status: res.status, data };
-  }
-
-  return { ok: true, data: data as T };
-}
-
 const deploymentsDbPath =
   process.env.DEPLOYMENTS_DB_PATH || path.join(process.cwd(), ".clawpad", "deployments.db");
 const billingDbPath =
   process.env.BILLING_DB_PATH || path.join(process.cwd(), ".clawpad", "billing.db");
+const webhooksDbPath =
+  process.env.WEBHOOKS_DB_PATH || path.join(process.cwd(), ".clawpad", "webhooks.db");
 const deploymentKey = process.env.DEPLOYMENTS_ENCRYPTION_KEY || "";
 const workerEnabled = process.env.DEPLOY_WORKER_ENABLED !== "false";
 const workerIntervalMs = Number.parseInt(process.env.DEPLOY_WORKER_INTERVAL_MS || "2500", 10);
+const monitorEnabled = process.env.DEPLOY_MONITOR_ENABLED !== "false";
+const monitorIntervalMs = Number.parseInt(process.env.DEPLOY_MONITOR_INTERVAL_MS || "300000", 10);
 const workerLeaseMs = Number.parseInt(process.env.DEPLOY_WORKER_LEASE_MS || "45000", 10);
+const workerConcurrency = Number.parseInt(process.env.DEPLOY_WORKER_CONCURRENCY || "4", 10);
+const workerDestroyConcurrency = Number.parseInt(process.env.DEPLOY_WORKER_DESTROY_CONCURRENCY || "2", 10);
+// 0 disables the per-account cap.
+const workerMaxJobsPerAccount = Number.parseInt(process.env.DEPLOY_WORKER_MAX_JOBS_PER_ACCOUNT || "2", 10);
+const workerMaxAttempts = Number.parseInt(process.env.DEPLOY_WORKER_MAX_ATTEMPTS || "3", 10);
+const workerRetryBaseMs = Number.parseInt(process.env.DEPLOY_WORKER_RETRY_BASE_MS || "30000", 10);
+const expiryWarningHours = (process.env.DEPLOY_EXPIRY_WARNING_HOURS ?? "24,1")
+  .split(",")
+  .map((value) => value.trim())
+  .filter(Boolean)
+  .map(Number);
+const webhookDispatchEnabled = process.env.WEBHOOK_DISPATCH_ENABLED !== "false";
+const webhookDispatchIntervalMs = Number.parseInt(process.env.WEBHOOK_DISPATCH_INTERVAL_MS || "2000", 10);
+const webhookTimeoutMs = Number.parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000", 10);
+const webhookMaxAttempts = Number.parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8", 10);
+const webhookRetryBaseMs = Number.parseInt(process.env.WEBHOOK_RETRY_BASE_MS || "30000", 10);
+const webhookAllowPrivateTargets = process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === "true";
+const eventStreamHeartbeatMs = Number.parseInt(process.env.DEPLOYMENT_STREAM_HEARTBEAT_MS || "15000", 10);
 const autoProvisionPaidOrders = process.env.BILLING_AUTO_PROVISION_ON_PAYMENT !== "false";
 const stripeCheckoutSuccessUrlDefault = String(process.env.STRIPE_CHECKOUT_SUCCESS_URL || "").trim();
 const stripeCheckoutCancelUrlDefault = String(process.env.STRIPE_CHECKOUT_CANCEL_URL || "").trim();
 const stripeTimeoutMs = Number.parseInt(process.env.STRIPE_TIMEOUT_MS || "20000", 10);
+const discordApiBaseUrl = String(process.env.DISCORD_API_BASE_URL || DISCORD_API_BASE_URL).replace(/\/+$/, "");
+const discordPreflightEnabled = process.env.DISCORD_PREFLIGHT_ENABLED !== "false";
 const provisionerSshPublicKeyPath = process.env.PROVISIONER_SSH_PUBLIC_KEY_PATH || "";
 const provisionerSshPrivateKeyPath = process.env.PROVISIONER_SSH_PRIVATE_KEY_PATH || "";
+const publicApiUrl = String(process.env.PUBLIC_API_URL || "").trim().replace(/\/+$/, "");
+const enrollmentTokenTtlMs = Number.parseInt(process.env.ENROLLMENT_TOKEN_TTL_MS || "3600000", 10);
+const enrollmentInstallTimeoutMs = Number.parseInt(process.env.ENROLLMENT_INSTALL_TIMEOUT_MS || "1800000", 10);
+const gatewayTokenRotateTimeoutMs = Number.parseInt(process.env.GATEWAY_TOKEN_ROTATE_TIMEOUT_MS || "60000", 10);
+// Version new deployments are pinned to when the request doesn't name one; unset means `latest` at install time.
+const defaultOpenclawVersion = String(process.env.OPENCLAW_VERSION || "").trim() || undefined;
+const adminUserIds = new Set(
+  String(process.env.ADMIN_USER_IDS || "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean),
+);
+// Orphan scans are worker-side work, so they follow the worker unless configured explicitly.
+const orphanReconcileEnabled = (process.env.ORPHAN_RECONCILE_ENABLED ?? String(workerEnabled)) !== "false";
+const orphanReconcileIntervalMs = Number.parseInt(process.env.ORPHAN_RECONCILE_INTERVAL_MS || "3600000", 10);
+const orphanDestroyEnabled = process.env.ORPHAN_DESTROY_ENABLED === "true";
+const orphanDestroyGraceMs = Number.parseInt(process.env.ORPHAN_DESTROY_GRACE_MS || "86400000", 10);
+// Extra provider tokens to scan, e.g. accounts whose deployment rows were lost with the database.
+function tokenList(value: string | undefined): string[] {
+  return String(value || "")
+    .split(",")
+    .map((token) => token.trim())
+    .filter(Boolean);
+}
+const orphanExtraTokens = {
+  hetzner: tokenList(process.env.ORPHAN_RECONCILE_HETZNER_TOKENS),
+  digitalocean: tokenList(process.env.ORPHAN_RECONCILE_DIGITALOCEAN_TOKENS),
+};
 const convexSyncEnabled = process.env.CONVEX_SYNC_ENABLED === "true";
 const convexSyncTimeoutMs = Number.parseInt(process.env.CONVEX_SYNC_TIMEOUT_MS || "8000", 10);
 const convexUrl = process.env.CONVEX_URL || "";
@@ -140,16 +199,29 @@ const convexMirror = new ConvexMirrorClient({
   timeoutMs: convexSyncTimeoutMs,
 });
 
+const deploymentEventsHub = new DeploymentEventsHub();
+
+const webhooksStore = new WebhooksStore(webhooksDbPath);
+let webhooksDispatcher: WebhooksDispatcher | null = null;
+
 const deploymentsStore = new DeploymentsStore(deploymentsDbPath, {
   onDeploymentChanged: async (deployment) => {
+    deploymentEventsHub.publishDeployment(deployment);
     await convexMirror.syncDeploymentSnapshot(deployment);
   },
   onEventAppended: async (event) => {
+    deploymentEventsHub.publishEvent(event);
+    // Only a nudge: the dispatcher reads committed events from its own cursor.
+    webhooksDispatcher?.nudge();
     await convexMirror.appendDeploymentEvent(event);
   },
 });
 
-const billingStore = new BillingStore(billingDbPath);
+const billingStore = new BillingStore(billingDbPath, {
+  onOrderEventAppended: () => {
+    webhooksDispatcher?.nudge();
+  },
+});
 const stripeBilling = new StripeBillingClient({
   secretKey: process.env.STRIPE_SECRET_KEY,
   webhookSecret: process.env.STRIPE_WEBHOOK_SECRET,
@@ -169,6 +241,10 @@ if (!deploymentKey) {
   }
 }
 
+if (defaultOpenclawVersion && !isOpenclawVersion(defaultOpenclawVersion)) {
+  controlPlaneIssues.push(`OPENCLAW_VERSION is not a version or "latest": ${defaultOpenclawVersion}`);
+}
+
 let provisionerKeyReady = false;
 if (!provisionerSshPublicKeyPath) {
   controlPlaneIssues.push("PROVISIONER_SSH_PUBLIC_KEY_PATH missing");
@@ -188,6 +264,12 @@ if (workerEnabled && secretBox && provisionerKeyReady) {
     secretBox,
     leaseMs: workerLeaseMs,
     intervalMs: workerIntervalMs,
+    concurrency: workerConcurrency,
+    destroyConcurrency: workerDestroyConcurrency,
+    maxJobsPerAccount: workerMaxJobsPerAccount > 0 ? workerMaxJobsPerAccount : undefined,
+    maxProvisionAttempts: workerMaxAttempts,
+    retryBaseMs: workerRetryBaseMs,
+    expiryWarningHours,
     provisionConfig: {
       sshPublicKeyPath: provisionerSshPublicKeyPath,
       sshPrivateKeyPath: provisionerSshPrivateKeyPath || undefined,
@@ -196,6 +278,81 @@ if (workerEnabled && secretBox && provisionerKeyReady) {
   deploymentsWorker.start();
 }
 
+let deploymentsMonitor: DeploymentsMonitor | null = null;
+if (monitorEnabled && secretBox) {
+  deploymentsMonitor = new DeploymentsMonitor({
+    store: deploymentsStore,
+    secretBox,
+    intervalMs: monitorIntervalMs,
+    sshPrivateKeyPath: provisionerSshPrivateKeyPath || undefined,
+  });
+  deploymentsMonitor.start();
+}
+
+// Created whenever secrets can be decrypted so admins can scan on demand; the periodic scan is optional.
+let orphanReconciler: OrphanReconciler | null = null;
+if (secretBox) {
+  orphanReconciler = new OrphanReconciler({
+    store: deploymentsStore,
+    secretBox,
+    intervalMs: orphanReconcileIntervalMs,
+    graceMs: orphanDestroyGraceMs,
+    destroy: orphanDestroyEnabled,
+    extraTokens: orphanExtraTokens,
+  });
+  if (orphanReconcileEnabled) {
+    orphanReconciler.start();
+  }
+}
+
+// The envelope carries the event plus a snapshot of its deployment or order as of fan-out; its id stays the same
+// across retries and redeliveries.
+function webhookSourceEvent(
+  source: WebhookEventSource,
+  event: { id: number; type: string; createdAt: string },
+  ownerUserId: string | undefined,
+  data: Record<string, unknown>,
+): WebhookSourceEvent {
+  return {
+    eventId: event.id,
+    ownerUserId: ownerUserId ?? null,
+    envelope: { id: `evt_${source}_${event.id}`, type: event.type, createdAt: event.createdAt, data },
+  };
+}
+
+if (webhookDispatchEnabled && secretBox) {
+  webhooksDispatcher = new WebhooksDispatcher({
+    store: webhooksStore,
+    feeds: [
+      {
+        source: "deployment",
+        lastEventId: () => deploymentsStore.lastEventId(),
+        eventsAfter: (afterId, limit) =>
+          deploymentsStore.listAllEventsAfter(afterId, limit).map((event) => {
+            const deployment = deploymentsStore.getPublic(event.deploymentId);
+            return webhookSourceEvent("deployment", event, deployment?.ownerUserId, { event, deployment });
+          }),
+      },
+      {
+        source: "order",
+        lastEventId: () => billingStore.lastOrderEventId(),
+        eventsAfter: (afterId, limit) =>
+          billingStore.listOrderEventsAfter(afterId, limit).map((event) => {
+            const order = billingStore.getOrder(event.orderId);
+            return webhookSourceEvent("order", event, order?.ownerUserId, { event, order });
+          }),
+      },
+    ],
+    secretBox,
+    intervalMs: webhookDispatchIntervalMs,
+    timeoutMs: webhookTimeoutMs,
+    maxAttempts: webhookMaxAttempts,
+    retryBaseMs: webhookRetryBaseMs,
+    allowPrivateTargets: webhookAllowPrivateTargets,
+  });
+  webhooksDispatcher.start();
+}
+
 type AppVars = { Variables: { userId: string } };
 const app = new Hono<AppVars>();
 
@@ -210,8 +367,8 @@ app.use(
   "*",
   cors({
     origin: process.env.WEB_ORIGIN || "http://localhost:5173",
-    allowHeaders: ["content-type", "idempotency-key", "authorization", "stripe-signature"],
-    allowMethods: ["GET", "POST", "OPTIONS"],
+    allowHeaders: ["content-type", "idempotency-key", "authorization", "stripe-signature", "last-event-id"],
+    allowMethods: ["GET", "POST", "PATCH", "DELETE", "OPTIONS"],
     maxAge: 600,
   }),
 );
@@ -238,12 +395,33 @@ const requireAuth: MiddlewareHandler<{ Variables: { userId: string } }> = async
 
 app.use("/v1/connectors/*", requireAuth);
 app.use("/v1/billing/*", requireAuth);
+// The enrollment install script and its callback run on customer machines: they authenticate with the
+// one-time enrollment token / callback secret instead of API credentials.
+const PUBLIC_DEPLOYMENT_PATH = /^\/v1\/deployments\/[^/]+\/(?:install\.sh|enrollment\/complete)$/;
+
 app.use("/v1/deployments", requireAuth);
-app.use("/v1/deployments/*", requireAuth);
+app.use("/v1/deployments/*", async (c, next) => {
+  if (PUBLIC_DEPLOYMENT_PATH.test(c.req.path)) {
+    await next();
+    return;
+  }
+  return requireAuth(c, next);
+});
 app.use("/v1/orders", requireAuth);
 app.use("/v1/orders/*", requireAuth);
+app.use("/v1/webhooks/endpoints", requireAuth);
+app.use("/v1/webhooks/endpoints/*", requireAuth);
 app.use("/v1/control-plane/health", requireAuth);
 
+// Operator routes that act across owners. Admins are listed by user id in ADMIN_USER_IDS.
+const requireAdmin: MiddlewareHandler<{ Variables: { userId: string } }> = async (c, next) => {
+  if (!adminUserIds.has(c.get("userId"))) {
+    return jsonError(c, 403, "Admin access required");
+  }
+  await next();
+};
+app.use("/v1/admin/*", requireAuth, requireAdmin);
+
 app.get("/health", (c) => c.json({ ok: true }));
 
 app.get("/v1/control-plane/health", (c) => {
@@ -252,6 +430,12 @@ app.get("/v1/control-plane/health", (c) => {
     controlPlaneReady: controlPlaneIssues.length === 0,
     workerEnabled,
     workerRunning: Boolean(deploymentsWorker),
+    monitorEnabled,
+    monitorRunning: Boolean(deploymentsMonitor),
+    orphanReconcileEnabled,
+    orphanDestroyEnabled,
+    webhookDispatchEnabled,
+    webhookDispatchRunning: Boolean(webhooksDispatcher),
     issues: controlPlaneIssues,
     auth: {
       enabled: authState.enabled,
@@ -290,6 +474,7 @@ app.post("/v1/connectors/discord/test", async (c) => {
   const me = await discordRequest<{ id: string; username: string; discriminator?: string; bot?: boolean }>(
     token,
     "/users/@me",
+    discordApiBaseUrl,
   );
   if (!me.ok) {
     const status = me.status === 401 ? 401 : 400;
@@ -298,7 +483,11 @@ app.post("/v1/connectors/discord/test", async (c) => {
 
   let guild: { ok: boolean; status?: number; data?: unknown } | null = null;
   if (parsed.data.guildId) {
-    const guildRes = await discordRequest<{ id: string; name: string }>(token, `/guilds/${parsed.data.guildId}`);
+    const guildRes = await discordRequest<{ id: string; name: string }>(
+      token,
+      `/guilds/${parsed.data.guildId}`,
+      discordApiBaseUrl,
+    );
     guild = guildRes.ok
       ? { ok: true, data: guildRes.data }
       : { ok: false, status: guildRes.status, data: guildRes.data };
@@ -317,6 +506,58 @@ app.post("/v1/connectors/discord/test", async (c) => {
   });
 });
 
+// Guilds the bot has joined, for a picker instead of pasting ids. Polling it after handing out `inviteUrl` shows
+// when the invite was accepted.
+app.post("/v1/connectors/discord/guilds", async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const schema = z.object({
+    token: z.string().min(1),
+  });
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return jsonError(c, 400, "Invalid body", parsed.error.flatten());
+  }
+
+  const token = parsed.data.token.trim();
+  type PartialGuild = {
+    id: string;
+    name: string;
+    icon: string | null;
+    approximate_member_count?: number;
+    approximate_presence_count?: number;
+  };
+  const guilds: PartialGuild[] = [];
+  // Pages of up to 200, oldest first; `after` continues from the last id of the previous page.
+  for (;;) {
+    const after = guilds.length ? `&after=${guilds[guilds.length - 1].id}` : "";
+    const page = await discordRequest<PartialGuild[]>(
+      token,
+      `/users/@me/guilds?with_counts=true&limit=200${after}`,
+      discordApiBaseUrl,
+    );
+    if (!page.ok) {
+      const status = page.status === 401 ? 401 : 400;
+      return jsonError(c, status, "Failed to list bot guilds", page.data);
+    }
+    guilds.push(...page.data);
+    if (page.data.length < 200) break;
+  }
+
+  const normalized = guilds
+    .map((guild) => ({
+      id: guild.id,
+      name: guild.name,
+      iconUrl: guild.icon
+        ? `https://cdn.discordapp.com/icons/${guild.id}/${guild.icon}.${guild.icon.startsWith("a_") ? "gif" : "png"}`
+        : null,
+      memberCount: typeof guild.approximate_member_count === "number" ? guild.approximate_member_count : null,
+      onlineCount: typeof guild.approximate_presence_count === "number" ? guild.approximate_presence_count : null,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return c.json({ ok: true, guilds: normalized });
+});
+
 app.post("/v1/connectors/discord/guild-channels", async (c) => {
   const body = await c.req.json().catch(() => null);
   const schema = z.object({
@@ -331,7 +572,7 @@ app.post("/v1/connectors/discord/guild-channels", async (c) => {
   const token = parsed.data.token.trim();
   const channels = await discordRequest<
     Array<{ id: string; name: string; type: number; parent_id?: string | null; position?: number }>
-  >(token, `/guilds/${parsed.data.guildId}/channels`);
+  >(token, `/guilds/${parsed.data.guildId}/channels`, discordApiBaseUrl);
 
   if (!channels.ok) {
     const status = channels.status === 401 ? 401 : 400;
@@ -353,15 +594,189 @@ app.post("/v1/connectors/discord/guild-channels", async (c) => {
   return c.json({ ok: true, channels: normalized });
 });
 
+// Checks a bot against the allowlist a deployment would get (same fields as on create): the Message Content
+// intent, guild membership and the bot's permissions in every channel. Also runs before a deployment is queued.
+app.post("/v1/connectors/discord/preflight", async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const schema = z.object({
+    token: z.string().min(1),
+    discordGuildId: discordIdSchema.optional(),
+    discordChannelIds: z.array(discordIdSchema).optional(),
+    discordGuilds: z.array(discordGuildSchema).min(1).optional(),
+  });
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return jsonError(c, 400, "Invalid body", parsed.error.flatten());
+  }
+
+  const targets = discordPreflightTargets(parsed.data);
+  if (targets.length === 0 || targets.some((target) => target.channelIds.length === 0)) {
+    return jsonError(c, 400, "discordGuilds, or discordGuildId with discordChannelIds, is required");
+  }
+
+  try {
+    const preflight = await runDiscordPreflight(parsed.data.token.trim(), targets, { baseUrl: discordApiBaseUrl });
+    return c.json({ ok: true, preflight });
+  } catch (error) {
+    const statusCode = Number((error as any)?.statusCode || 0);
+    if (!statusCode) throw error;
+    return statusCode === 401
+      ? jsonError(c, 401, "Discord token invalid", (error as any).details ?? null)
+      : jsonError(c, 502, (error as Error).message, (error as any).details ?? null);
+  }
+});
+
+app.post("/v1/connectors/telegram/test", async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const schema = z.object({
+    token: z.string().min(1),
+  });
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return jsonError(c, 400, "Invalid body", parsed.error.flatten());
+  }
+
+  const client = new TelegramClient(parsed.data.token.trim());
+  let bot;
+  try {
+    bot = await client.getMe();
+  } catch (error) {
+    const statusCode = Number((error as any)?.statusCode || 0);
+    if (!statusCode) throw error;
+    // Telegram answers 404 for tokens that aren't even well-formed.
+    const status = statusCode === 401 || statusCode === 404 ? 401 : 400;
+    return jsonError(c, status, "Telegram token invalid", (error as any).details ?? null);
+  }
+
+  // Best effort: a bot that a running gateway is already polling (or that has a webhook) can't be read here.
+  let chats: TelegramChat[] = [];
+  let chatsError: string | null = null;
+  try {
+    chats = await client.recentChats();
+  } catch (error) {
+    chatsError = error instanceof Error ? error.message : String(error);
+  }
+
+  return c.json({
+    ok: true,
+    bot,
+    botUrl: bot.username ? `https://t.me/${bot.username}` : null,
+    chats,
+    ...(chatsError ? { chatsError } : {}),
+  });
+});
+
+// Checks the Slack bot token (and the app-level token for Socket Mode when given) and lists the channels the bot
+// can see for the allowlist picker.
+app.post("/v1/connectors/slack/test", async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const schema = z.object({
+    botToken: z.string().min(1),
+    appToken: z.string().min(1).optional(),
+  });
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return jsonError(c, 400, "Invalid body", parsed.error.flatten());
+  }
+
+  const slackError = (error: unknown, message: string) => {
+    const statusCode = Number((error as any)?.statusCode || 0);
+    if (!statusCode) throw error;
+    return jsonError(c, statusCode === 401 ? 401 : 400, message, (error as any).details ?? null);
+  };
+
+  const bot = new SlackClient(parsed.data.botToken.trim());
+  let auth;
+  try {
+    auth = await bot.authTest();
+  } catch (error) {
+    return slackError(error, "Slack bot token invalid");
+  }
+  if (!auth.bot_id) {
+    return jsonError(c, 400, "botToken must be a bot token (xoxb-)");
+  }
+
+  if (parsed.data.appToken) {
+    try {
+      await new SlackClient(parsed.data.appToken.trim()).checkSocketMode();
+    } catch (error) {
+      return slackError(error, "Slack app token invalid");
+    }
+  }
+
+  let channels;
+  try {
+    channels = await bot.listChannels();
+  } catch (error) {
+    return slackError(error, "Failed to list Slack channels");
+  }
+
+  return c.json({
+    ok: true,
+    team: { id: auth.team_id, name: auth.team, url: auth.url },
+    bot: { id: auth.bot_id, userId: auth.user_id, name: auth.user },
+    channels,
+  });
+});
+
+const MAX_DEPLOYMENT_TTL_HOURS = 24 * 365;
+
+const discordIdSchema = z.string().regex(/^\d+$/, "must be a numeric Discord snowflake");
+
+// One guild of the Discord allowlist (see DiscordGuild). A channel is an id, or `{ id, requireMention }` to
+// override the guild's mention requirement.
+const discordGuildSchema = z
+  .object({
+    guildId: discordIdSchema,
+    channelIds: z
+      .array(
+        z.union([
+          discordIdSchema,
+          z.object({ id: discordIdSchema, requireMention: z.boolean().optional() }).strict(),
+        ]),
+      )
+      .min(1),
+    requireMention: z.boolean().optional(),
+    users: z.array(discordIdSchema).optional(),
+  })
+  .strict();
+
 const deploymentCreateSchema = z.object({
-  provider: z.literal("hetzner").default("hetzner"),
+  provider: z.enum(DEPLOYMENT_PROVIDERS).default("hetzner"),
   name: z.string().min(1),
-  serverType: z.string().min(1).default("cx23"),
-  image: z.string().min(1).default("ubuntu-24.04"),
-  location: z.string().min(1).default("nbg1"),
-  hetznerApiToken: z.string().min(1),
-  tailscaleAuthKey: z.string().min(1),
+  // Defaults depend on the provider; see CLOUD_PROVIDER_DEFAULTS. Ignored for provider=byo.
+  serverType: z.string().min(1).optional(),
+  image: z.string().min(1).optional(),
+  location: z.string().min(1).optional(),
+  hetznerApiToken: z.string().min(1).optional(),
+  digitaloceanApiToken: z.string().min(1).optional(),
+  // Existing machine for provider=byo; the provisioner SSH key must be authorized for byoSshUser.
+  // Without byoHost the deployment waits for the customer to run the enrollment install script.
+  byoHost: z
+    .string()
+    .trim()
+    .min(1)
+    .max(253)
+    .regex(/^[A-Za-z0-9][A-Za-z0-9.-]*$/, "byoHost must be a hostname or IPv4 address")
+    .optional(),
+  byoSshUser: z
+    .string()
+    .regex(/^[a-z_][a-z0-9_-]{0,31}$/, "byoSshUser must be a valid Unix user name")
+    .default("root"),
+  byoSshPort: z.number().int().min(1).max(65535).default(22),
+  // Required unless accessMode=public-domain.
+  tailscaleAuthKey: z.string().min(1).optional(),
   tailscaleHostname: z.string().min(1).optional(),
+  accessMode: z.enum(ACCESS_MODES).default("tailscale-serve"),
+  // public-domain: a hostname whose DNS already points at the machine (certbot verifies it over HTTP).
+  publicDomain: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .max(253)
+    .regex(/^(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/, "publicDomain must be a fully qualified hostname")
+    .optional(),
+  acmeEmail: z.string().email().optional(),
   authChoice: z
     .enum(["skip", "minimax-api", "anthropic-api-key", "openai-api-key"] satisfies [AuthChoice, ...AuthChoice[]])
     .default("skip"),
@@ -372,10 +787,53 @@ const deploymentCreateSchema = z.object({
   discordGroupPolicy: z.enum(["open", "allowlist", "disabled"]).default("allowlist"),
   discordGuildId: z.string().regex(/^\d+$/).optional(),
   discordChannelIds: z.array(z.string().regex(/^\d+$/)).optional(),
+  // Several guilds, instead of the single-guild discordGuildId + discordChannelIds.
+  discordGuilds: z.array(discordGuildSchema).min(1).optional(),
+  telegramBotToken: z.string().min(1).optional(),
+  telegramGroupPolicy: z.enum(["open", "allowlist", "disabled"]).default("allowlist"),
+  // Group and channel chat ids are negative; /v1/connectors/telegram/test lists the ones the bot has seen.
+  telegramChatIds: z.array(z.string().regex(/^-?\d+$/)).optional(),
+  // Slack runs in Socket Mode, so it needs the app-level token next to the bot token.
+  slackBotToken: z.string().regex(/^xoxb-/, "slackBotToken must be a bot token (xoxb-)").optional(),
+  slackAppToken: z.string().regex(/^xapp-/, "slackAppToken must be an app-level token (xapp-)").optional(),
+  slackGroupPolicy: z.enum(["open", "allowlist", "disabled"]).default("allowlist"),
+  slackChannelIds: z.array(z.string().regex(/^[CG][A-Z0-9]+$/, "slackChannelIds must be Slack channel ids")).optional(),
+  openclawVersion: z.string().regex(OPENCLAW_VERSION_PATTERN, "openclawVersion must be x.y.z or latest").optional(),
+  // Self-destruct for trials and demos: an absolute time or hours from creation, not both.
+  expiresAt: z.iso.datetime({ offset: true }).optional(),
+  ttlHours: z.number().positive().max(MAX_DEPLOYMENT_TTL_HOURS).optional(),
   billingRef: z.string().max(128).optional(),
   metadata: z.record(z.string(), z.unknown()).optional(),
 });
 
+// Fields a running deployment can change in place. Omitted fields keep their current value; null removes
+// the Discord, Telegram or Slack bot or clears the allowlist target.
+const deploymentReconfigureSchema = z
+  .object({
+    authChoice: z
+      .enum(["skip", "minimax-api", "anthropic-api-key", "openai-api-key"] satisfies [AuthChoice, ...AuthChoice[]])
+      .optional(),
+    minimaxApiKey: z.string().min(1).optional(),
+    anthropicApiKey: z.string().min(1).optional(),
+    openaiApiKey: z.string().min(1).optional(),
+    discordBotToken: z.string().min(1).nullable().optional(),
+    discordGroupPolicy: z.enum(["open", "allowlist", "disabled"]).optional(),
+    discordGuildId: z.string().regex(/^\d+$/).nullable().optional(),
+    discordChannelIds: z.array(z.string().regex(/^\d+$/)).nullable().optional(),
+    discordGuilds: z.array(discordGuildSchema).min(1).nullable().optional(),
+    telegramBotToken: z.string().min(1).nullable().optional(),
+    telegramGroupPolicy: z.enum(["open", "allowlist", "disabled"]).optional(),
+    telegramChatIds: z.array(z.string().regex(/^-?\d+$/)).nullable().optional(),
+    slackBotToken: z.string().regex(/^xoxb-/, "slackBotToken must be a bot token (xoxb-)").nullable().optional(),
+    slackAppToken: z.string().regex(/^xapp-/, "slackAppToken must be an app-level token (xapp-)").optional(),
+    slackGroupPolicy: z.enum(["open", "allowlist", "disabled"]).optional(),
+    slackChannelIds: z
+      .array(z.string().regex(/^[CG][A-Z0-9]+$/, "slackChannelIds must be Slack channel ids"))
+      .nullable()
+      .optional(),
+  })
+  .strict();
+
 const deploymentStoredInputSchema = deploymentCreateSchema.omit({ billingRef: true });
 
 const billingCheckoutSchema = z.object({
@@ -390,13 +848,73 @@ const billingCheckoutSchema = z.object({
 type DeploymentCreateInput = z.infer<typeof deploymentCreateSchema>;
 
 type NormalizedDeploymentInput = {
+  provider: DeploymentProvider;
   name: string;
   config: DeploymentConfig;
   secrets: DeploymentSecrets;
   metadata: Record<string, unknown> | undefined;
 };
 
-function normalizeDeploymentInput(payload: DeploymentCreateInput): NormalizedDeploymentInput {
+// The guilds and channels to preflight, from either allowlist shape.
+function discordPreflightTargets(input: {
+  discordGuildId?: string;
+  discordChannelIds?: string[];
+  discordGuilds?: DiscordGuild[];
+}): Array<{ guildId: string; channelIds: string[] }> {
+  if (input.discordGuilds) {
+    return input.discordGuilds.map((guild) => ({
+      guildId: guild.guildId,
+      channelIds: guild.channelIds.map((channel) => (typeof channel === "string" ? channel : channel.id)),
+    }));
+  }
+  return input.discordGuildId ? [{ guildId: input.discordGuildId, channelIds: input.discordChannelIds ?? [] }] : [];
+}
+
+async function assertDiscordPreflight(token: string, targets: Array<{ guildId: string; channelIds: string[] }>) {
+  let preflight;
+  try {
+    preflight = await runDiscordPreflight(token, targets, { baseUrl: discordApiBaseUrl });
+  } catch (error) {
+    const statusCode = Number((error as any)?.statusCode || 0);
+    if (statusCode === 401) {
+      throw createHttpError(400, "discordBotToken was rejected by Discord");
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw createHttpError(502, `Discord preflight could not run: ${message}`);
+  }
+  if (!preflight.ok) {
+    throw createHttpError(400, "Discord preflight failed", { preflight });
+  }
+}
+
+// Drops repeated channels and users; a guild listed twice is an error rather than silently merged.
+function normalizeDiscordGuilds(guilds: DiscordGuild[]): DiscordGuild[] {
+  const seen = new Set<string>();
+  return guilds.map((guild) => {
+    if (seen.has(guild.guildId)) {
+      throw createHttpError(400, `discordGuilds lists guild ${guild.guildId} more than once`);
+    }
+    seen.add(guild.guildId);
+
+    const channels = new Map<string, DiscordGuild["channelIds"][number]>();
+    for (const channel of guild.channelIds) {
+      const id = typeof channel === "string" ? channel : channel.id;
+      if (!channels.has(id)) channels.set(id, channel);
+    }
+    return {
+      guildId: guild.guildId,
+      channelIds: Array.from(channels.values()),
+      ...(guild.requireMention === undefined ? {} : { requireMention: guild.requireMention }),
+      ...(guild.users?.length ? { users: Array.from(new Set(guild.users)) } : {}),
+    };
+  });
+}
+
+// With `discordPreflight`, an allowlisted Discord bot is checked against Discord before anything is queued.
+async function normalizeDeploymentInput(
+  payload: DeploymentCreateInput,
+  opts: { discordPreflight: boolean },
+): Promise<NormalizedDeploymentInput> {
   let normalizedName: string;
   let normalizedTailscaleHostname: string | undefined;
   try {
@@ -414,6 +932,29 @@ function normalizeDeploymentInput(payload: DeploymentCreateInput): NormalizedDep
   const discordGroupPolicy = payload.discordBotToken ? payload.discordGroupPolicy : "disabled";
   const discordChannelIds = Array.from(new Set((payload.discordChannelIds ?? []).map((id) => id.trim())));
   const discordGuildId = payload.discordGuildId?.trim() || undefined;
+  if (payload.discordGuilds && (discordGuildId || discordChannelIds.length > 0)) {
+    throw createHttpError(400, "Use either discordGuilds or discordGuildId/discordChannelIds, not both");
+  }
+  const discordGuilds = payload.discordGuilds ? normalizeDiscordGuilds(payload.discordGuilds) : undefined;
+  const telegramGroupPolicy = payload.telegramBotToken ? payload.telegramGroupPolicy : "disabled";
+  const telegramChatIds = Array.from(new Set((payload.telegramChatIds ?? []).map((id) => id.trim())));
+  const slackGroupPolicy = payload.slackBotToken ? payload.slackGroupPolicy : "disabled";
+  const slackChannelIds = Array.from(new Set(payload.slackChannelIds ?? []));
+
+  if (payload.provider === "hetzner" && !payload.hetznerApiToken) {
+    throw createHttpError(400, "hetznerApiToken is required when provider=hetzner");
+  }
+  if (payload.provider === "digitalocean" && !payload.digitaloceanApiToken) {
+    throw createHttpError(400, "digitaloceanApiToken is required when provider=digitalocean");
+  }
+
+  const publicDomain = payload.accessMode === "public-domain";
+  if (publicDomain && !payload.publicDomain) {
+    throw createHttpError(400, "publicDomain is required when accessMode=public-domain");
+  }
+  if (!publicDomain && !payload.tailscaleAuthKey) {
+    throw createHttpError(400, `tailscaleAuthKey is required when accessMode=${payload.accessMode}`);
+  }
 
   if (payload.authChoice === "minimax-api" && !payload.minimaxApiKey) {
     throw createHttpError(400, "minimaxApiKey is required when authChoice=minimax-api");
@@ -425,37 +966,80 @@ function normalizeDeploymentInput(payload: DeploymentCreateInput): NormalizedDep
     throw createHttpError(400, "openaiApiKey is required when authChoice=openai-api-key");
   }
 
-  if (payload.discordBotToken && discordGroupPolicy === "allowlist") {
+  if (payload.discordBotToken && discordGroupPolicy === "allowlist" && !discordGuilds) {
     if (!discordGuildId) {
-      throw createHttpError(400, "discordGuildId is required when discordGroupPolicy=allowlist");
+      throw createHttpError(400, "discordGuilds or discordGuildId is required when discordGroupPolicy=allowlist");
     }
     if (discordChannelIds.length === 0) {
       throw createHttpError(400, "discordChannelIds is required when discordGroupPolicy=allowlist");
     }
   }
+  if (payload.telegramBotToken && telegramGroupPolicy === "allowlist" && telegramChatIds.length === 0) {
+    throw createHttpError(400, "telegramChatIds is required when telegramGroupPolicy=allowlist");
+  }
+  if (payload.slackBotToken && !payload.slackAppToken) {
+    throw createHttpError(400, "slackAppToken is required when slackBotToken is set");
+  }
+  if (payload.slackBotToken && slackGroupPolicy === "allowlist" && slackChannelIds.length === 0) {
+    throw createHttpError(400, "slackChannelIds is required when slackGroupPolicy=allowlist");
+  }
+
+  const preflightDiscord = opts.discordPreflight && discordPreflightEnabled && discordGroupPolicy === "allowlist";
+  if (preflightDiscord && payload.discordBotToken) {
+    await assertDiscordPreflight(
+      payload.discordBotToken,
+      discordPreflightTargets({ discordGuildId, discordChannelIds, discordGuilds }),
+    );
+  }
 
+  const target: Partial<DeploymentConfig> =
+    payload.provider === "byo"
+      ? payload.byoHost
+        ? {
+            byoHost: payload.byoHost,
+            byoSshUser: payload.byoSshUser,
+            byoSshPort: payload.byoSshPort,
+          }
+        : {}
+      : {
+          serverType: payload.serverType ?? CLOUD_PROVIDER_DEFAULTS[payload.provider].serverType,
+          image: payload.image ?? CLOUD_PROVIDER_DEFAULTS[payload.provider].image,
+          location: payload.location ?? CLOUD_PROVIDER_DEFAULTS[payload.provider].location,
+        };
   const config: DeploymentConfig = {
     name: normalizedName,
-    serverType: payload.serverType,
-    image: payload.image,
-    location: payload.location,
-    tailscaleHostname: normalizedTailscaleHostname,
+    ...target,
+    tailscaleHostname: publicDomain ? undefined : normalizedTailscaleHostname,
+    accessMode: payload.accessMode,
+    publicDomain: publicDomain ? payload.publicDomain : undefined,
+    acmeEmail: publicDomain ? payload.acmeEmail : undefined,
     authChoice: payload.authChoice,
     discordGroupPolicy,
     discordGuildId,
     discordChannelIds: payload.discordBotToken ? discordChannelIds : undefined,
+    discordGuilds: payload.discordBotToken ? discordGuilds : undefined,
+    telegramGroupPolicy,
+    telegramChatIds: payload.telegramBotToken ? telegramChatIds : undefined,
+    slackGroupPolicy,
+    slackChannelIds: payload.slackBotToken ? slackChannelIds : undefined,
+    openclawVersion: payload.openclawVersion ?? defaultOpenclawVersion,
   };
 
   const secrets: DeploymentSecrets = {
-    hetznerApiToken: payload.hetznerApiToken,
-    tailscaleAuthKey: payload.tailscaleAuthKey,
+    hetznerApiToken: payload.provider === "hetzner" ? payload.hetznerApiToken : undefined,
+    digitaloceanApiToken: payload.provider === "digitalocean" ? payload.digitaloceanApiToken : undefined,
+    tailscaleAuthKey: publicDomain ? undefined : payload.tailscaleAuthKey,
     minimaxApiKey: payload.minimaxApiKey,
     anthropicApiKey: payload.anthropicApiKey,
     openaiApiKey: payload.openaiApiKey,
     discordBotToken: payload.discordBotToken,
+    telegramBotToken: payload.telegramBotToken,
+    slackBotToken: payload.slackBotToken,
+    slackAppToken: payload.slackBotToken ? payload.slackAppToken : undefined,
   };
 
   return {
+    provider: payload.provider,
     name: normalizedName,
     config,
     secrets,
@@ -463,6 +1047,74 @@ function normalizeDeploymentInput(payload: DeploymentCreateInput): NormalizedDep
   };
 }
 
+// Rebuilds the create payload from the stored deployment with the patch applied, so a reconfigure goes
+// through the same validation as a new deployment.
+function mergeReconfigureInput(
+  deployment: DeploymentInternal,
+  secrets: DeploymentSecrets,
+  patch: z.infer<typeof deploymentReconfigureSchema>,
+): DeploymentCreateInput {
+  const { config } = deployment;
+  const pick = <T>(value: T | null | undefined, current: T | undefined) =>
+    value === null ? undefined : value === undefined ? current : value;
+  const discordBotToken = pick(patch.discordBotToken, secrets.discordBotToken);
+  const telegramBotToken = pick(patch.telegramBotToken, secrets.telegramBotToken);
+  const slackBotToken = pick(patch.slackBotToken, secrets.slackBotToken);
+  // Patching one allowlist shape replaces the other.
+  const guildsPatched = patch.discordGuilds !== undefined;
+  const singleGuildPatched = patch.discordGuildId !== undefined || patch.discordChannelIds !== undefined;
+  return {
+    provider: deployment.provider,
+    name: config.name,
+    serverType: config.serverType,
+    image: config.image,
+    location: config.location,
+    hetznerApiToken: secrets.hetznerApiToken,
+    digitaloceanApiToken: secrets.digitaloceanApiToken,
+    byoHost: config.byoHost,
+    byoSshUser: config.byoSshUser ?? "root",
+    byoSshPort: config.byoSshPort ?? 22,
+    tailscaleAuthKey: secrets.tailscaleAuthKey,
+    tailscaleHostname: config.tailscaleHostname,
+    accessMode: config.accessMode ?? "tailscale-serve",
+    publicDomain: config.publicDomain,
+    acmeEmail: config.acmeEmail,
+    authChoice: patch.authChoice ?? config.authChoice,
+    minimaxApiKey: patch.minimaxApiKey ?? secrets.minimaxApiKey,
+    anthropicApiKey: patch.anthropicApiKey ?? secrets.anthropicApiKey,
+    openaiApiKey: patch.openaiApiKey ?? secrets.openaiApiKey,
+    discordBotToken,
+    // A deployment created without a bot is stored as "disabled"; adding one starts from the create default.
+    discordGroupPolicy:
+      patch.discordGroupPolicy ?? (secrets.discordBotToken ? config.discordGroupPolicy : "allowlist"),
+    discordGuildId: pick(patch.discordGuildId, guildsPatched ? undefined : config.discordGuildId),
+    discordChannelIds: pick(patch.discordChannelIds, guildsPatched ? undefined : config.discordChannelIds),
+    discordGuilds: pick(patch.discordGuilds, singleGuildPatched ? undefined : config.discordGuilds),
+    telegramBotToken,
+    telegramGroupPolicy:
+      patch.telegramGroupPolicy ?? (secrets.telegramBotToken ? config.telegramGroupPolicy : undefined) ?? "allowlist",
+    telegramChatIds: pick(patch.telegramChatIds, config.telegramChatIds),
+    slackBotToken,
+    slackAppToken: patch.slackAppToken ?? secrets.slackAppToken,
+    slackGroupPolicy:
+      patch.slackGroupPolicy ?? (secrets.slackBotToken ? config.slackGroupPolicy : undefined) ?? "allowlist",
+    slackChannelIds: pick(patch.slackChannelIds, config.slackChannelIds),
+    openclawVersion: config.openclawVersion,
+  };
+}
+
+function diffDeploymentConfig(from: DeploymentConfig, to: DeploymentConfig): DeploymentConfigChange[] {
+  const fields = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])) as Array<keyof DeploymentConfig>;
+  return fields
+    .filter((field) => JSON.stringify(from[field]) !== JSON.stringify(to[field]))
+    .map((field) => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
+
+function diffSecretNames(from: DeploymentSecrets, to: DeploymentSecrets): string[] {
+  const names = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])) as Array<keyof DeploymentSecrets>;
+  return names.filter((name) => from[name] !== to[name]);
+}
+
 function assertDeploymentsWritable() {
   if (!secretBox) {
     throw createHttpError(503, "Control plane not configured", controlPlaneIssues);
@@ -476,16 +1128,41 @@ function assertDeploymentsWritable() {
   }
 }
 
-function createDeploymentFromInput(
+function providerAccountFor(provider: DeploymentProvider, secrets: DeploymentSecrets): string | null {
+  if (provider === "byo") return null;
+  const token = providerApiToken(provider, secrets);
+  return token ? providerAccountFingerprint(token) : null;
+}
+
+// `defaultTtlHours` (from a billing plan) applies when the payload sets no expiry of its own.
+function deploymentExpiry(payload: DeploymentCreateInput, defaultTtlHours?: number): string | undefined {
+  if (payload.expiresAt && payload.ttlHours !== undefined) {
+    throw createHttpError(400, "Set either expiresAt or ttlHours, not both");
+  }
+  if (payload.expiresAt) {
+    const expiresAtMs = Date.parse(payload.expiresAt);
+    if (expiresAtMs <= Date.now()) {
+      throw createHttpError(400, "expiresAt must be in the future");
+    }
+    return new Date(expiresAtMs).toISOString();
+  }
+  const ttlHours = payload.ttlHours ?? defaultTtlHours;
+  return ttlHours === undefined ? undefined : new Date(Date.now() + ttlHours * 3_600_000).toISOString();
+}
+
+async function createDeploymentFromInput(
   payload: DeploymentCreateInput,
   options: {
     billingRef?: string;
     metadataOverride?: Record<string, unknown>;
     ownerUserId?: string;
+    defaultTtlHours?: number;
+    discordPreflight?: boolean;
   } = {},
 ) {
   assertDeploymentsWritable();
-  const normalized = normalizeDeploymentInput(payload);
+  const normalized = await normalizeDeploymentInput(payload, { discordPreflight: options.discordPreflight ?? true });
+  const expiresAt = deploymentExpiry(payload, options.defaultTtlHours);
   const mergedMetadata =
     normalized.metadata || options.metadataOverride
       ? {
@@ -496,13 +1173,15 @@ function createDeploymentFromInput(
 
   return deploymentsStore.createDeployment({
     id: crypto.randomUUID(),
-    provider: "hetzner",
+    provider: normalized.provider,
     ownerUserId: options.ownerUserId || authState.defaultUserId,
     name: normalized.name,
     config: normalized.config,
     secretsEncrypted: secretBox!.encryptObject(normalized.secrets),
     metadata: mergedMetadata,
     billingRef: options.billingRef ?? payload.billingRef,
+    providerAccount: providerAccountFor(normalized.provider, normalized.secrets),
+    expiresAt,
   });
 }
 
@@ -580,7 +1259,7 @@ async function queueDeploymentFromPaidOrder(
   }
 
   try {
-    const deployment = createDeploymentFromInput(
+    const deployment = await createDeploymentFromInput(
       {
         ...parsedStoredInput.data,
         billingRef: order.id,
@@ -588,6 +1267,9 @@ async function queueDeploymentFromPaidOrder(
       {
         ownerUserId,
         billingRef: order.id,
+        // The order is paid; a Discord setup problem shouldn't hold up the machine, and the bot can be fixed later.
+        discordPreflight: false,
+        defaultTtlHours: billingPlansById.get(order.planId)?.defaultTtlHours,
         metadataOverride: {
           billingOrderId: order.id,
           billingPlanId: order.planId,
@@ -794,7 +1476,7 @@ app.post("/v1/deployments", async (c) => {
   }
 
   try {
-    const deployment = createDeploymentFromInput(parsed.data, { ownerUserId: userId });
+    const deployment = await createDeploymentFromInput(parsed.data, { ownerUserId: userId });
     return c.json({
       ok: true,
       deployment,
@@ -1019,6 +1701,160 @@ app.post("/v1/webhooks/stripe", async (c) => {
   }
 });
 
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url()
+  .max(2048)
+  .refine((value) => /^https?:\/\//i.test(value), "url must be http(s)");
+// Endpoints may not target loopback, private or link-local addresses unless WEBHOOK_ALLOW_PRIVATE_TARGETS=true;
+// the dispatcher checks the resolved address again on every delivery.
+async function webhookUrlError(url: string | undefined): Promise<string | null> {
+  if (!url || webhookAllowPrivateTargets) return null;
+  try {
+    await assertPublicWebhookUrl(url);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// Exact event types (`deployment.running`), prefixes (`deployment.*`, `order.*`) or `*` for everything.
+const webhookEventTypesSchema = z
+  .array(z.string().regex(/^(?:\*|(?:deployment|order)(?:\.[a-z0-9_]+)*(?:\.\*)?)$/, "Unknown event type pattern"))
+  .min(1)
+  .max(50);
+
+const webhookEndpointCreateSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().trim().max(256).optional(),
+  events: webhookEventTypesSchema.default(["*"]),
+});
+
+const webhookEndpointUpdateSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  description: z.string().trim().max(256).nullable().optional(),
+  events: webhookEventTypesSchema.optional(),
+  enabled: z.boolean().optional(),
+});
+
+app.get("/v1/webhooks/endpoints", (c) => {
+  const userId = c.get("userId");
+  const limit = Number.parseInt(String(c.req.query("limit") || "50"), 10);
+  const offset = Number.parseInt(String(c.req.query("offset") || "0"), 10);
+  const safeLimit = Number.isFinite(limit) ? Math.max(1, Math.min(limit, 200)) : 50;
+  const safeOffset = Number.isFinite(offset) ? Math.max(0, offset) : 0;
+  return c.json({
+    ok: true,
+    endpoints: webhooksStore.listEndpointsForOwner(userId, safeLimit, safeOffset),
+  });
+});
+
+// The signing secret is only returned here; it is stored encrypted like deployment secrets.
+app.post("/v1/webhooks/endpoints", async (c) => {
+  if (!secretBox) {
+    return jsonError(c, 503, "Control plane not configured", controlPlaneIssues);
+  }
+  const body = await c.req.json().catch(() => null);
+  const parsed = webhookEndpointCreateSchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonError(c, 400, "Invalid body", parsed.error.flatten());
+  }
+  const urlError = await webhookUrlError(parsed.data.url);
+  if (urlError) {
+    return jsonError(c, 400, urlError);
+  }
+
+  const secret = `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+  const endpoint = webhooksStore.createEndpoint({
+    id: crypto.randomUUID(),
+    ownerUserId: c.get("userId"),
+    url: parsed.data.url,
+    description: parsed.data.description,
+    eventTypes: parsed.data.events,
+    secretEncrypted: secretBox.encryptObject({ secret }),
+  });
+  return c.json({ ok: true, endpoint, secret });
+});
+
+app.get("/v1/webhooks/endpoints/:id", (c) => {
+  const endpoint = webhooksStore.getEndpointForOwner(c.get("userId"), c.req.param("id"));
+  if (!endpoint) {
+    return jsonError(c, 404, "Webhook endpoint not found");
+  }
+  return c.json({ ok: true, endpoint });
+});
+
+app.patch("/v1/webhooks/endpoints/:id", async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const parsed = webhookEndpointUpdateSchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonError(c, 400, "Invalid body", parsed.error.flatten());
+  }
+  const urlError = await webhookUrlError(parsed.data.url);
+  if (urlError) {
+    return jsonError(c, 400, urlError);
+  }
+
+  const endpoint = webhooksStore.updateEndpoint(c.get("userId"), c.req.param("id"), {
+    url: parsed.data.url,
+    description: parsed.data.description,
+    eventTypes: parsed.data.events,
+    enabled: parsed.data.enabled,
+  });
+  if (!endpoint) {
+    return jsonError(c, 404, "Webhook endpoint not found");
+  }
+  return c.json({ ok: true, endpoint });
+});
+
+app.delete("/v1/webhooks/endpoints/:id", (c) => {
+  if (!webhooksStore.deleteEndpoint(c.get("userId"), c.req.param("id"))) {
+    return jsonError(c, 404, "Webhook endpoint not found");
+  }
+  return c.json({ ok: true });
+});
+
+app.get("/v1/webhooks/endpoints/:id/deliveries", (c) => {
+  const endpoint = webhooksStore.getEndpointForOwner(c.get("userId"), c.req.param("id"));
+  if (!endpoint) {
+    return jsonError(c, 404, "Webhook endpoint not found");
+  }
+  const limit = Number.parseInt(String(c.req.query("limit") || "50"), 10);
+  const offset = Number.parseInt(String(c.req.query("offset") || "0"), 10);
+  const safeLimit = Number.isFinite(limit) ? Math.max(1, Math.min(limit, 200)) : 50;
+  const safeOffset = Number.isFinite(offset) ? Math.max(0, offset) : 0;
+  return c.json({
+    ok: true,
+    deliveries: webhooksStore.listDeliveriesForEndpoint(endpoint.id, safeLimit, safeOffset),
+  });
+});
+
+app.get("/v1/webhooks/endpoints/:id/deliveries/:deliveryId", (c) => {
+  const endpoint = webhooksStore.getEndpointForOwner(c.get("userId"), c.req.param("id"));
+  const delivery = endpoint ? webhooksStore.getDelivery(endpoint.id, c.req.param("deliveryId")) : null;
+  if (!delivery) {
+    return jsonError(c, 404, "Webhook delivery not found");
+  }
+  return c.json({
+    ok: true,
+    delivery,
+    attempts: webhooksStore.listDeliveryAttempts(delivery.id),
+  });
+});
+
+app.post("/v1/webhooks/endpoints/:id/deliveries/:deliveryId/redeliver", (c) => {
+  const endpoint = webhooksStore.getEndpointForOwner(c.get("userId"), c.req.param("id"));
+  const delivery = endpoint
+    ? webhooksStore.redeliver(endpoint.id, c.req.param("deliveryId"), crypto.randomUUID())
+    : null;
+  if (!delivery) {
+    return jsonError(c, 404, "Webhook delivery not found");
+  }
+  void webhooksDispatcher?.tick();
+  return c.json({ ok: true, delivery });
+});
+
 app.get("/v1/orders", (c) => {
   const userId = c.get("userId");
   const limit = Number.parseInt(String(c.req.query("limit") || "50"), 10);
@@ -1094,6 +1930,115 @@ app.get("/v1/deployments/:id", (c) => {
   });
 });
 
+app.get("/v1/deployments/:id/health", (c) => {
+  const userId = c.get("userId");
+  const deployment = deploymentsStore.getPublicForOwner(userId, c.req.param("id"));
+  if (!deployment) {
+    return jsonError(c, 404, "Deployment not found");
+  }
+
+  const limit = Number.parseInt(String(c.req.query("limit") || "50"), 10);
+  const safeLimit = Number.isFinite(limit) ? Math.max(1, Math.min(limit, 500)) : 50;
+  return c.json({
+    ok: true,
+    health: deployment.health,
+    history: deploymentsStore.listHealthHistory(deployment.id, safeLimit),
+  });
+});
+
+// Redacted remote command output (bootstrap/uninstall), oldest first. Page with `after=<nextAfter>`.
+app.get("/v1/deployments/:id/logs", (c) => {
+  const userId = c.get("userId");
+  const deployment = deploymentsStore.getPublicForOwner(userId, c.req.param("id"));
+  if (!deployment) {
+    return jsonError(c, 404, "Deployment not found");
+  }
+
+  const limit = Number.parseInt(String(c.req.query("limit") || "200"), 10);
+  const after = Number.parseInt(String(c.req.query("after") || "0"), 10);
+  const safeLimit = Number.isFinite(limit) ? Math.max(1, Math.min(limit, 1000)) : 200;
+  const safeAfter = Number.isFinite(after) ? Math.max(0, after) : 0;
+
+  const logs = deploymentsStore.listLogs(deployment.id, safeAfter, safeLimit);
+  return c.json({
+    ok: true,
+    logs,
+    nextAfter: logs.length > 0 ? logs[logs.length - 1].id : safeAfter,
+    hasMore: logs.length === safeLimit,
+  });
+});
+
+// Server-Sent Events: `deployment` messages carry status snapshots, `event` messages carry timeline events
+// with their integer id as the SSE id, so reconnecting clients resume from `Last-Event-ID`.
+app.get("/v1/deployments/:id/events/stream", (c) => {
+  const userId = c.get("userId");
+  const deploymentId = c.req.param("id");
+  if (!deploymentsStore.getPublicForOwner(userId, deploymentId)) {
+    return jsonError(c, 404, "Deployment not found");
+  }
+
+  const requestedLastEventId = Number.parseInt(c.req.header("last-event-id") ?? c.req.query("lastEventId") ?? "", 10);
+  let lastEventId = Number.isFinite(requestedLastEventId) && requestedLastEventId > 0 ? requestedLastEventId : 0;
+
+  return streamSSE(c, async (stream) => {
+    const queue: DeploymentStreamMessage[] = [];
+    let wake: (() => void) | null = null;
+    let closed = false;
+
+    // Subscribe before reading the database so nothing committed in between is missed; events that are
+    // both replayed and queued are dropped by id below.
+    const unsubscribe = deploymentEventsHub.subscribe(deploymentId, (message) => {
+      queue.push(message);
+      wake?.();
+    });
+    const heartbeat = setInterval(() => {
+      void stream.write(": keep-alive\n\n");
+    }, Math.max(1_000, eventStreamHeartbeatMs));
+    stream.onAbort(() => {
+      closed = true;
+      wake?.();
+    });
+
+    const writeEvent = async (event: DeploymentEvent) => {
+      lastEventId = event.id;
+      await stream.writeSSE({ id: String(event.id), event: "event", data: JSON.stringify(event) });
+    };
+
+    try {
+      const snapshot = deploymentsStore.getPublicForOwner(userId, deploymentId);
+      if (!snapshot) return;
+      await stream.writeSSE({ event: "deployment", data: JSON.stringify(snapshot) });
+
+      for (;;) {
+        const missed = deploymentsStore.listEventsAfter(deploymentId, lastEventId, 500);
+        for (const event of missed) {
+          await writeEvent(event);
+        }
+        if (missed.length < 500) break;
+      }
+
+      while (!closed) {
+        const message = queue.shift();
+        if (!message) {
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+          });
+          wake = null;
+          continue;
+        }
+        if (message.kind === "deployment") {
+          await stream.writeSSE({ event: "deployment", data: JSON.stringify(message.deployment) });
+        } else if (message.event.id > lastEventId) {
+          await writeEvent(message.event);
+        }
+      }
+    } finally {
+      clearInterval(heartbeat);
+      unsubscribe();
+    }
+  });
+});
+
 app.post("/v1/deployments/:id/cancel", async (c) => {
   const userId = c.get("userId");
   const body = await c.req.json().catch(() => null);
@@ -1112,6 +2057,29 @@ app.post("/v1/deployments/:id/cancel", async (c) => {
   return c.json({ ok: true, deployment });
 });
 
+// Only for deployments created with an expiry; pushes it `hours` further out.
+app.post("/v1/deployments/:id/extend", async (c) => {
+  const userId = c.get("userId");
+  const body = await c.req.json().catch(() => null);
+  const schema = z.object({
+    hours: z.number().positive().max(MAX_DEPLOYMENT_TTL_HOURS),
+  });
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return jsonError(c, 400, "Invalid body", parsed.error.flatten());
+  }
+
+  try {
+    const deployment = deploymentsStore.extendExpiry(userId, c.req.param("id"), parsed.data.hours);
+    if (!deployment) {
+      return jsonError(c, 404, "Deployment not found");
+    }
+    return c.json({ ok: true, deployment });
+  } catch (error) {
+    return jsonError(c, 409, error instanceof Error ? error.message : String(error));
+  }
+});
+
 app.post("/v1/deployments/:id/retry", (c) => {
   const userId = c.get("userId");
   const id = c.req.param("id");
@@ -1126,17 +2094,415 @@ app.post("/v1/deployments/:id/retry", (c) => {
   }
 });
 
+// Applies config changes to a running deployment without reprovisioning. The worker runs a `reconfigure` task
+// over SSH; the change set is recorded on the timeline (secret values never are).
+app.patch("/v1/deployments/:id", async (c) => {
+  const userId = c.get("userId");
+  const body = await c.req.json().catch(() => null);
+  const parsed = deploymentReconfigureSchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonError(c, 400, "Invalid body", parsed.error.flatten());
+  }
+
+  try {
+    assertDeploymentsWritable();
+    const existing = deploymentsStore.getPublicForOwner(userId, c.req.param("id"));
+    const current = existing ? deploymentsStore.getInternal(existing.id) : null;
+    if (!current) {
+      return jsonError(c, 404, "Deployment not found");
+    }
+    if (current.status !== "running") {
+      return jsonError(c, 409, "Only running deployments can be reconfigured");
+    }
+    if (!deploymentSshAddress(current.resources)) {
+      return jsonError(c, 409, "Deployment has no SSH target; change its config on the machine");
+    }
+
+    const secrets = secretBox!.decryptObject<DeploymentSecrets>(current.secretsEncrypted);
+    // Only a change to the Discord settings is checked against Discord again.
+    const discordPreflight = Object.keys(parsed.data).some((field) => field.startsWith("discord"));
+    const normalized = await normalizeDeploymentInput(mergeReconfigureInput(current, secrets, parsed.data), {
+      discordPreflight,
+    });
+    // The version only changes through an upgrade, and the access mode not at all.
+    normalized.config.openclawVersion = current.config.openclawVersion;
+    normalized.config.accessMode = current.config.accessMode;
+    const changes = diffDeploymentConfig(current.config, normalized.config);
+    const secretsChanged = diffSecretNames(secrets, normalized.secrets);
+    if (changes.length === 0 && secretsChanged.length === 0) {
+      return c.json({ ok: true, deployment: existing, changed: false });
+    }
+
+    const deployment = deploymentsStore.requestReconfigure(userId, current.id, {
+      config: normalized.config,
+      secretsEncrypted: secretBox!.encryptObject(normalized.secrets),
+      changes,
+      secretsChanged,
+    });
+    if (!deployment) {
+      return jsonError(c, 404, "Deployment not found");
+    }
+    return c.json({ ok: true, deployment, changed: true });
+  } catch (error) {
+    const typed = error as HttpError;
+    // Store state conflicts are plain errors; validation failures carry their own status.
+    return jsonError(c, Number.isFinite(typed.statusCode) ? Number(typed.statusCode) : 409, typed.message, typed.details);
+  }
+});
+
+const deploymentUpgradeSchema = z.object({
+  version: z.string().regex(OPENCLAW_VERSION_PATTERN, "version must be x.y.z or latest"),
+});
+
+// Shared by the owner route and the admin fleet route. Upgrading to the version already pinned is a no-op.
+function queueOpenclawUpgrade(deployment: DeploymentPublic, version: string, requestedBy: string) {
+  assertDeploymentsWritable();
+  if (deployment.status !== "running") {
+    throw createHttpError(409, "Only running deployments can be upgraded");
+  }
+  if (!deploymentSshAddress(deployment.resources)) {
+    throw createHttpError(409, "Deployment has no SSH target; upgrade it on the machine");
+  }
+  if (version !== "latest" && deployment.config.openclawVersion === version) {
+    return { deployment, changed: false };
+  }
+  try {
+    const upgraded = deploymentsStore.requestUpgrade(deployment.ownerUserId, deployment.id, {
+      config: { ...deployment.config, openclawVersion: version },
+      fromVersion: deployment.config.openclawVersion ?? null,
+      requestedBy,
+    });
+    if (!upgraded) {
+      throw createHttpError(404, "Deployment not found");
+    }
+    return { deployment: upgraded, changed: true };
+  } catch (error) {
+    if ((error as HttpError).statusCode) throw error;
+    throw createHttpError(409, error instanceof Error ? error.message : String(error));
+  }
+}
+
+// Installs another openclaw version with the `upgrade` task; the worker rolls back if the gateway doesn't
+// come back healthy on it.
+app.post("/v1/deployments/:id/upgrade", async (c) => {
+  const userId = c.get("userId");
+  const body = await c.req.json().catch(() => null);
+  const parsed = deploymentUpgradeSchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonError(c, 400, "Invalid body", parsed.error.flatten());
+  }
+  const deployment = deploymentsStore.getPublicForOwner(userId, c.req.param("id"));
+  if (!deployment) {
+    return jsonError(c, 404, "Deployment not found");
+  }
+  try {
+    return c.json({ ok: true, ...queueOpenclawUpgrade(deployment, parsed.data.version, userId) });
+  } catch (error) {
+    const typed = error as HttpError;
+    return jsonError(c, Number.isFinite(typed.statusCode) ? Number(typed.statusCode) : 500, typed.message, typed.details);
+  }
+});
+
+// Owner-only. Every reveal is recorded in the deployment timeline.
+app.post("/v1/deployments/:id/gateway-token/reveal", (c) => {
+  if (!secretBox) {
+    return jsonError(c, 503, "Control plane not configured", controlPlaneIssues);
+  }
+  const userId = c.get("userId");
+  const deployment = deploymentsStore.getPublicForOwner(userId, c.req.param("id"));
+  if (!deployment) {
+    return jsonError(c, 404, "Deployment not found");
+  }
+  const gatewayTokenEncrypted = deploymentsStore.getInternal(deployment.id)?.gatewayTokenEncrypted;
+  if (!gatewayTokenEncrypted) {
+    return jsonError(c, 409, "Deployment has no gateway token");
+  }
+
+  const { gatewayToken } = secretBox.decryptObject<{ gatewayToken: string }>(gatewayTokenEncrypted);
+  deploymentsStore.appendEvent(deployment.id, "deployment.gateway_token.revealed", "Gateway token revealed", {
+    userId,
+  });
+  c.header("cache-control", "no-store");
+  return c.json({ ok: true, gatewayToken, tailnetUrl: deployment.tailnetUrl });
+});
+
+// Runs inline: rewrites the token on the machine over SSH, restarts the gateway and waits until it accepts the
+// new token before storing it. On failure the machine is switched back and the stored token stays valid.
+app.post("/v1/deployments/:id/gateway-token/rotate", async (c) => {
+  if (!secretBox) {
+    return jsonError(c, 503, "Control plane not configured", controlPlaneIssues);
+  }
+  const userId = c.get("userId");
+  const deployment = deploymentsStore.getPublicForOwner(userId, c.req.param("id"));
+  if (!deployment) {
+    return jsonError(c, 404, "Deployment not found");
+  }
+  if (!deploymentSshAddress(deployment.resources)) {
+    return jsonError(c, 409, "Deployment is not reachable over SSH; rotate the token on the machine itself");
+  }
+
+  const leaseOwner = `gateway-token-rotation-${crypto.randomUUID()}`;
+  const job = deploymentsStore.beginGatewayTokenRotation(
+    userId,
+    deployment.id,
+    leaseOwner,
+    gatewayTokenRotateTimeoutMs + 60_000,
+  );
+  if (!job?.gatewayTokenEncrypted) {
+    return jsonError(c, 409, "Gateway token can only be rotated on a running deployment with no operation in progress");
+  }
+  // The lease keeps the address (checked above) and its pinned host keys from changing underneath.
+  const target = deploymentSshTarget(job)!;
+
+  const currentToken = secretBox.decryptObject<{ gatewayToken: string }>(job.gatewayTokenEncrypted).gatewayToken;
+  const nextToken = generateGatewayToken();
+  try {
+    await rotateGatewayToken({
+      target,
+      currentToken,
+      nextToken,
+      privateKeyPath: provisionerSshPrivateKeyPath || undefined,
+      timeoutMs: gatewayTokenRotateTimeoutMs,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    deploymentsStore.failGatewayTokenRotation(job.id, leaseOwner, message);
+    return jsonError(c, 502, "Gateway token rotation failed", { message });
+  }
+
+  const updated = deploymentsStore.completeGatewayTokenRotation(
+    job.id,
+    leaseOwner,
+    secretBox.encryptObject({ gatewayToken: nextToken }),
+  );
+  if (!updated) {
+    return jsonError(c, 409, "Deployment changed while the gateway token was being rotated");
+  }
+  c.header("cache-control", "no-store");
+  return c.json({ ok: true, deployment: updated, gatewayToken: nextToken });
+});
+
+function requestBaseUrl(c: any): string {
+  return publicApiUrl || new URL(c.req.url).origin;
+}
+
+app.post("/v1/deployments/:id/enrollment", (c) => {
+  const userId = c.get("userId");
+  const id = c.req.param("id");
+  const token = crypto.randomBytes(32).toString("base64url");
+  try {
+    const enrollment = deploymentsStore.createEnrollmentToken(userId, id, sha256Hex(token), enrollmentTokenTtlMs);
+    if (!enrollment) {
+      return jsonError(c, 404, "Deployment not found");
+    }
+    const installUrl = `${requestBaseUrl(c)}/v1/deployments/${id}/install.sh?token=${token}`;
+    return c.json({
+      ok: true,
+      enrollment: {
+        ...enrollment,
+        installUrl,
+        command: `curl -fsSL '${installUrl}' | sudo bash`,
+      },
+    });
+  } catch (error) {
+    return jsonError(c, 409, error instanceof Error ? error.message : String(error));
+  }
+});
+
+app.get("/v1/deployments/:id/install.sh", (c) => {
+  const id = c.req.param("id");
+  const token = String(c.req.query("token") || "");
+  if (!secretBox) {
+    return jsonError(c, 503, "Control plane not configured", controlPlaneIssues);
+  }
+  const invalidLink = () => jsonError(c, 404, "Enrollment link is invalid, expired or already used");
+  if (!token) {
+    return invalidLink();
+  }
+
+  const deployment = deploymentsStore.getInternal(id);
+  if (!deployment || deployment.provider !== "byo" || deployment.status !== "pending") {
+    return invalidLink();
+  }
+
+  // Decrypt before consuming the token so a broken secret payload does not burn the link.
+  const secrets = secretBox.decryptObject<DeploymentSecrets>(deployment.secretsEncrypted);
+  const gatewayToken = generateGatewayToken();
+  const callbackSecret = crypto.randomBytes(32).toString("base64url");
+
+  const started = deploymentsStore.beginEnrollment(id, {
+    tokenHash: sha256Hex(token),
+    callbackSecretHash: sha256Hex(callbackSecret),
+    gatewayTokenEncrypted: secretBox.encryptObject({ gatewayToken }),
+    installTimeoutMs: enrollmentInstallTimeoutMs,
+  });
+  if (!started) {
+    return invalidLink();
+  }
+
+  const bootstrap = buildDeploymentBootstrap(started.config, secrets, { gatewayToken });
+  const script = buildEnrollmentInstallScript({
+    deploymentId: id,
+    bootstrapScript: bootstrap.script,
+    env: bootstrap.env,
+    callbackUrl: `${requestBaseUrl(c)}/v1/deployments/${id}/enrollment/complete`,
+    callbackSecret,
+    publicUrl: publicDomainUrl(started.config),
+  });
+  return c.body(script, 200, {
+    "content-type": "text/x-shellscript; charset=utf-8",
+    "cache-control": "no-store",
+  });
+});
+
+app.post("/v1/deployments/:id/enrollment/complete", async (c) => {
+  const id = c.req.param("id");
+  const authorization = c.req.header("authorization") ?? "";
+  const callbackSecret = authorization.startsWith("Bearer ") ? authorization.slice("Bearer ".length).trim() : "";
+  if (!callbackSecret || !deploymentsStore.verifyEnrollmentCallback(id, sha256Hex(callbackSecret))) {
+    return jsonError(c, 401, "Unauthorized");
+  }
+
+  const body = await c.req.json().catch(() => null);
+  const schema = z.object({
+    ok: z.boolean(),
+    tailnetUrl: z.string().url().max(512).nullable().optional(),
+    error: z.string().max(2000).optional(),
+  });
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return jsonError(c, 400, "Invalid body", parsed.error.flatten());
+  }
+
+  if (deploymentsStore.isCancelRequested(id)) {
+    if (parsed.data.ok) {
+      deploymentsStore.appendEvent(
+        id,
+        "deployment.enrollment.canceled",
+        "Install finished after cancel was requested; OpenClaw must be uninstalled on the machine",
+      );
+    }
+    const canceled = deploymentsStore.markCanceledFromProvisioning(id, ENROLLMENT_LEASE_OWNER);
+    return c.json({ ok: true, deployment: canceled });
+  }
+
+  if (!parsed.data.ok) {
+    const failed = deploymentsStore.markFailed(
+      id,
+      ENROLLMENT_LEASE_OWNER,
+      `Install script failed: ${parsed.data.error ?? "unknown error"}`,
+    );
+    return c.json({ ok: true, deployment: failed });
+  }
+
+  const current = deploymentsStore.getInternal(id);
+  if (!current?.gatewayTokenEncrypted) {
+    return jsonError(c, 409, "Deployment is missing its gateway token");
+  }
+  const running = deploymentsStore.markRunning(id, ENROLLMENT_LEASE_OWNER, {
+    serverId: null,
+    serverName: null,
+    serverIp: null,
+    sshKeyId: null,
+    tailnetUrl: parsed.data.tailnetUrl ?? null,
+    gatewayTokenEncrypted: current.gatewayTokenEncrypted,
+  });
+  if (!running) {
+    return jsonError(c, 409, "Deployment is no longer waiting for enrollment");
+  }
+  return c.json({ ok: true, deployment: running });
+});
+
+app.get("/v1/admin/deployments", (c) => {
+  const limit = Number.parseInt(String(c.req.query("limit") || "50"), 10);
+  const offset = Number.parseInt(String(c.req.query("offset") || "0"), 10);
+  const safeLimit = Number.isFinite(limit) ? Math.max(1, Math.min(limit, 200)) : 50;
+  const safeOffset = Number.isFinite(offset) ? Math.max(0, offset) : 0;
+  const status = c.req.query("status");
+  if (status !== undefined && !(DEPLOYMENT_STATUSES as readonly string[]).includes(status)) {
+    return jsonError(c, 400, `status must be one of: ${DEPLOYMENT_STATUSES.join(", ")}`);
+  }
+  return c.json({
+    ok: true,
+    deployments: deploymentsStore.listPublicAll(safeLimit, safeOffset, {
+      status: status as DeploymentStatus | undefined,
+    }),
+  });
+});
+
+app.get("/v1/admin/deployments/:id", (c) => {
+  const deployment = deploymentsStore.getPublic(c.req.param("id"));
+  if (!deployment) {
+    return jsonError(c, 404, "Deployment not found");
+  }
+  return c.json({ ok: true, deployment, events: deploymentsStore.listEvents(deployment.id, 200) });
+});
+
+app.get("/v1/admin/orphans", (c) => {
+  const limit = Number.parseInt(String(c.req.query("limit") || "50"), 10);
+  const offset = Number.parseInt(String(c.req.query("offset") || "0"), 10);
+  const safeLimit = Number.isFinite(limit) ? Math.max(1, Math.min(limit, 200)) : 50;
+  const safeOffset = Number.isFinite(offset) ? Math.max(0, offset) : 0;
+  const status = c.req.query("status") ?? "orphaned";
+  if (!(ORPHANED_RESOURCE_STATUSES as readonly string[]).includes(status)) {
+    return jsonError(c, 400, `status must be one of: ${ORPHANED_RESOURCE_STATUSES.join(", ")}`);
+  }
+  return c.json({
+    ok: true,
+    orphans: deploymentsStore.listOrphanedResources({
+      status: status as OrphanedResourceStatus,
+      limit: safeLimit,
+      offset: safeOffset,
+    }),
+  });
+});
+
+// Scans every known provider account now (joining a scan that is already running) and returns the report.
+app.post("/v1/admin/orphans/scan", async (c) => {
+  if (!orphanReconciler) {
+    return jsonError(c, 503, "Control plane not configured", controlPlaneIssues);
+  }
+  return c.json({ ok: true, report: await orphanReconciler.reconcile() });
+});
+
+// Used by `clawpad fleet:upgrade`, which queues these in batches and waits for each batch to finish.
+app.post("/v1/admin/deployments/:id/upgrade", async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const parsed = deploymentUpgradeSchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonError(c, 400, "Invalid body", parsed.error.flatten());
+  }
+  const deployment = deploymentsStore.getPublic(c.req.param("id"));
+  if (!deployment) {
+    return jsonError(c, 404, "Deployment not found");
+  }
+  try {
+    return c.json({ ok: true, ...queueOpenclawUpgrade(deployment, parsed.data.version, c.get("userId")) });
+  } catch (error) {
+    const typed = error as HttpError;
+    return jsonError(c, Number.isFinite(typed.statusCode) ? Number(typed.statusCode) : 500, typed.message, typed.details);
+  }
+});
+
 const port = Number.parseInt(process.env.PORT || "8788", 10);
 serve({ fetch: app.fetch, port });
 
 process.on("SIGINT", () => {
   deploymentsWorker?.stop();
+  deploymentsMonitor?.stop();
+  orphanReconciler?.stop();
+  webhooksDispatcher?.stop();
   billingStore.close();
   deploymentsStore.close();
+  webhooksStore.close();
 });
 
 process.on("SIGTERM", () => {
   deploymentsWorker?.stop();
+  deploymentsMonitor?.stop();
+  orphanReconciler?.stop();
+  webhooksDispatcher?.stop();
   billingStore.close();
   deploymentsStore.close();
+  webhooksStore.close();
 });
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { SecretBox } from "../dist/lib/crypto.js";
+import { buildDeploymentBootstrap } from "../dist/lib/deployment-bootstrap.js";
+import { DeploymentsStore } from "../dist/lib/deployments-store.js";
+import { DeploymentsWorker } from "../dist/lib/deployments-worker.js";
+import { authHeaders, startApiServer, TEST_DEPLOYMENT_KEY } from "./api-server.mjs";
+import { installFakeSsh } from "./fake-ssh.mjs";
+
+const BASE_CONFIG = { name: "access", authChoice: "skip", discordGroupPolicy: "disabled" };
+
+async function createDeployment(baseUrl, body) {
+  const response = await fetch(`${baseUrl}/v1/deployments`, {
+    method: "POST",
+    headers: authHeaders({ "content-type": "application/json" }),
+    body: JSON.stringify({ provider: "byo", name: "access-host", byoHost: "192.0.2.100", ...body }),
+  });
+  return { status: response.status, json: await response.json() };
+}
+
+test("access modes pick the bootstrap's Tailscale mode or an nginx + certbot proxy", () => {
+  const serve = buildDeploymentBootstrap(BASE_CONFIG, { tailscaleAuthKey: "tskey-serve" }, { gatewayToken: "t" });
+  assert.match(serve.script, /--tailscale serve/);
+  assert.doesNotMatch(serve.script, /run_phase proxy/);
+  assert.equal(serve.env.TAILSCALE_AUTH_KEY, "tskey-serve");
+
+  const funnel = buildDeploymentBootstrap(
+    { ...BASE_CONFIG, accessMode: "tailscale-funnel" },
+    { tailscaleAuthKey: "tskey-funnel" },
+    { gatewayToken: "t" },
+  );
+  assert.match(funnel.script, /--tailscale funnel/);
+  assert.match(funnel.script, /^run_phase tailscale phase_tailscale$/m);
+
+  const publicDomain = buildDeploymentBootstrap(
+    { ...BASE_CONFIG, accessMode: "public-domain", publicDomain: "claw.example.com", acmeEmail: "ops@example.com" },
+    {},
+    { gatewayToken: "t" },
+  );
+  assert.match(publicDomain.script, /^run_phase proxy phase_proxy$/m);
+  assert.match(publicDomain.script, /server_name claw\.example\.com;/);
+  assert.match(publicDomain.script, /proxy_pass http:\/\/127\.0\.0\.1:18789;/);
+  assert.match(publicDomain.script, /ufw allow 443\/tcp/);
+  assert.match(publicDomain.script, /--email 'ops@example\.com'/);
+  assert.match(publicDomain.script, /-d claw\.example\.com --redirect/);
+  assert.doesNotMatch(publicDomain.script, /run_phase tailscale|--tailscale /);
+  assert.equal(publicDomain.env.TAILSCALE_AUTH_KEY, undefined);
+});
+
+test("public-domain deployments need a hostname instead of a Tailscale key and report the public URL", async (t) => {
+  await installFakeSsh(t, { gatewayToken: "not-yet-bootstrapped" });
+  const { baseUrl, deploymentsDbPath } = await startApiServer(t);
+
+  const noKey = await createDeployment(baseUrl, {});
+  assert.equal(noKey.status, 400);
+  assert.equal(noKey.json.error, "tailscaleAuthKey is required when accessMode=tailscale-serve");
+  const noDomain = await createDeployment(baseUrl, { accessMode: "public-domain" });
+  assert.equal(noDomain.json.error, "publicDomain is required when accessMode=public-domain");
+  const badDomain = await createDeployment(baseUrl, { accessMode: "public-domain", publicDomain: "localhost" });
+  assert.equal(badDomain.status, 400);
+
+  const created = await createDeployment(baseUrl, {
+    accessMode: "public-domain",
+    publicDomain: "Claw.Example.com",
+    tailscaleHostname: "ignored",
+  });
+  assert.equal(created.status, 200);
+  const { deployment } = created.json;
+  assert.equal(deployment.config.accessMode, "public-domain");
+  assert.equal(deployment.config.publicDomain, "claw.example.com");
+  assert.equal(deployment.config.tailscaleHostname, undefined);
+
+  const store = new DeploymentsStore(deploymentsDbPath);
+  t.after(() => store.close());
+  const worker = new DeploymentsWorker({
+    store,
+    secretBox: new SecretBox(TEST_DEPLOYMENT_KEY),
+    leaseMs: 60_000,
+    intervalMs: 60_000,
+    verifyTimeoutMs: 300,
+    provisionConfig: { sshPublicKeyPath: "/nonexistent.pub" },
+  });
+  await worker.tick();
+  const running = store.getPublic(deployment.id);
+  assert.equal(running.status, "running");
+  assert.equal(running.tailnetUrl, "https://claw.example.com/");
+});
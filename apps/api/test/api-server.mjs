@@ -0,0 +1,187 @@
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { once } from "node:events";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { createServer } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { SecretBox } from "../dist/lib/crypto.js";
+import { DeploymentsStore } from "../dist/lib/deployments-store.js";
+import { DeploymentsWorker } from "../dist/lib/deployments-worker.js";
+
+const apiDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+export const TEST_API_TOKEN = "test-api-token";
+export const TEST_DEPLOYMENT_KEY = "test-deployment-encryption-key";
+export const TEST_WORKER_ID = "worker-test";
+
+export function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function authHeaders(extra = {}) {
+  return {
+    authorization: `Bearer ${TEST_API_TOKEN}`,
+    ...extra,
+  };
+}
+
+async function getFreePort() {
+  const server = createServer();
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  await new Promise((resolve) => server.close(resolve));
+  if (!address || typeof address === "string") {
+    throw new Error("Failed to allocate free TCP port");
+  }
+  return address.port;
+}
+
+async function waitForServerReady(baseUrl, child, timeoutMs = 10_000) {
+  const startedAt = Date.now();
+  while (Date.now() - startedAt < timeoutMs) {
+    if (child.exitCode !== null) {
+      throw new Error(`API process exited early with code ${child.exitCode}`);
+    }
+    try {
+      const response = await fetch(`${baseUrl}/health`);
+      if (response.ok) return;
+    } catch {
+      // Server not ready yet.
+    }
+    await sleep(100);
+  }
+  throw new Error(`API did not become ready at ${baseUrl} within ${timeoutMs}ms`);
+}
+
+async function stopServer(child) {
+  if (child.exitCode !== null) return;
+  child.kill("SIGTERM");
+  const timeout = sleep(2_000).then(() => "timeout");
+  const exited = once(child, "exit").then(() => "exited");
+  const result = await Promise.race([timeout, exited]);
+  if (result === "timeout" && child.exitCode === null) {
+    child.kill("SIGKILL");
+    await once(child, "exit");
+  }
+}
+
+// Starts dist/server.js against throwaway SQLite files with the worker and the Discord preflight disabled.
+export async function startApiServer(t, env = {}) {
+  const tmpRoot = await mkdtemp(path.join(tmpdir(), "clawpad-api-test-"));
+  const sshPubPath = path.join(tmpRoot, "id_ed25519.pub");
+  await writeFile(sshPubPath, "ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAITestOnlyFakeKeyNotForUse clawpad@test\n", "utf8");
+
+  const port = await getFreePort();
+  const baseUrl = `http://127.0.0.1:${port}`;
+  const paths = {
+    deploymentsDbPath: path.join(tmpRoot, "deployments.db"),
+    billingDbPath: path.join(tmpRoot, "billing.db"),
+    webhooksDbPath: path.join(tmpRoot, "webhooks.db"),
+  };
+
+  const child = spawn(process.execPath, ["dist/server.js"], {
+    cwd: apiDir,
+    env: {
+      ...process.env,
+      PORT: String(port),
+      API_BEARER_TOKEN: TEST_API_TOKEN,
+      DEPLOYMENTS_DB_PATH: paths.deploymentsDbPath,
+      BILLING_DB_PATH: paths.billingDbPath,
+      WEBHOOKS_DB_PATH: paths.webhooksDbPath,
+      DEPLOYMENTS_ENCRYPTION_KEY: TEST_DEPLOYMENT_KEY,
+      DEPLOY_WORKER_ENABLED: "false",
+      DISCORD_PREFLIGHT_ENABLED: "false",
+      PROVISIONER_SSH_PUBLIC_KEY_PATH: sshPubPath,
+      ...env,
+    },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  let output = "";
+  child.stdout.on("data", (chunk) => (output += String(chunk)));
+  child.stderr.on("data", (chunk) => (output += String(chunk)));
+
+  try {
+    await waitForServerReady(baseUrl, child);
+  } catch (error) {
+    await stopServer(child);
+    await rm(tmpRoot, { recursive: true, force: true });
+    throw new Error(`Failed to start API server: ${error instanceof Error ? error.message : String(error)}\n${output}`);
+  }
+
+  t.after(async () => {
+    await stopServer(child);
+    await rm(tmpRoot, { recursive: true, force: true });
+  });
+
+  return { baseUrl, ...paths };
+}
+
+// JSON request with the test bearer token; returns the status and the parsed body.
+export async function api(baseUrl, method, path, body) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: authHeaders(body ? { "content-type": "application/json" } : {}),
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return { status: response.status, json: await response.json() };
+}
+
+// Does what a successful provision job does to a queued deployment: lease it, record its SSH host and mark it
+// running with `gatewayToken`.
+export function markDeploymentRunning(
+  store,
+  deploymentId,
+  {
+    sshHost,
+    gatewayToken,
+    secretBox = new SecretBox(TEST_DEPLOYMENT_KEY),
+    tailnetUrl = null,
+    openclawVersion,
+    workerId = TEST_WORKER_ID,
+  },
+) {
+  assert.equal(store.leaseNextProvisionJob(workerId, 60_000)?.id, deploymentId);
+  store.updateResourceState(deploymentId, workerId, { sshHost, sshUser: "root", sshPort: 22 });
+  store.markRunning(deploymentId, workerId, {
+    serverId: null,
+    serverName: null,
+    serverIp: null,
+    sshKeyId: null,
+    tailnetUrl,
+    gatewayTokenEncrypted: secretBox.encryptObject({ gatewayToken }),
+    ...(openclawVersion ? { openclawVersion } : {}),
+  });
+}
+
+// The API server's worker is disabled, so tests create a BYO deployment through the API, move it to running
+// through a store on the server's database and run its jobs with the returned worker (`workerOptions` override
+// the defaults).
+export async function createRunningByoDeployment(t, { baseUrl, dbPath, input, token, tailnetUrl, workerOptions }) {
+  const created = await api(baseUrl, "POST", "/v1/deployments", { provider: "byo", ...input });
+  assert.equal(created.status, 200);
+  const { deployment } = created.json;
+
+  const secretBox = new SecretBox(TEST_DEPLOYMENT_KEY);
+  const store = new DeploymentsStore(dbPath);
+  t.after(() => store.close());
+  markDeploymentRunning(store, deployment.id, {
+    sshHost: input.byoHost,
+    gatewayToken: token,
+    secretBox,
+    tailnetUrl,
+    openclawVersion: input.openclawVersion,
+  });
+
+  const worker = new DeploymentsWorker({
+    store,
+    secretBox,
+    leaseMs: 60_000,
+    intervalMs: 60_000,
+    provisionConfig: { sshPublicKeyPath: "/nonexistent.pub" },
+    ...workerOptions,
+  });
+  return { deployment, store, secretBox, worker };
+}
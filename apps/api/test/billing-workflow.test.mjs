@@ -122,6 +122,7 @@ async function createContext(
   const tmpRoot = await mkdtemp(path.join(tmpdir(), "clawpad-api-test-"));
   const deploymentsDbPath = path.join(tmpRoot, "deployments.db");
   const billingDbPath = path.join(tmpRoot, "billing.db");
+  const webhooksDbPath = path.join(tmpRoot, "webhooks.db");
   const sshPubPath = path.join(tmpRoot, "id_ed25519.pub");
   const {
     apiToken = "test-api-token",
@@ -147,6 +148,7 @@ async function createContext(
       API_BEARER_TOKEN: apiToken,
       DEPLOYMENTS_DB_PATH: deploymentsDbPath,
       BILLING_DB_PATH: billingDbPath,
+      WEBHOOKS_DB_PATH: webhooksDbPath,
       DEPLOYMENTS_ENCRYPTION_KEY: deploymentKey,
       DEPLOY_WORKER_ENABLED: "false",
       PROVISIONER_SSH_PUBLIC_KEY_PATH: sshPubPath,
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { DeploymentsStore } from "../dist/lib/deployments-store.js";
+import { buildRemoteBootstrapScript, parseBootstrapPhaseMarker } from "../dist/lib/remote-script.js";
+
+const WORKER = "worker-test";
+
+async function createStore(t) {
+  const tmpRoot = await mkdtemp(path.join(tmpdir(), "clawpad-resume-test-"));
+  const store = new DeploymentsStore(path.join(tmpRoot, "deployments.db"));
+  t.after(async () => {
+    store.close();
+    await rm(tmpRoot, { recursive: true, force: true });
+  });
+  return store;
+}
+
+// Drives a deployment to "failed" the way the worker does when the bootstrap script dies in `openclaw`.
+function failDuringBootstrap(store, id) {
+  store.createDeployment({
+    id,
+    provider: "hetzner",
+    ownerUserId: "system",
+    name: id,
+    config: { name: id, serverType: "cx23", image: "ubuntu-24.04", location: "nbg1", authChoice: "skip", discordGroupPolicy: "allowlist" },
+    secretsEncrypted: "encrypted",
+  });
+  assert.equal(store.leaseNextProvisionJob(WORKER, 60_000).id, id);
+  store.updateResourceState(id, WORKER, {
+    sshKeyId: 11,
+    serverId: 22,
+    serverName: id,
+    serverIp: "192.0.2.22",
+    gatewayTokenEncrypted: "token-ciphertext",
+  });
+  for (const line of [
+    "::clawpad-phase:: packages started",
+    "::clawpad-phase:: packages completed",
+    "::clawpad-phase:: node started",
+    "::clawpad-phase:: node completed",
+    "::clawpad-phase:: openclaw started",
+    "::clawpad-phase:: openclaw failed",
+  ]) {
+    const marker = parseBootstrapPhaseMarker(line);
+    store.recordBootstrapPhase(id, WORKER, marker.phase, marker.status);
+  }
+  store.markFailed(id, WORKER, "bootstrap script failed in phase openclaw (1)");
+}
+
+test("phase markers are parsed and every phase is wrapped in the generated script", () => {
+  assert.deepEqual(parseBootstrapPhaseMarker("::clawpad-phase:: onboard completed\n"), {
+    phase: "onboard",
+    status: "completed",
+  });
+  assert.equal(parseBootstrapPhaseMarker("::clawpad-phase:: bogus started"), null);
+  assert.equal(parseBootstrapPhaseMarker("npm ERR! ::clawpad-phase:: node failed"), null);
+
+  const script = buildRemoteBootstrapScript({
+    gatewayPort: 18789,
+    gatewayBind: "loopback",
+    tailscaleMode: "serve",
+    authChoice: "skip",
+  });
+  for (const phase of ["packages", "tailscale", "node", "openclaw", "onboard", "systemd", "firewall"]) {
+    assert.match(script, new RegExp(`^run_phase ${phase} phase_${phase}$`, "m"));
+  }
+  // Without a Discord bot there is nothing to wire up.
+  assert.doesNotMatch(script, /run_phase channels/);
+});
+
+test("retry after a failed bootstrap keeps the server and gateway token for resuming", async (t) => {
+  const store = await createStore(t);
+  failDuringBootstrap(store, "dep_resume");
+
+  const failed = store.getInternal("dep_resume");
+  assert.equal(failed.status, "failed");
+  assert.deepEqual(failed.bootstrap, {
+    completedPhases: ["packages", "node"],
+    currentPhase: null,
+    failedPhase: "openclaw",
+  });
+
+  const retried = store.retryDeployment("system", "dep_resume");
+  assert.equal(retried.status, "pending");
+  assert.equal(retried.resources.serverId, 22);
+  assert.equal(retried.bootstrap.failedPhase, "openclaw");
+  assert.equal(store.getInternal("dep_resume").gatewayTokenEncrypted, "token-ciphertext");
+
+  const event = store.listEvents("dep_resume", 1)[0];
+  assert.equal(event.type, "deployment.retried");
+  assert.deepEqual(event.payload, { resumeFromPhase: "openclaw" });
+});
+
+test("canceling a failed bootstrap queues cleanup of the kept server", async (t) => {
+  const store = await createStore(t);
+  failDuringBootstrap(store, "dep_cancel");
+
+  const canceling = store.requestCancel("system", "dep_cancel", "giving up");
+  assert.equal(canceling.status, "provisioning");
+  assert.equal(canceling.activeTask, "destroy");
+
+  const destroyJob = store.leaseNextDestroyJob(WORKER, 60_000);
+  assert.equal(destroyJob.id, "dep_cancel");
+  const canceled = store.markCanceledFromDestroy("dep_cancel", WORKER);
+  assert.equal(canceled.status, "canceled");
+  assert.equal(canceled.resources.serverId, null);
+  assert.equal(canceled.bootstrap, null);
+
+  // A fresh retry starts over on a new server.
+  const retried = store.retryDeployment("system", "dep_cancel");
+  assert.equal(retried.status, "pending");
+  assert.equal(store.getInternal("dep_cancel").gatewayTokenEncrypted, null);
+});
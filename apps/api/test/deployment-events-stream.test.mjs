@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { authHeaders, startApiServer } from "./api-server.mjs";
+
+// Minimal SSE reader: yields { id, event, data } for each message, skipping comments (heartbeats).
+async function* readSse(response) {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let boundary;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const message = { id: null, event: "message", data: "" };
+      for (const line of block.split("\n")) {
+        if (line.startsWith(":")) continue;
+        const separator = line.indexOf(":");
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+        if (field === "id") message.id = value;
+        if (field === "event") message.event = value;
+        if (field === "data") message.data += value;
+      }
+      if (message.data) yield { ...message, data: JSON.parse(message.data) };
+    }
+  }
+}
+
+async function openStream(baseUrl, deploymentId, headers = {}) {
+  const controller = new AbortController();
+  const response = await fetch(`${baseUrl}/v1/deployments/${deploymentId}/events/stream`, {
+    headers: authHeaders(headers),
+    signal: controller.signal,
+  });
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get("content-type"), /text\/event-stream/);
+  return { messages: readSse(response), close: () => controller.abort() };
+}
+
+async function nextMessage(messages, predicate = () => true) {
+  for (;;) {
+    const { value, done } = await messages.next();
+    assert.equal(done, false, "stream ended unexpectedly");
+    if (predicate(value)) return value;
+  }
+}
+
+test("event stream replays history, pushes live changes and resumes from Last-Event-ID", async (t) => {
+  const { baseUrl } = await startApiServer(t);
+  const created = await fetch(`${baseUrl}/v1/deployments`, {
+    method: "POST",
+    headers: authHeaders({ "content-type": "application/json" }),
+    body: JSON.stringify({ provider: "byo", name: "stream-test", tailscaleAuthKey: "tskey-stream" }),
+  });
+  assert.equal(created.status, 200);
+  const deployment = (await created.json()).deployment;
+
+  const missing = await fetch(`${baseUrl}/v1/deployments/does-not-exist/events/stream`, { headers: authHeaders() });
+  assert.equal(missing.status, 404);
+
+  const first = await openStream(baseUrl, deployment.id);
+  const snapshot = await nextMessage(first.messages);
+  assert.equal(snapshot.event, "deployment");
+  assert.equal(snapshot.data.status, "pending");
+
+  const replayed = await nextMessage(first.messages);
+  assert.equal(replayed.event, "event");
+  assert.equal(replayed.data.type, "deployment.created");
+  assert.equal(replayed.id, String(replayed.data.id));
+
+  const enrollment = await fetch(`${baseUrl}/v1/deployments/${deployment.id}/enrollment`, {
+    method: "POST",
+    headers: authHeaders(),
+  });
+  assert.equal(enrollment.status, 200);
+  const live = await nextMessage(first.messages, (message) => message.event === "event");
+  assert.equal(live.data.type, "deployment.enrollment.created");
+
+  const cancel = await fetch(`${baseUrl}/v1/deployments/${deployment.id}/cancel`, {
+    method: "POST",
+    headers: authHeaders({ "content-type": "application/json" }),
+    body: JSON.stringify({}),
+  });
+  assert.equal(cancel.status, 200);
+  const canceledSnapshot = await nextMessage(first.messages, (message) => message.event === "deployment");
+  assert.equal(canceledSnapshot.data.status, "canceled");
+  first.close();
+
+  const resumed = await openStream(baseUrl, deployment.id, { "last-event-id": live.id });
+  assert.equal((await nextMessage(resumed.messages)).event, "deployment");
+  const afterResume = await nextMessage(resumed.messages);
+  assert.equal(afterResume.event, "event");
+  assert.ok(Number(afterResume.id) > Number(live.id));
+  assert.equal(afterResume.data.type, "deployment.canceled");
+  resumed.close();
+});
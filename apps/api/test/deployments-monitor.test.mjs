@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { SecretBox } from "../dist/lib/crypto.js";
+import { DeploymentsMonitor } from "../dist/lib/deployments-monitor.js";
+import { DeploymentsStore } from "../dist/lib/deployments-store.js";
+import { markDeploymentRunning } from "./api-server.mjs";
+import { installFakeSsh } from "./fake-ssh.mjs";
+
+const TOKEN = "gateway-token-for-monitor-tests";
+
+async function createRunningByoDeployment(t) {
+  const tmpRoot = await mkdtemp(path.join(tmpdir(), "clawpad-monitor-test-"));
+  const store = new DeploymentsStore(path.join(tmpRoot, "deployments.db"));
+  t.after(async () => {
+    store.close();
+    await rm(tmpRoot, { recursive: true, force: true });
+  });
+
+  const secretBox = new SecretBox("monitor-test-encryption-key");
+  store.createDeployment({
+    id: "dep_monitor",
+    provider: "byo",
+    ownerUserId: "system",
+    name: "monitor",
+    config: { name: "monitor", byoHost: "192.0.2.40", authChoice: "skip", discordGroupPolicy: "allowlist" },
+    secretsEncrypted: secretBox.encryptObject({ tailscaleAuthKey: "tskey-monitor" }),
+  });
+  markDeploymentRunning(store, "dep_monitor", {
+    sshHost: "192.0.2.40",
+    gatewayToken: TOKEN,
+    secretBox,
+    tailnetUrl: "https://monitor.tail.ts.net/",
+  });
+
+  // intervalMs 0 makes every running deployment due on each tick.
+  const monitor = new DeploymentsMonitor({ store, secretBox, intervalMs: 0 });
+  return { store, monitor };
+}
+
+function healthEvents(store) {
+  return store
+    .listEvents("dep_monitor", 50)
+    .filter((event) => event.type.startsWith("deployment.health."))
+    .map((event) => event.type)
+    .reverse();
+}
+
+test("monitor records health history and emits degraded/recovered only on transitions", async (t) => {
+  const fake = await installFakeSsh(t, { gatewayToken: TOKEN });
+  const { store, monitor } = await createRunningByoDeployment(t);
+  assert.equal(store.getPublic("dep_monitor").health, null);
+
+  await monitor.tick();
+  const healthy = store.getPublic("dep_monitor").health;
+  assert.equal(healthy.status, "healthy");
+  assert.deepEqual(
+    healthy.checks.map((check) => check.name),
+    ["service", "probe", "disk", "memory"],
+  );
+  assert.deepEqual(healthEvents(store), []);
+
+  await fake.setState("full");
+  await monitor.tick();
+  await monitor.tick();
+  const degraded = store.getPublic("dep_monitor").health;
+  assert.equal(degraded.status, "degraded");
+  assert.deepEqual(degraded.checks.find((check) => check.name === "disk"), { name: "disk", ok: false, detail: "97% used" });
+
+  await fake.setState("offline");
+  await monitor.tick();
+  assert.deepEqual(
+    store.getPublic("dep_monitor").health.checks.map((check) => check.name),
+    ["ssh"],
+  );
+
+  await fake.setState("up");
+  await monitor.tick();
+  assert.equal(store.getPublic("dep_monitor").health.status, "healthy");
+
+  assert.deepEqual(healthEvents(store), ["deployment.health.degraded", "deployment.health.recovered"]);
+  const history = store.listHealthHistory("dep_monitor", 10);
+  assert.deepEqual(
+    history.map((entry) => entry.status),
+    ["healthy", "degraded", "degraded", "degraded", "healthy"],
+  );
+  // Newest first.
+  assert.deepEqual(history[1].checks.map((check) => check.name), ["ssh"]);
+});
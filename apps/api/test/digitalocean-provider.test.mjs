@@ -0,0 +1,175 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { createServer } from "node:http";
+import test from "node:test";
+import { createCloudProvider, isProviderNotFound } from "../dist/lib/cloud-provider.js";
+
+function json(res, status, body) {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+async function readJson(req) {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : null;
+}
+
+// Minimal in-memory stand-in for the subset of the DigitalOcean v2 API the provider uses.
+async function startFakeDigitalOcean(t) {
+  const state = {
+    requests: [],
+    keys: new Map(),
+    droplets: new Map(),
+    nextId: 1000,
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url, "http://localhost");
+    const body = await readJson(req);
+    state.requests.push({
+      method: req.method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      authorization: req.headers.authorization,
+      body,
+    });
+
+    if (req.method === "POST" && url.pathname === "/v2/account/keys") {
+      const key = { id: state.nextId++, name: body.name, fingerprint: "aa:bb", public_key: body.public_key };
+      state.keys.set(key.id, key);
+      return json(res, 201, { ssh_key: key });
+    }
+
+    const keyMatch = /^\/v2\/account\/keys\/(\d+)$/.exec(url.pathname);
+    if (req.method === "DELETE" && keyMatch) {
+      if (!state.keys.delete(Number(keyMatch[1]))) {
+        return json(res, 404, { id: "not_found", message: "The resource you were accessing could not be found." });
+      }
+      return json(res, 204);
+    }
+
+    if (req.method === "POST" && url.pathname === "/v2/droplets") {
+      const droplet = {
+        id: state.nextId++,
+        name: body.name,
+        status: "new",
+        created_at: new Date().toISOString(),
+        tags: body.tags ?? [],
+        networks: { v4: [], v6: [] },
+      };
+      state.droplets.set(droplet.id, droplet);
+      return json(res, 202, { droplet, links: { actions: [{ id: 1, rel: "create" }] } });
+    }
+
+    if (req.method === "GET" && url.pathname === "/v2/droplets") {
+      const tag = url.searchParams.get("tag_name");
+      const page = Number(url.searchParams.get("page") || "1");
+      const matching = [...state.droplets.values()].filter((droplet) => droplet.tags.includes(tag));
+      // Serve one droplet per page to exercise pagination.
+      const droplets = matching.slice(page - 1, page);
+      const next = page < matching.length ? `http://fake/v2/droplets?page=${page + 1}` : undefined;
+      return json(res, 200, { droplets, links: { pages: next ? { next } : {} }, meta: { total: matching.length } });
+    }
+
+    const dropletMatch = /^\/v2\/droplets\/(\d+)$/.exec(url.pathname);
+    if (dropletMatch) {
+      const droplet = state.droplets.get(Number(dropletMatch[1]));
+      if (!droplet) {
+        return json(res, 404, { id: "not_found", message: "The resource you were accessing could not be found." });
+      }
+      if (req.method === "GET") {
+        // Droplets come up on the first poll after creation.
+        droplet.status = "active";
+        droplet.networks.v4 = [
+          { ip_address: "10.0.0.2", type: "private" },
+          { ip_address: "203.0.113.10", type: "public" },
+        ];
+        return json(res, 200, { droplet });
+      }
+      if (req.method === "DELETE") {
+        state.droplets.delete(droplet.id);
+        return json(res, 204);
+      }
+    }
+
+    return json(res, 404, { id: "not_found", message: `No fake route for ${req.method} ${url.pathname}` });
+  });
+
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  t.after(() => new Promise((resolve) => server.close(resolve)));
+  const { port } = server.address();
+  return { state, baseUrl: `http://127.0.0.1:${port}/v2` };
+}
+
+test("digitalocean provider creates, waits for, lists and deletes droplets", async (t) => {
+  const fake = await startFakeDigitalOcean(t);
+  const provider = createCloudProvider("digitalocean", "do-test-token", { baseUrl: fake.baseUrl });
+
+  const key = await provider.createSshKey({ name: "clawpad-test", publicKey: "ssh-ed25519 AAAA test" });
+  assert.equal(key.name, "clawpad-test");
+
+  const labels = { "managed-by": "claw-launchpad", deployment_id: "dep-1" };
+  const created = await provider.createServer({
+    name: "agent-1",
+    serverType: "s-2vcpu-4gb",
+    image: "ubuntu-24-04-x64",
+    location: "fra1",
+    sshKeyIds: [key.id],
+    labels,
+  });
+  assert.equal(created.status, "new");
+  assert.equal(created.ipv4, null);
+  assert.deepEqual(created.labels, labels);
+
+  const createRequest = fake.state.requests.find((entry) => entry.method === "POST" && entry.path === "/v2/droplets");
+  assert.equal(createRequest.authorization, "Bearer do-test-token");
+  assert.deepEqual(createRequest.body, {
+    name: "agent-1",
+    region: "fra1",
+    size: "s-2vcpu-4gb",
+    image: "ubuntu-24-04-x64",
+    ssh_keys: [key.id],
+    tags: ["managed-by:claw-launchpad", "deployment_id:dep-1"],
+    ipv6: true,
+  });
+
+  const ready = await provider.waitForServer(created.id, { timeoutMs: 5_000 });
+  assert.equal(ready.status, "active");
+  assert.equal(ready.ipv4, "203.0.113.10");
+
+  await provider.createServer({
+    name: "agent-2",
+    serverType: "s-2vcpu-4gb",
+    image: "ubuntu-24-04-x64",
+    location: "fra1",
+    sshKeyIds: [key.id],
+    labels: { "managed-by": "claw-launchpad", deployment_id: "dep-2" },
+  });
+
+  const managed = await provider.listServersByLabel({ "managed-by": "claw-launchpad" });
+  assert.deepEqual(managed.map((server) => server.name).sort(), ["agent-1", "agent-2"]);
+
+  const onlyFirst = await provider.listServersByLabel(labels);
+  assert.deepEqual(onlyFirst.map((server) => server.id), [created.id]);
+
+  await provider.deleteServer(created.id);
+  await provider.deleteSshKey(key.id);
+  assert.equal(fake.state.droplets.has(created.id), false);
+  assert.equal(fake.state.keys.size, 0);
+});
+
+test("digitalocean provider surfaces 404s as provider not-found errors", async (t) => {
+  const fake = await startFakeDigitalOcean(t);
+  const provider = createCloudProvider("digitalocean", "do-test-token", { baseUrl: fake.baseUrl });
+
+  await assert.rejects(
+    () => provider.deleteServer(424242),
+    (error) => {
+      assert.equal(isProviderNotFound(error), true);
+      assert.match(error.message, /could not be found/);
+      return true;
+    },
+  );
+});
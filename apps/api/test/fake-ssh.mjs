@@ -0,0 +1,145 @@
+import { chmod, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+// Puts a fake `ssh` (and an `scp` that only fails while offline) first on PATH. Apart from host keys (see below)
+// it ignores the connection options and answers the remote command (always the last argument) from a small state
+// file, so tests can flip a host between states: "up" (healthy), "down" (gateway service inactive), "full" (disk
+// 97% used), "offline" (ssh fails), "stale" (token rewrites succeed but the gateway keeps its old token), "open"
+// (the gateway accepts any token), "slow" (upgrades take 2.5s) and "mirror-down" (the bootstrap fails in its
+// packages phase). A successful bootstrap adopts the gateway token it was started with. The gateway accepts the
+// token from its config, kept in a file that only `openclaw config set gateway.auth.token` changes; the
+// OPENCLAW_GATEWAY_TOKEN line of /etc/openclaw/openclaw.env is tracked separately. Reconfigure scripts are appended
+// to a log (and fail while the host is "down"). The installed openclaw version is tracked as well: upgrade scripts
+// switch it (`latest` resolves to LATEST_OPENCLAW_VERSION) and a version in `brokenVersions` keeps the gateway
+// service inactive.
+//
+// Both commands check host keys like OpenSSH does against the UserKnownHostsFile they are given: with
+// StrictHostKeyChecking=accept-new an unknown host's key is appended, otherwise a key that isn't listed fails the
+// connection with 255. The host presents FAKE_HOST_KEY until `setHostKey` swaps it.
+export const LATEST_OPENCLAW_VERSION = "1.5.0";
+export const FAKE_HOST_KEY = "AAAAC3NzaC1lZDI1NTE5AAAAIFakeHostKeyForClawpadTestsOnly000000000000";
+
+function hostKeyCheck(hostKeyPath) {
+  return `checking=""; known=""; host=""
+for arg; do
+  case "$arg" in
+    StrictHostKeyChecking=*) checking="\${arg#*=}" ;;
+    UserKnownHostsFile=*) known="\${arg#*=}" ;;
+    *@*) if [ -z "$host" ]; then host="\${arg#*@}"; host="\${host%%:*}"; fi ;;
+  esac
+done
+if [ -n "$known" ]; then
+  line="$host ssh-ed25519 $(cat ${hostKeyPath})"
+  if grep -qxF "$line" "$known"; then :
+  elif [ "$checking" = "accept-new" ] && ! grep -q "^$host " "$known"; then echo "$line" >> "$known"
+  else echo "Host key verification failed." >&2; exit 255
+  fi
+fi`;
+}
+
+export async function installFakeSsh(t, { gatewayToken, openclawVersion = "1.0.0", brokenVersions = [] }) {
+  const dir = await mkdtemp(path.join(tmpdir(), "clawpad-fake-ssh-"));
+  const statePath = path.join(dir, "state");
+  const tokenPath = path.join(dir, "token");
+  const envTokenPath = path.join(dir, "env-token");
+  const reconfigureLogPath = path.join(dir, "reconfigure.log");
+  const versionPath = path.join(dir, "version");
+  const brokenVersionsPath = path.join(dir, "broken-versions");
+  const hostKeyPath = path.join(dir, "host-key");
+  await writeFile(statePath, "up");
+  await writeFile(hostKeyPath, FAKE_HOST_KEY);
+  await writeFile(tokenPath, gatewayToken);
+  await writeFile(envTokenPath, gatewayToken);
+  await writeFile(versionPath, openclawVersion);
+  await writeFile(brokenVersionsPath, brokenVersions.map((version) => `${version}\n`).join(""));
+  await writeFile(
+    path.join(dir, "ssh"),
+    `#!/bin/sh
+for last; do :; done
+state="$(cat ${statePath})"
+token="$(cat ${tokenPath})"
+version="$(cat ${versionPath})"
+if [ "$state" = "offline" ]; then
+  echo "ssh: connect to host port 22: Connection refused" >&2
+  exit 255
+fi
+${hostKeyCheck(hostKeyPath)}
+case "$last" in
+  *clawpad-bootstrap.sh*)
+    echo "::clawpad-phase:: packages started"
+    if [ "$state" = "mirror-down" ]; then
+      echo "E: Failed to fetch http://archive.ubuntu.com/ubuntu/dists/noble/InRelease" >&2
+      echo "::clawpad-phase:: packages failed" >&2
+      exit 100
+    fi
+    echo "::clawpad-phase:: packages completed"
+    printf '%s' "$last" | sed -n "s/.*OPENCLAW_GATEWAY_TOKEN='\\([A-Za-z0-9_-]*\\)'.*/\\1/p" | head -n 1 | tr -d '\\n' > ${tokenPath} ;;
+  "tailscale status --json")
+    echo '{"Self":{"DNSName":"fake-host.tailnet.ts.net."}}' ;;
+  *"reconfigure complete"*)
+    printf '%s\\n::end::\\n' "$last" >> ${reconfigureLogPath}
+    if [ "$state" = "down" ]; then echo "Job for openclaw-gateway.service failed" >&2; exit 1; fi ;;
+  *"upgrade complete"*)
+    if [ "$state" = "down" ]; then echo "npm ERR! network unreachable" >&2; exit 1; fi
+    if [ "$state" = "slow" ]; then sleep 2.5; fi
+    next="$(printf '%s' "$last" | sed -n 's/.*openclaw@\\([0-9A-Za-z.-]*\\).*/\\1/p' | head -n 1)"
+    if [ "$next" = "latest" ]; then next="${LATEST_OPENCLAW_VERSION}"; fi
+    printf '%s' "$next" > ${versionPath}
+    echo "upgrade complete: openclaw $next" ;;
+  "openclaw --version")
+    echo "openclaw $version" ;;
+  *"systemctl is-active"*)
+    if [ "$state" = "down" ] || grep -qx "$version" ${brokenVersionsPath}; then echo inactive; exit 3; fi
+    echo active ;;
+  *"openclaw doctor"*)
+    echo "Doctor: config ok; token $token loaded" ;;
+  *"/etc/openclaw/openclaw.env"*)
+    env_token="$(printf '%s' "$last" | sed -n 's/.*OPENCLAW_GATEWAY_TOKEN=\\([A-Za-z0-9_-]*\\).*/\\1/p' | head -n 1)"
+    config_token="$(printf '%s' "$last" | sed -n 's/.*gateway\\.auth\\.token[^A-Za-z0-9_-]*\\([A-Za-z0-9_-]*\\).*/\\1/p' | head -n 1)"
+    if [ -n "$env_token" ]; then printf '%s' "$env_token" > ${envTokenPath}; fi
+    if [ -n "$config_token" ] && [ "$state" != "stale" ]; then printf '%s' "$config_token" > ${tokenPath}; fi ;;
+  *curl*)
+    # Runs the probe with a curl that answers like the gateway: 401 unless the bearer token matches.
+    curl() {
+      bearer=""
+      for arg; do
+        case "$arg" in "Authorization: Bearer "*) bearer="\${arg#Authorization: Bearer }" ;; esac
+      done
+      if [ "$bearer" = "$token" ] || [ "$state" = "open" ]; then echo 200; else echo 401; fi
+    }
+    eval "$last" ;;
+  *"df -P"*)
+    if [ "$state" = "full" ]; then echo "97%"; else echo "41%"; fi
+    echo "3911 2870" ;;
+esac
+`,
+  );
+  await chmod(path.join(dir, "ssh"), 0o755);
+  await writeFile(
+    path.join(dir, "scp"),
+    `#!/bin/sh
+if [ "$(cat ${statePath})" = "offline" ]; then echo "lost connection" >&2; exit 255; fi
+${hostKeyCheck(hostKeyPath)}
+`,
+  );
+  await chmod(path.join(dir, "scp"), 0o755);
+
+  const originalPath = process.env.PATH;
+  process.env.PATH = `${dir}:${originalPath}`;
+  t.after(async () => {
+    process.env.PATH = originalPath;
+    await rm(dir, { recursive: true, force: true });
+  });
+  return {
+    setState: (state) => writeFile(statePath, state),
+    setHostKey: (key) => writeFile(hostKeyPath, key),
+    currentToken: () => readFile(tokenPath, "utf8"),
+    currentEnvToken: () => readFile(envTokenPath, "utf8"),
+    currentVersion: () => readFile(versionPath, "utf8"),
+    reconfigureScripts: async () =>
+      (await readFile(reconfigureLogPath, "utf8").catch(() => ""))
+        .split("\n::end::\n")
+        .filter(Boolean),
+  };
+}
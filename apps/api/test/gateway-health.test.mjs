@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { checkGatewayHealth, waitForGatewayHealthy } from "../dist/lib/gateway-health.js";
+import { installFakeSsh } from "./fake-ssh.mjs";
+
+const TOKEN = "gateway-token-for-health-tests";
+
+const target = { host: "192.0.2.30", user: "root", port: 22, deploymentId: "gateway-health-test", knownHosts: null };
+
+test("health check requires an active service and a gateway that accepts the token", async (t) => {
+  const fake = await installFakeSsh(t, { gatewayToken: TOKEN });
+
+  const healthy = await checkGatewayHealth({ target, gatewayToken: TOKEN });
+  assert.equal(healthy.healthy, true);
+  assert.deepEqual(
+    healthy.checks.map((check) => [check.name, check.ok, check.detail]),
+    [
+      ["service", true, "active"],
+      ["probe", true, "HTTP 200"],
+    ],
+  );
+
+  const wrongToken = await checkGatewayHealth({ target, gatewayToken: "some-other-token" });
+  assert.equal(wrongToken.healthy, false);
+  assert.deepEqual(wrongToken.checks[1], { name: "probe", ok: false, detail: "HTTP 401" });
+
+  // A gateway that answers without checking the token proves nothing about ours.
+  await fake.setState("open");
+  const open = await checkGatewayHealth({ target, gatewayToken: "some-other-token" });
+  assert.equal(open.healthy, false);
+  assert.match(open.checks[1].detail, /^HTTP 200 for an invalid token/);
+
+  await fake.setState("down");
+  const down = await checkGatewayHealth({ target, gatewayToken: TOKEN });
+  assert.equal(down.healthy, false);
+  assert.deepEqual(down.checks[0], { name: "service", ok: false, detail: "inactive" });
+
+  await fake.setState("offline");
+  const offline = await checkGatewayHealth({ target, gatewayToken: TOKEN });
+  assert.equal(offline.healthy, false);
+  assert.deepEqual(offline.checks.map((check) => check.name), ["ssh"]);
+});
+
+test("waitForGatewayHealthy gives up at the deadline and attaches redacted doctor output", async (t) => {
+  const fake = await installFakeSsh(t, { gatewayToken: TOKEN });
+  await fake.setState("down");
+
+  const seen = [];
+  const { report, attempts } = await waitForGatewayHealthy({
+    target,
+    gatewayToken: TOKEN,
+    redact: (text) => text.split(TOKEN).join("[redacted]"),
+    timeoutMs: 250,
+    intervalMs: 100,
+    onAttempt: (attemptReport, attempt) => {
+      seen.push([attempt, attemptReport.healthy]);
+    },
+  });
+  assert.equal(report.healthy, false);
+  assert.ok(attempts >= 2);
+  assert.equal(seen.length, attempts);
+
+  const doctor = report.checks.find((check) => check.name === "doctor");
+  assert.equal(doctor.ok, true);
+  assert.equal(doctor.detail, "Doctor: config ok; token [redacted] loaded");
+});
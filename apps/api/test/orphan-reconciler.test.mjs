@@ -0,0 +1,166 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { providerAccountFingerprint } from "../dist/lib/cloud-provider.js";
+import { SecretBox } from "../dist/lib/crypto.js";
+import { DeploymentsStore } from "../dist/lib/deployments-store.js";
+import { OrphanReconciler } from "../dist/lib/orphan-reconciler.js";
+import { authHeaders, startApiServer, TEST_DEPLOYMENT_KEY } from "./api-server.mjs";
+
+const HETZNER_TOKEN = "hetzner-token-orphan-test";
+const WORKER = "worker-test";
+const RUNNING_ID = "a1b2c3d4-0000-4000-8000-000000000001";
+const CANCELED_ID = "b2c3d4e5-0000-4000-8000-000000000002";
+const MANAGED = { "managed-by": "claw-launchpad" };
+
+// In-memory stand-in for the parts of a CloudProvider the reconciler uses.
+function createFakeProvider() {
+  const state = {
+    servers: [
+      { id: 101, name: "running", status: "running", ipv4: "192.0.2.1", labels: { ...MANAGED, deployment_id: RUNNING_ID } },
+      { id: 102, name: "leftover", status: "running", ipv4: "192.0.2.2", labels: { ...MANAGED, deployment_id: CANCELED_ID } },
+      { id: 103, name: "lost-db", status: "off", ipv4: null, labels: { ...MANAGED, deployment_id: "c3d4e5f6-gone" } },
+      // Created by the CLI, which the control plane doesn't track.
+      { id: 104, name: "cli-server", status: "running", ipv4: "192.0.2.4", labels: { ...MANAGED } },
+    ],
+    keys: [
+      { id: 201, name: `clawpad-worker-1700000000000-${RUNNING_ID.slice(0, 8)}` },
+      { id: 202, name: `clawpad-worker-1700000000001-${CANCELED_ID.slice(0, 8)}` },
+      { id: 203, name: "clawpad-laptop-1700000000002" },
+      { id: 204, name: "someone-elses-key" },
+    ],
+    deleted: [],
+  };
+  const notFound = () => Object.assign(new Error("not found"), { statusCode: 404 });
+  const provider = {
+    name: "hetzner",
+    label: "Hetzner",
+    async listServersByLabel(labels) {
+      return state.servers.filter((server) => Object.entries(labels).every(([k, v]) => server.labels[k] === v));
+    },
+    async listSshKeys() {
+      return state.keys;
+    },
+    async deleteServer(id) {
+      state.deleted.push(`server:${id}`);
+      state.servers = state.servers.filter((server) => server.id !== id);
+      // Server 103 is deleted by hand in the meantime; the reconciler still counts it as destroyed.
+      if (id === 103) throw notFound();
+    },
+    async deleteSshKey(id) {
+      state.deleted.push(`ssh_key:${id}`);
+      state.keys = state.keys.filter((key) => key.id !== id);
+    },
+  };
+  return { state, provider };
+}
+
+function seedDeployments(store, secretBox) {
+  const base = {
+    provider: "hetzner",
+    ownerUserId: "system",
+    secretsEncrypted: secretBox.encryptObject({ hetznerApiToken: HETZNER_TOKEN, tailscaleAuthKey: "tskey-orphan" }),
+  };
+  const config = { serverType: "cx23", image: "ubuntu-24.04", location: "nbg1", authChoice: "skip", discordGroupPolicy: "allowlist" };
+  store.createDeployment({ ...base, id: RUNNING_ID, name: "running", config: { ...config, name: "running" } });
+  store.leaseNextProvisionJob(WORKER, 60_000);
+  store.markRunning(RUNNING_ID, WORKER, {
+    serverId: 101,
+    serverName: "running",
+    serverIp: "192.0.2.1",
+    sshKeyId: 201,
+    tailnetUrl: null,
+    gatewayTokenEncrypted: secretBox.encryptObject({ gatewayToken: "orphan-gateway-token" }),
+  });
+  // Canceled while pending, but its server and key are still at the provider (a cleanup that errored out).
+  store.createDeployment({ ...base, id: CANCELED_ID, name: "leftover", config: { ...config, name: "leftover" } });
+  store.requestCancel("system", CANCELED_ID);
+}
+
+function orphanEventTypes(store, deploymentId) {
+  return store
+    .listEvents(deploymentId, 100)
+    .map((event) => event.type)
+    .filter((type) => type.startsWith("deployment.orphan."))
+    .reverse();
+}
+
+test("reconciler reports unreferenced labeled servers and worker keys, then destroys them after the grace period", async (t) => {
+  const { baseUrl, deploymentsDbPath } = await startApiServer(t, { ADMIN_USER_IDS: "system" });
+  const secretBox = new SecretBox(TEST_DEPLOYMENT_KEY);
+  const store = new DeploymentsStore(deploymentsDbPath);
+  t.after(() => store.close());
+  seedDeployments(store, secretBox);
+
+  const { state, provider } = createFakeProvider();
+  const tokens = [];
+  const reconciler = (graceMs) =>
+    new OrphanReconciler({
+      store,
+      secretBox,
+      intervalMs: 60_000,
+      graceMs,
+      destroy: true,
+      createProvider: (name, token) => {
+        tokens.push(`${name}:${token}`);
+        return provider;
+      },
+    });
+
+  const first = await reconciler(60 * 60_000).reconcile();
+  assert.deepEqual(tokens, [`hetzner:${HETZNER_TOKEN}`]);
+  assert.deepEqual(first.accounts, [
+    {
+      provider: "hetzner",
+      account: providerAccountFingerprint(HETZNER_TOKEN),
+      servers: 4,
+      sshKeys: 2,
+      orphans: 3,
+      destroyed: 0,
+    },
+  ]);
+  assert.deepEqual(
+    first.orphans.map((orphan) => [orphan.kind, orphan.resourceId, orphan.reason, orphan.deploymentId]),
+    [
+      ["server", 102, "deployment_released", CANCELED_ID],
+      ["server", 103, "deployment_missing", "c3d4e5f6-gone"],
+      ["ssh_key", 202, "deployment_released", CANCELED_ID],
+    ],
+  );
+  assert.deepEqual(state.deleted, []);
+  assert.deepEqual(orphanEventTypes(store, CANCELED_ID), ["deployment.orphan.detected", "deployment.orphan.detected"]);
+  assert.deepEqual(orphanEventTypes(store, RUNNING_ID), []);
+
+  const listed = await fetch(`${baseUrl}/v1/admin/orphans`, { headers: authHeaders() });
+  assert.equal(listed.status, 200);
+  assert.deepEqual(
+    (await listed.json()).orphans.map((orphan) => orphan.resourceId),
+    [102, 103, 202],
+  );
+  assert.equal((await fetch(`${baseUrl}/v1/admin/orphans?status=gone`, { headers: authHeaders() })).status, 400);
+
+  // Seen again: the orphans keep their first-seen time and aren't reported as new.
+  await reconciler(60 * 60_000).reconcile();
+  assert.equal(orphanEventTypes(store, CANCELED_ID).length, 2);
+
+  const second = await reconciler(0).reconcile();
+  assert.equal(second.accounts[0].destroyed, 3);
+  assert.deepEqual(second.orphans, []);
+  assert.deepEqual(state.deleted, ["server:102", "server:103", "ssh_key:202"]);
+  assert.deepEqual(
+    state.servers.map((server) => server.id),
+    [101, 104],
+  );
+  assert.deepEqual(orphanEventTypes(store, CANCELED_ID), [
+    "deployment.orphan.detected",
+    "deployment.orphan.detected",
+    "deployment.orphan.destroyed",
+    "deployment.orphan.destroyed",
+  ]);
+
+  const third = await reconciler(0).reconcile();
+  assert.equal(third.accounts[0].orphans, 0);
+  assert.deepEqual(
+    store.listOrphanedResources({ status: "destroyed" }).map((orphan) => orphan.resourceId),
+    [102, 103, 202],
+  );
+});
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { SecretBox } from "../dist/lib/crypto.js";
+import { DeploymentsStore } from "../dist/lib/deployments-store.js";
+import { DeploymentsWorker } from "../dist/lib/deployments-worker.js";
+import { markDeploymentRunning } from "./api-server.mjs";
+import { installFakeSsh } from "./fake-ssh.mjs";
+
+const TOKEN = "concurrency-gateway-token-0123456789";
+
+async function openStore(t) {
+  const tmpRoot = await mkdtemp(path.join(tmpdir(), "clawpad-concurrency-test-"));
+  const dbPath = path.join(tmpRoot, "deployments.db");
+  const store = new DeploymentsStore(dbPath);
+  t.after(async () => {
+    store.close();
+    await rm(tmpRoot, { recursive: true, force: true });
+  });
+  return { store, dbPath };
+}
+
+function createCloudDeployment(store, secretBox, id, providerAccount) {
+  store.createDeployment({
+    id,
+    provider: "hetzner",
+    ownerUserId: "system",
+    name: id,
+    config: { name: id, serverType: "cx23", image: "ubuntu-24.04", location: "nbg1", authChoice: "skip", discordGroupPolicy: "allowlist" },
+    secretsEncrypted: secretBox.encryptObject({ hetznerApiToken: `token-${providerAccount}`, tailscaleAuthKey: "tskey-x" }),
+    providerAccount,
+  });
+}
+
+test("provision leases cap each provider account across workers and free up when a lease expires", async (t) => {
+  const { store, dbPath } = await openStore(t);
+  const secretBox = new SecretBox("concurrency-test-key");
+  // Account "a" queued first and most; "b" must not wait behind all of it.
+  for (const id of ["a1", "a2", "a3"]) createCloudDeployment(store, secretBox, id, "a");
+  createCloudDeployment(store, secretBox, "b1", "b");
+
+  // A second store on the same file stands in for another worker process.
+  const otherProcess = new DeploymentsStore(dbPath);
+  t.after(() => otherProcess.close());
+
+  const leased = [
+    store.leaseNextProvisionJob("worker-1", 60_000, { maxPerAccount: 2 }),
+    otherProcess.leaseNextProvisionJob("worker-2", 60_000, { maxPerAccount: 2 }),
+    store.leaseNextProvisionJob("worker-1", 60_000, { maxPerAccount: 2 }),
+    otherProcess.leaseNextProvisionJob("worker-2", 60_000, { maxPerAccount: 2 }),
+  ];
+  assert.deepEqual(
+    leased.map((job) => job?.id ?? null),
+    ["a1", "a2", "b1", null],
+  );
+  assert.equal(leased[0].providerAccount, "a");
+
+  // An expired lease no longer counts against the account.
+  assert.equal(store.renewLease("a1", "worker-1", -1), true);
+  assert.equal(otherProcess.renewLease("a1", "worker-2", 60_000), false);
+  assert.equal(otherProcess.leaseNextProvisionJob("worker-2", 60_000, { maxPerAccount: 2 })?.id, "a3");
+});
+
+test("a long-running job keeps its lease, so other workers don't take it over", async (t) => {
+  const fake = await installFakeSsh(t, { gatewayToken: TOKEN });
+  const { store } = await openStore(t);
+  const secretBox = new SecretBox("concurrency-test-key");
+  store.createDeployment({
+    id: "dep_slow",
+    provider: "byo",
+    ownerUserId: "system",
+    name: "slow",
+    config: { name: "slow", byoHost: "192.0.2.80", authChoice: "skip", discordGroupPolicy: "allowlist", openclawVersion: "1.0.0" },
+    secretsEncrypted: secretBox.encryptObject({ tailscaleAuthKey: "tskey-slow" }),
+  });
+  markDeploymentRunning(store, "dep_slow", {
+    sshHost: "192.0.2.80",
+    gatewayToken: TOKEN,
+    secretBox,
+    openclawVersion: "1.0.0",
+    workerId: "setup",
+  });
+  const current = store.getInternal("dep_slow");
+  store.requestUpgrade("system", "dep_slow", {
+    config: { ...current.config, openclawVersion: "1.1.0" },
+    fromVersion: "1.0.0",
+    requestedBy: "system",
+  });
+
+  const createWorker = () =>
+    new DeploymentsWorker({
+      store,
+      secretBox,
+      // Shorter than the 2.5s upgrade: without renewal the lease would lapse mid-job.
+      leaseMs: 1_500,
+      intervalMs: 60_000,
+      verifyTimeoutMs: 300,
+      concurrency: 2,
+      provisionConfig: { sshPublicKeyPath: "/nonexistent.pub" },
+    });
+  await fake.setState("slow");
+  const running = createWorker().tick();
+  await new Promise((resolve) => setTimeout(resolve, 2_000));
+  await createWorker().tick();
+  await running;
+
+  const upgraded = store.getInternal("dep_slow");
+  assert.equal(upgraded.config.openclawVersion, "1.1.0");
+  assert.equal(upgraded.activeTask, null);
+  assert.equal(
+    store.listEvents("dep_slow", 100).filter((event) => event.type === "deployment.upgrade.started").length,
+    1,
+  );
+});
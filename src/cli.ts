@@ -1,6 +1,19 @@
 #!/usr/bin/env node
 import { Command } from "commander";
-import { provisionHetzner } from "./provision/hetzner.js";
+import { controlPlaneRequest } from "./fleet/api.js";
+import { runFleetUpgrade } from "./fleet/upgrade.js";
+import { CLOUD_PROVIDER_DEFAULTS } from "./providers/index.js";
+import type { CloudProviderName } from "./providers/types.js";
+import type { BootstrapParams, DiscordGuild } from "./provision/bootstrap.js";
+import { installByo, uninstallByo } from "./provision/byo.js";
+import type { SshTarget } from "./provision/ssh.js";
+import {
+  destroyServer,
+  getServerStatus,
+  listServers,
+  provisionCloud,
+  ProvisionError,
+} from "./provision/cloud.js";
 
 const program = new Command();
 program.name("clawpad").description("Provision OpenClaw reliably");
@@ -12,6 +25,8 @@ const ALLOWED_AUTH_CHOICES = new Set([
   "openai-api-key",
 ] as const);
 
+const OPENCLAW_VERSION_PATTERN = /^(?:latest|\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?)$/;
+
 const ALLOWED_DISCORD_GROUP_POLICIES = new Set([
   "open",
   "allowlist",
@@ -31,6 +46,63 @@ function assertDiscordId(value: string, label: string) {
   }
 }
 
+// `--discord-guilds` takes the control plane's `discordGuilds` JSON:
+// [{ "guildId": "...", "channelIds": ["...", { "id": "...", "requireMention": false }], "requireMention"?, "users"? }]
+function parseDiscordGuilds(value: string): DiscordGuild[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error("--discord-guilds must be a JSON array");
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error("--discord-guilds must be a non-empty JSON array");
+  }
+
+  const seen = new Set<string>();
+  return parsed.map((entry: any, index) => {
+    const label = `--discord-guilds[${index}]`;
+    if (!entry || typeof entry !== "object") {
+      throw new Error(`${label} must be an object`);
+    }
+    const guildId = String(entry.guildId ?? "");
+    assertDiscordId(guildId, `${label}.guildId`);
+    if (seen.has(guildId)) {
+      throw new Error(`--discord-guilds lists guild ${guildId} more than once`);
+    }
+    seen.add(guildId);
+
+    if (!Array.isArray(entry.channelIds) || entry.channelIds.length === 0) {
+      throw new Error(`${label}.channelIds must list at least one channel`);
+    }
+    const channelIds = entry.channelIds.map((channel: any) => {
+      if (typeof channel === "string") {
+        assertDiscordId(channel, `${label}.channelIds`);
+        return channel;
+      }
+      assertDiscordId(String(channel?.id ?? ""), `${label}.channelIds[].id`);
+      if (channel.requireMention !== undefined && typeof channel.requireMention !== "boolean") {
+        throw new Error(`${label}.channelIds[].requireMention must be true or false`);
+      }
+      return { id: String(channel.id), requireMention: channel.requireMention };
+    });
+    if (entry.requireMention !== undefined && typeof entry.requireMention !== "boolean") {
+      throw new Error(`${label}.requireMention must be true or false`);
+    }
+    const users = Array.isArray(entry.users) ? entry.users.map(String) : [];
+    for (const user of users) {
+      assertDiscordId(user, `${label}.users`);
+    }
+
+    return {
+      guildId,
+      channelIds,
+      requireMention: entry.requireMention,
+      users: users.length ? users : undefined,
+    };
+  });
+}
+
 function normalizeTailscaleHostname(value: string): string {
   // RFC 1123 label (lowercase only): start/end alphanumeric, interior alnum or hyphen, max 63 chars.
   const normalized = value.trim().toLowerCase();
@@ -42,110 +114,357 @@ function normalizeTailscaleHostname(value: string): string {
   return normalized;
 }
 
-program
-  .command("hetzner:create")
-  .description("Provision a Hetzner VPS and bootstrap OpenClaw")
-  .requiredOption("--api-token <token>", "Hetzner API token")
-  .requiredOption("--ssh-public-key <path>", "Path to SSH public key (.pub)")
-  .requiredOption("--name <name>", "Server name")
-  .requiredOption("--tailscale-auth-key <key>", "Tailscale auth key (ephemeral recommended)")
-  .option("--tailscale-hostname <name>", "Tailscale hostname (default: server name)")
-  .option("--server-type <type>", "Hetzner server type", "cx23")
-  .option("--image <image>", "Hetzner image", "ubuntu-24.04")
-  .option("--location <loc>", "Hetzner location", "nbg1")
-  .option(
-    "--auth-choice <choice>",
-    "OpenClaw onboard auth choice (skip|minimax-api|anthropic-api-key|openai-api-key)",
-    "skip",
-  )
-  .option("--minimax-api-key <key>", "MiniMax API key")
-  .option("--anthropic-api-key <key>", "Anthropic API key")
-  .option("--openai-api-key <key>", "OpenAI API key")
-  .option("--discord-bot-token <token>", "Discord bot token")
-  .option(
-    "--discord-group-policy <policy>",
-    "Discord group policy (open|allowlist|disabled)",
-    "allowlist",
-  )
-  .option("--discord-guild-id <id>", "Discord guild id (required for allowlist)")
-  .option(
-    "--discord-channel-ids <ids>",
-    "Comma-separated Discord channel IDs to allow (required for allowlist)",
-  )
-  .action(async (opts) => {
-    const authChoice = String(opts.authChoice);
-    if (!ALLOWED_AUTH_CHOICES.has(authChoice as any)) {
-      throw new Error(
-        `Invalid --auth-choice. Expected one of: ${Array.from(ALLOWED_AUTH_CHOICES).join(", ")}`,
-      );
-    }
+function parseServerId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error("Server id must be a positive integer");
+  }
+  return id;
+}
+
+type BootstrapOptionValues = {
+  tailscaleAuthKey: string;
+  tailscaleHostname?: string;
+  authChoice: string;
+  minimaxApiKey?: string;
+  anthropicApiKey?: string;
+  openaiApiKey?: string;
+  discordBotToken?: string;
+  discordGroupPolicy?: string;
+  discordGuildId?: string;
+  discordChannelIds?: string;
+  discordGuilds?: string;
+  openclawVersion: string;
+};
+
+// OpenClaw/Tailscale options shared by every command that runs the bootstrap script.
+function addBootstrapOptions(command: Command): Command {
+  return command
+    .requiredOption("--tailscale-auth-key <key>", "Tailscale auth key (ephemeral recommended)")
+    .option("--tailscale-hostname <name>", "Tailscale hostname (default: --name)")
+    .option(
+      "--auth-choice <choice>",
+      "OpenClaw onboard auth choice (skip|minimax-api|anthropic-api-key|openai-api-key)",
+      "skip",
+    )
+    .option("--minimax-api-key <key>", "MiniMax API key")
+    .option("--anthropic-api-key <key>", "Anthropic API key")
+    .option("--openai-api-key <key>", "OpenAI API key")
+    .option("--discord-bot-token <token>", "Discord bot token")
+    .option(
+      "--discord-group-policy <policy>",
+      "Discord group policy (open|allowlist|disabled)",
+      "allowlist",
+    )
+    .option("--discord-guild-id <id>", "Discord guild id (required for allowlist)")
+    .option(
+      "--discord-channel-ids <ids>",
+      "Comma-separated Discord channel IDs to allow (required for allowlist)",
+    )
+    .option(
+      "--discord-guilds <json>",
+      "Allowlist for several Discord guilds, as a JSON array (instead of --discord-guild-id/--discord-channel-ids)",
+    )
+    .option("--openclaw-version <version>", "openclaw npm version to install (x.y.z or latest)", "latest");
+}
+
+function parseBootstrapOptions(opts: BootstrapOptionValues): BootstrapParams {
+  const authChoice = String(opts.authChoice);
+  if (!ALLOWED_AUTH_CHOICES.has(authChoice as any)) {
+    throw new Error(
+      `Invalid --auth-choice. Expected one of: ${Array.from(ALLOWED_AUTH_CHOICES).join(", ")}`,
+    );
+  }
+
+  const tailscaleHostname = opts.tailscaleHostname
+    ? normalizeTailscaleHostname(String(opts.tailscaleHostname))
+    : undefined;
+
+  const discordGroupPolicy = opts.discordGroupPolicy ? String(opts.discordGroupPolicy) : undefined;
+  if (discordGroupPolicy && !ALLOWED_DISCORD_GROUP_POLICIES.has(discordGroupPolicy as any)) {
+    throw new Error(
+      `Invalid --discord-group-policy. Expected one of: ${Array.from(ALLOWED_DISCORD_GROUP_POLICIES).join(", ")}`,
+    );
+  }
+  const effectiveDiscordGroupPolicy = (discordGroupPolicy ?? "allowlist") as
+    | "open"
+    | "allowlist"
+    | "disabled";
 
-    const tailscaleHostname = opts.tailscaleHostname
-      ? normalizeTailscaleHostname(String(opts.tailscaleHostname))
-      : undefined;
+  const discordGuildId = opts.discordGuildId ? String(opts.discordGuildId) : undefined;
+  if (discordGuildId) {
+    assertDiscordId(discordGuildId, "--discord-guild-id");
+  }
+
+  const discordChannelIds = parseCsvIds(opts.discordChannelIds);
+  for (const id of discordChannelIds) {
+    assertDiscordId(id, "--discord-channel-ids");
+  }
+  const uniqueDiscordChannelIds = Array.from(new Set(discordChannelIds));
+
+  const discordGuilds = opts.discordGuilds ? parseDiscordGuilds(String(opts.discordGuilds)) : undefined;
+  if (discordGuilds && (discordGuildId || uniqueDiscordChannelIds.length > 0)) {
+    throw new Error("Use either --discord-guilds or --discord-guild-id/--discord-channel-ids, not both");
+  }
 
-    const discordGroupPolicy = opts.discordGroupPolicy ? String(opts.discordGroupPolicy) : undefined;
-    if (discordGroupPolicy && !ALLOWED_DISCORD_GROUP_POLICIES.has(discordGroupPolicy as any)) {
+  const openclawVersion = String(opts.openclawVersion);
+  if (!OPENCLAW_VERSION_PATTERN.test(openclawVersion)) {
+    throw new Error("Invalid --openclaw-version. Use an exact version (x.y.z) or latest.");
+  }
+
+  const discordBotToken = opts.discordBotToken ? String(opts.discordBotToken) : undefined;
+  if (discordBotToken && effectiveDiscordGroupPolicy === "allowlist" && !discordGuilds) {
+    if (!discordGuildId) {
+      throw new Error("--discord-guilds or --discord-guild-id is required when --discord-group-policy=allowlist");
+    }
+    if (uniqueDiscordChannelIds.length === 0) {
       throw new Error(
-        `Invalid --discord-group-policy. Expected one of: ${Array.from(ALLOWED_DISCORD_GROUP_POLICIES).join(", ")}`,
+        "--discord-channel-ids is required when --discord-group-policy=allowlist",
       );
     }
-    const effectiveDiscordGroupPolicy = (discordGroupPolicy ?? "allowlist") as
-      | "open"
-      | "allowlist"
-      | "disabled";
-
-    const discordGuildId = opts.discordGuildId ? String(opts.discordGuildId) : undefined;
-    if (discordGuildId) {
-      assertDiscordId(discordGuildId, "--discord-guild-id");
-    }
+  }
 
-    const discordChannelIds = parseCsvIds(opts.discordChannelIds);
-    for (const id of discordChannelIds) {
-      assertDiscordId(id, "--discord-channel-ids");
-    }
-    const uniqueDiscordChannelIds = Array.from(new Set(discordChannelIds));
+  return {
+    tailscaleAuthKey: String(opts.tailscaleAuthKey),
+    tailscaleHostname,
+    authChoice: authChoice as BootstrapParams["authChoice"],
+    minimaxApiKey: opts.minimaxApiKey ? String(opts.minimaxApiKey) : undefined,
+    anthropicApiKey: opts.anthropicApiKey ? String(opts.anthropicApiKey) : undefined,
+    openaiApiKey: opts.openaiApiKey ? String(opts.openaiApiKey) : undefined,
+    discordBotToken,
+    discordGroupPolicy: effectiveDiscordGroupPolicy,
+    discordGuildId,
+    discordChannelIds: uniqueDiscordChannelIds.length ? uniqueDiscordChannelIds : undefined,
+    discordGuilds,
+    openclawVersion,
+  };
+}
+
+function parseSshTarget(opts: { host: string; sshUser: string; sshPort: string; sshIdentity?: string }): SshTarget {
+  const host = String(opts.host).trim();
+  if (!/^[A-Za-z0-9][A-Za-z0-9.-]*$/.test(host)) {
+    throw new Error("Invalid --host. Use a hostname or IPv4 address.");
+  }
+  const user = String(opts.sshUser);
+  if (!/^[a-z_][a-z0-9_-]{0,31}$/.test(user)) {
+    throw new Error("Invalid --ssh-user");
+  }
+  const port = Number(opts.sshPort);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error("--ssh-port must be an integer between 1 and 65535");
+  }
+  return {
+    host,
+    user,
+    port,
+    identityFile: opts.sshIdentity ? String(opts.sshIdentity) : undefined,
+  };
+}
+
+function registerCloudCommands(provider: CloudProviderName, label: string) {
+  const defaults = CLOUD_PROVIDER_DEFAULTS[provider];
+
+  addBootstrapOptions(
+    program
+      .command(`${provider}:create`)
+      .description(`Provision a ${label} VPS and bootstrap OpenClaw`)
+      .requiredOption("--api-token <token>", `${label} API token`)
+      .requiredOption("--ssh-public-key <path>", "Path to SSH public key (.pub)")
+      .requiredOption("--name <name>", "Server name")
+      .option("--server-type <type>", `${label} server type`, defaults.serverType)
+      .option("--image <image>", `${label} image`, defaults.image)
+      .option("--location <loc>", `${label} location`, defaults.location),
+  )
+    .option("--keep-on-failure", "Keep the server and SSH key if provisioning fails (for debugging)")
+    .action(async (opts) => {
+      const bootstrap = parseBootstrapOptions(opts);
 
-    const discordBotToken = opts.discordBotToken ? String(opts.discordBotToken) : undefined;
-    if (discordBotToken && effectiveDiscordGroupPolicy === "allowlist") {
-      if (!discordGuildId) {
-        throw new Error("--discord-guild-id is required when --discord-group-policy=allowlist");
+      let res: Awaited<ReturnType<typeof provisionCloud>>;
+      try {
+        res = await provisionCloud({
+          ...bootstrap,
+          provider,
+          apiToken: String(opts.apiToken),
+          sshPublicKeyPath: String(opts.sshPublicKey),
+          name: String(opts.name),
+          serverType: String(opts.serverType),
+          image: String(opts.image),
+          location: String(opts.location),
+          keepOnFailure: Boolean(opts.keepOnFailure),
+        });
+      } catch (error) {
+        if (!(error instanceof ProvisionError)) throw error;
+        console.log(JSON.stringify({
+          ok: false,
+          provider,
+          error: error.message,
+          resources: error.resources,
+          cleanup: error.cleanup ?? { skipped: true, reason: "--keep-on-failure" },
+        }, null, 2));
+        process.exitCode = 1;
+        return;
       }
-      if (uniqueDiscordChannelIds.length === 0) {
-        throw new Error(
-          "--discord-channel-ids is required when --discord-group-policy=allowlist",
-        );
+
+      // Print only non-sensitive outputs.
+      console.log(JSON.stringify({
+        ok: true,
+        provider,
+        serverId: res.serverId,
+        ip: res.ip,
+        url: res.url,
+        gatewayToken: res.gatewayToken,
+      }, null, 2));
+    });
+
+  program
+    .command(`${provider}:list`)
+    .description(`List servers recorded in .clawpad/ with their live ${label} status`)
+    .requiredOption("--api-token <token>", `${label} API token`)
+    .action(async (opts) => {
+      const servers = await listServers({ provider, apiToken: String(opts.apiToken) });
+      console.log(JSON.stringify({ ok: true, provider, servers }, null, 2));
+    });
+
+  program
+    .command(`${provider}:status`)
+    .description(`Show the local record and live ${label} status of a server`)
+    .argument("<id>", `${label} server id`)
+    .requiredOption("--api-token <token>", `${label} API token`)
+    .action(async (id: string, opts) => {
+      const server = await getServerStatus({
+        provider,
+        apiToken: String(opts.apiToken),
+        serverId: parseServerId(id),
+      });
+      console.log(JSON.stringify({ ok: true, provider, server }, null, 2));
+    });
+
+  program
+    .command(`${provider}:destroy`)
+    .description(`Delete a recorded ${label} server and its temporary SSH key`)
+    .argument("<id>", `${label} server id`)
+    .requiredOption("--api-token <token>", `${label} API token`)
+    .action(async (id: string, opts) => {
+      const res = await destroyServer({
+        provider,
+        apiToken: String(opts.apiToken),
+        serverId: parseServerId(id),
+      });
+      const ok = res.cleanupErrors.length === 0;
+      console.log(JSON.stringify({ ok, provider, ...res }, null, 2));
+      if (!ok) {
+        process.exitCode = 1;
       }
-    }
+    });
+}
+
+registerCloudCommands("hetzner", "Hetzner");
+registerCloudCommands("digitalocean", "DigitalOcean");
+
+function addSshTargetOptions(command: Command): Command {
+  return command
+    .requiredOption("--host <host>", "Hostname or IPv4 address of the machine")
+    .option("--ssh-user <user>", "SSH user (non-root users need passwordless sudo)", "root")
+    .option("--ssh-port <port>", "SSH port", "22")
+    .option("--ssh-identity <path>", "Private key to authenticate with (default: ssh agent / ~/.ssh)");
+}
 
-    const res = await provisionHetzner({
+addBootstrapOptions(
+  addSshTargetOptions(
+    program
+      .command("byo:install")
+      .description("Install OpenClaw on an existing Debian/Ubuntu machine over SSH"),
+  ).option("--name <name>", "Machine name, used as the default Tailscale hostname (default: --host)"),
+).action(async (opts) => {
+  const bootstrap = parseBootstrapOptions(opts);
+  const target = parseSshTarget(opts);
+  const res = await installByo({
+    ...bootstrap,
+    target,
+    name: opts.name ? String(opts.name) : target.host,
+  });
+  console.log(JSON.stringify({
+    ok: true,
+    provider: "byo",
+    host: res.host,
+    url: res.url,
+    gatewayToken: res.gatewayToken,
+  }, null, 2));
+});
+
+addSshTargetOptions(
+  program
+    .command("byo:uninstall")
+    .description("Remove the OpenClaw service and log the machine out of Tailscale"),
+).action(async (opts) => {
+  const res = await uninstallByo(parseSshTarget(opts));
+  console.log(JSON.stringify({ ok: true, provider: "byo", ...res }, null, 2));
+});
+
+function parsePositiveInt(value: unknown, label: string, { allowZero = false } = {}): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < (allowZero ? 0 : 1)) {
+    throw new Error(`${label} must be ${allowZero ? "a non-negative" : "a positive"} integer`);
+  }
+  return parsed;
+}
+
+program
+  .command("fleet:upgrade")
+  .description("Upgrade openclaw on every running control-plane deployment, in batches (admin)")
+  .requiredOption("--api-url <url>", "Control plane API base URL")
+  .requiredOption("--api-token <token>", "API token of a user listed in ADMIN_USER_IDS")
+  .requiredOption("--openclaw-version <version>", "Target openclaw version (x.y.z or latest)")
+  .option("--batch-size <n>", "Deployments upgraded at the same time", "5")
+  .option("--max-failures <n>", "Stop the rollout once more upgrades than this have failed", "0")
+  .option("--provider <provider>", "Only upgrade deployments on this provider (hetzner|digitalocean|byo)")
+  .option("--poll-interval <seconds>", "How often to check a batch", "10")
+  .option("--timeout <minutes>", "How long a batch may take before its stragglers count as failed", "15")
+  .option("--dry-run", "Only list the deployments that would be upgraded")
+  .action(async (opts) => {
+    const version = String(opts.openclawVersion);
+    if (!OPENCLAW_VERSION_PATTERN.test(version)) {
+      throw new Error("Invalid --openclaw-version. Use an exact version (x.y.z) or latest.");
+    }
+    const res = await runFleetUpgrade({
+      apiUrl: String(opts.apiUrl),
       apiToken: String(opts.apiToken),
-      sshPublicKeyPath: String(opts.sshPublicKey),
-      name: String(opts.name),
-      tailscaleAuthKey: String(opts.tailscaleAuthKey),
-      tailscaleHostname,
-      serverType: String(opts.serverType),
-      image: String(opts.image),
-      location: String(opts.location),
-      authChoice: authChoice as any,
-      minimaxApiKey: opts.minimaxApiKey ? String(opts.minimaxApiKey) : undefined,
-      anthropicApiKey: opts.anthropicApiKey ? String(opts.anthropicApiKey) : undefined,
-      openaiApiKey: opts.openaiApiKey ? String(opts.openaiApiKey) : undefined,
-      discordBotToken,
-      discordGroupPolicy: effectiveDiscordGroupPolicy,
-      discordGuildId,
-      discordChannelIds: uniqueDiscordChannelIds.length ? uniqueDiscordChannelIds : undefined,
+      version,
+      batchSize: parsePositiveInt(opts.batchSize, "--batch-size"),
+      maxFailures: parsePositiveInt(opts.maxFailures, "--max-failures", { allowZero: true }),
+      provider: opts.provider ? String(opts.provider) : undefined,
+      pollIntervalMs: parsePositiveInt(opts.pollInterval, "--poll-interval") * 1000,
+      timeoutMs: parsePositiveInt(opts.timeout, "--timeout") * 60_000,
+      dryRun: Boolean(opts.dryRun),
+      onProgress: (message) => console.error(message),
     });
+    const ok = !res.halted && !res.results.some((result) => result.outcome !== "upgraded" && result.outcome !== "unchanged");
+    console.log(JSON.stringify({ ok, ...res }, null, 2));
+    if (!ok) {
+      process.exitCode = 1;
+    }
+  });
 
-    // Print only non-sensitive outputs.
-    console.log(JSON.stringify({
-      ok: true,
-      provider: "hetzner",
-      serverId: res.serverId,
-      ip: res.ip,
-      url: res.url,
-      gatewayToken: res.gatewayToken,
-    }, null, 2));
+program
+  .command("admin:orphans")
+  .description("List cloud servers and SSH keys the control plane created but no deployment references (admin)")
+  .requiredOption("--api-url <url>", "Control plane API base URL")
+  .requiredOption("--api-token <token>", "API token of a user listed in ADMIN_USER_IDS")
+  .option("--scan", "Scan every known provider account now instead of listing the last results")
+  .option("--status <status>", "orphaned|destroyed|resolved (without --scan)", "orphaned")
+  .action(async (opts) => {
+    const api = { apiUrl: String(opts.apiUrl), apiToken: String(opts.apiToken) };
+    if (opts.scan) {
+      const res = await controlPlaneRequest<{ report: Record<string, unknown> }>(api, "POST", "/v1/admin/orphans/scan");
+      console.log(JSON.stringify({ ok: true, ...res.report }, null, 2));
+      return;
+    }
+    const res = await controlPlaneRequest<{ orphans: unknown[] }>(
+      api,
+      "GET",
+      `/v1/admin/orphans?status=${encodeURIComponent(String(opts.status))}&limit=200`,
+    );
+    console.log(JSON.stringify({ ok: true, orphans: res.orphans }, null, 2));
   });
 
 await program.parseAsync(process.argv);
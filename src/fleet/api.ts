@@ -0,0 +1,26 @@
+// Minimal client for the control plane API, used by the admin/fleet commands.
+export type ControlPlaneApi = {
+  apiUrl: string;
+  apiToken: string;
+};
+
+export async function controlPlaneRequest<T>(
+  api: ControlPlaneApi,
+  method: string,
+  path: string,
+  body?: unknown,
+): Promise<T> {
+  const response = await fetch(`${api.apiUrl.replace(/\/+$/, "")}${path}`, {
+    method,
+    headers: {
+      authorization: `Bearer ${api.apiToken}`,
+      ...(body ? { "content-type": "application/json" } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const json = (await response.json().catch(() => null)) as (T & { error?: string }) | null;
+  if (!response.ok) {
+    throw new Error(`${method} ${path} failed (${response.status}): ${json?.error ?? response.statusText}`);
+  }
+  return json as T;
+}
@@ -0,0 +1,154 @@
+import { ControlPlaneApi, controlPlaneRequest } from "./api.js";
+
+// Batched openclaw upgrades across every running deployment of a control plane, driven through its admin API.
+// Each batch is queued, then polled until every deployment in it has finished (the worker rolls back a
+// deployment whose gateway doesn't come back), and the rollout stops once too many upgrades have failed.
+
+export type FleetUpgradeParams = ControlPlaneApi & {
+  version: string;
+  batchSize: number;
+  // Failed upgrades tolerated before the rollout halts.
+  maxFailures: number;
+  provider?: string;
+  pollIntervalMs: number;
+  // Per deployment, counted from when its batch was queued.
+  timeoutMs: number;
+  dryRun: boolean;
+  onProgress?: (message: string) => void;
+};
+
+export type FleetUpgradeResult = {
+  id: string;
+  name: string;
+  fromVersion: string | null;
+  outcome: "upgraded" | "unchanged" | "failed" | "timed_out" | "not_queued";
+  detail?: string;
+};
+
+type AdminDeployment = {
+  id: string;
+  name: string;
+  provider: string;
+  status: string;
+  activeTask: string | null;
+  config: { openclawVersion?: string };
+};
+
+type AdminEvent = { type: string; payload: Record<string, unknown> };
+
+const PAGE_SIZE = 200;
+
+async function listRunningDeployments(params: FleetUpgradeParams): Promise<AdminDeployment[]> {
+  const deployments: AdminDeployment[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await controlPlaneRequest<{ deployments: AdminDeployment[] }>(
+      params,
+      "GET",
+      `/v1/admin/deployments?status=running&limit=${PAGE_SIZE}&offset=${offset}`,
+    );
+    deployments.push(...page.deployments);
+    if (page.deployments.length < PAGE_SIZE) return deployments;
+  }
+}
+
+// Events are newest first, so the first upgrade outcome is the one for the upgrade just queued.
+function upgradeOutcome(deployment: AdminDeployment, events: AdminEvent[]): Pick<FleetUpgradeResult, "outcome" | "detail"> {
+  if (deployment.status !== "running") {
+    return { outcome: "failed", detail: `deployment is ${deployment.status}` };
+  }
+  const last = events.find((event) => event.type === "deployment.upgraded" || event.type === "deployment.upgrade.failed");
+  if (last?.type === "deployment.upgraded") {
+    return { outcome: "upgraded", detail: `openclaw@${deployment.config.openclawVersion}` };
+  }
+  return { outcome: "failed", detail: typeof last?.payload.error === "string" ? last.payload.error : "upgrade did not complete" };
+}
+
+async function waitForUpgrade(params: FleetUpgradeParams, deployment: AdminDeployment, deadline: number) {
+  for (;;) {
+    const detail = await controlPlaneRequest<{ deployment: AdminDeployment; events: AdminEvent[] }>(
+      params,
+      "GET",
+      `/v1/admin/deployments/${encodeURIComponent(deployment.id)}`,
+    );
+    if (detail.deployment.activeTask !== "upgrade") {
+      return upgradeOutcome(detail.deployment, detail.events);
+    }
+    if (Date.now() >= deadline) {
+      return { outcome: "timed_out" as const, detail: "still upgrading; check the deployment timeline" };
+    }
+    await new Promise((resolve) => setTimeout(resolve, params.pollIntervalMs));
+  }
+}
+
+export async function runFleetUpgrade(params: FleetUpgradeParams) {
+  const log = params.onProgress ?? (() => {});
+  const running = await listRunningDeployments(params);
+  const candidates = running.filter(
+    (deployment) =>
+      (!params.provider || deployment.provider === params.provider) &&
+      (params.version === "latest" || deployment.config.openclawVersion !== params.version),
+  );
+  log(`${candidates.length} of ${running.length} running deployments to upgrade to openclaw@${params.version}`);
+
+  const results: FleetUpgradeResult[] = [];
+  if (params.dryRun) {
+    return {
+      version: params.version,
+      dryRun: true,
+      halted: false,
+      candidates: candidates.map((deployment) => ({
+        id: deployment.id,
+        name: deployment.name,
+        fromVersion: deployment.config.openclawVersion ?? null,
+      })),
+      results,
+    };
+  }
+
+  let failures = 0;
+  let halted = false;
+  for (let start = 0; start < candidates.length; start += params.batchSize) {
+    const batch = candidates.slice(start, start + params.batchSize);
+    log(`batch ${start / params.batchSize + 1}: ${batch.map((deployment) => deployment.name).join(", ")}`);
+    const deadline = Date.now() + params.timeoutMs;
+
+    const queued: AdminDeployment[] = [];
+    for (const deployment of batch) {
+      const base = { id: deployment.id, name: deployment.name, fromVersion: deployment.config.openclawVersion ?? null };
+      try {
+        const res = await controlPlaneRequest<{ changed: boolean }>(
+          params,
+          "POST",
+          `/v1/admin/deployments/${encodeURIComponent(deployment.id)}/upgrade`,
+          { version: params.version },
+        );
+        if (res.changed) {
+          queued.push(deployment);
+        } else {
+          results.push({ ...base, outcome: "unchanged" });
+        }
+      } catch (error) {
+        results.push({ ...base, outcome: "not_queued", detail: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    for (const deployment of queued) {
+      const outcome = await waitForUpgrade(params, deployment, deadline);
+      results.push({
+        id: deployment.id,
+        name: deployment.name,
+        fromVersion: deployment.config.openclawVersion ?? null,
+        ...outcome,
+      });
+      log(`${deployment.name}: ${outcome.outcome}${outcome.detail ? ` (${outcome.detail})` : ""}`);
+    }
+
+    failures = results.filter((result) => result.outcome === "failed" || result.outcome === "timed_out").length;
+    if (failures > params.maxFailures) {
+      halted = start + params.batchSize < candidates.length;
+      break;
+    }
+  }
+
+  return { version: params.version, dryRun: false, halted, failures, results };
+}
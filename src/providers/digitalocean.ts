@@ -0,0 +1,180 @@
+import type { CloudProvider, CloudServer, CloudServerSpec } from "./types.js";
+
+const BASE_URL = "https://api.digitalocean.com/v2";
+
+export type DigitalOceanDroplet = {
+  id: number;
+  name: string;
+  status: string;
+  created_at: string;
+  tags?: string[];
+  networks?: {
+    v4?: Array<{ ip_address: string; type: string }>;
+    v6?: Array<{ ip_address: string; type: string }>;
+  };
+};
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+export class DigitalOceanClient {
+  readonly token: string;
+  readonly baseUrl: string;
+
+  constructor(token: string, opts?: { baseUrl?: string }) {
+    if (!token) throw new Error("Missing DigitalOcean API token");
+    this.token = token;
+    this.baseUrl = String(opts?.baseUrl || BASE_URL).replace(/\/+$/, "");
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const res = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        authorization: `Bearer ${this.token}`,
+        "content-type": "application/json",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const text = await res.text();
+    const data = text ? (JSON.parse(text) as T & { message?: string }) : ({} as T);
+
+    if (!res.ok) {
+      const msg = (data as any)?.message || `DigitalOcean API error (${res.status})`;
+      const err = new Error(msg);
+      (err as any).statusCode = res.status;
+      (err as any).details = data;
+      throw err;
+    }
+
+    return data;
+  }
+
+  async createSshKey(params: { name: string; public_key: string }) {
+    return await this.request<{ ssh_key: { id: number; name: string } }>("POST", "/account/keys", params);
+  }
+
+  async deleteSshKey(id: number) {
+    await this.request<unknown>("DELETE", `/account/keys/${id}`);
+  }
+
+  async createDroplet(payload: unknown) {
+    return await this.request<{ droplet: DigitalOceanDroplet }>("POST", "/droplets", payload);
+  }
+
+  async getDroplet(id: number) {
+    return await this.request<{ droplet: DigitalOceanDroplet }>("GET", `/droplets/${id}`);
+  }
+
+  async deleteDroplet(id: number) {
+    await this.request<unknown>("DELETE", `/droplets/${id}`);
+  }
+
+  async listDropletsByTag(tag: string) {
+    const droplets: DigitalOceanDroplet[] = [];
+    for (let page = 1; ; page++) {
+      const query = new URLSearchParams({ tag_name: tag, per_page: "200", page: String(page) });
+      const res = await this.request<{ droplets: DigitalOceanDroplet[]; links?: { pages?: { next?: string } } }>(
+        "GET",
+        `/droplets?${query.toString()}`,
+      );
+      droplets.push(...(res.droplets ?? []));
+      if (!res.links?.pages?.next) return droplets;
+    }
+  }
+
+  async waitForDropletActive(id: number, opts?: { timeoutMs?: number; intervalMs?: number }) {
+    const timeoutMs = opts?.timeoutMs ?? 180_000;
+    const intervalMs = opts?.intervalMs ?? 2500;
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const { droplet } = await this.getDroplet(id);
+      const hasPublicIp = (droplet.networks?.v4 ?? []).some((n) => n.type === "public");
+      if (droplet.status === "active" && hasPublicIp) return droplet;
+      await sleep(intervalMs);
+    }
+
+    throw new Error(`Timeout waiting for DigitalOcean droplet ${id} to become active`);
+  }
+}
+
+// DigitalOcean has tags instead of key/value labels, so labels are stored as "key:value" tags.
+function labelsToTags(labels: Record<string, string>): string[] {
+  return Object.entries(labels).map(([k, v]) => `${k}:${v}`);
+}
+
+function tagsToLabels(tags: string[] | undefined): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const tag of tags ?? []) {
+    const idx = tag.indexOf(":");
+    if (idx > 0) labels[tag.slice(0, idx)] = tag.slice(idx + 1);
+  }
+  return labels;
+}
+
+function toCloudServer(droplet: DigitalOceanDroplet): CloudServer {
+  const ipv4 = (droplet.networks?.v4 ?? []).find((n) => n.type === "public")?.ip_address ?? null;
+  return {
+    id: droplet.id,
+    name: droplet.name,
+    status: droplet.status,
+    ipv4,
+    labels: tagsToLabels(droplet.tags),
+    createdAt: droplet.created_at,
+  };
+}
+
+export class DigitalOceanProvider implements CloudProvider {
+  readonly name = "digitalocean" as const;
+  readonly label = "DigitalOcean";
+  private readonly client: DigitalOceanClient;
+
+  constructor(token: string, opts?: { baseUrl?: string }) {
+    this.client = new DigitalOceanClient(token, opts);
+  }
+
+  async createSshKey(params: { name: string; publicKey: string }) {
+    const res = await this.client.createSshKey({ name: params.name, public_key: params.publicKey });
+    return { id: res.ssh_key.id, name: res.ssh_key.name };
+  }
+
+  async deleteSshKey(id: number) {
+    await this.client.deleteSshKey(id);
+  }
+
+  async createServer(spec: CloudServerSpec) {
+    const { droplet } = await this.client.createDroplet({
+      name: spec.name,
+      region: spec.location,
+      size: spec.serverType,
+      image: spec.image,
+      ssh_keys: spec.sshKeyIds,
+      tags: labelsToTags(spec.labels),
+      ipv6: true,
+    });
+    return toCloudServer(droplet);
+  }
+
+  async waitForServer(id: number, opts?: { timeoutMs?: number }) {
+    return toCloudServer(await this.client.waitForDropletActive(id, { timeoutMs: opts?.timeoutMs }));
+  }
+
+  async getServer(id: number) {
+    return toCloudServer((await this.client.getDroplet(id)).droplet);
+  }
+
+  async deleteServer(id: number) {
+    await this.client.deleteDroplet(id);
+  }
+
+  async listServersByLabel(labels: Record<string, string>) {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) throw new Error("listServersByLabel requires at least one label");
+    // The API filters by a single tag; the remaining labels are matched locally.
+    const droplets = await this.client.listDropletsByTag(`${entries[0][0]}:${entries[0][1]}`);
+    return droplets.map(toCloudServer).filter((s) => entries.every(([k, v]) => s.labels[k] === v));
+  }
+}
@@ -1,3 +1,5 @@
+import type { CloudProvider, CloudServer, CloudServerSpec } from "./types.js";
+
 const BASE_URL = "https://api.hetzner.cloud/v1";
 
 export type HetznerServer = {
@@ -5,6 +7,7 @@ export type HetznerServer = {
   name: string;
   status: string;
   created: string;
+  labels?: Record<string, string>;
   public_net?: {
     ipv4?: { ip?: string | null };
     ipv6?: { ip?: string | null };
@@ -60,6 +63,10 @@ export class HetznerClient {
     return await this.request<{ ssh_key: { id: number; name: string } }>("POST", "/ssh_keys", params);
   }
 
+  async deleteSshKey(id: number) {
+    return await this.request<{ action?: HetznerAction }>("DELETE", `/ssh_keys/${id}`);
+  }
+
   async createServer(payload: unknown) {
     return await this.request<{ server: HetznerServer; action?: HetznerAction }>("POST", "/servers", payload);
   }
@@ -68,6 +75,20 @@ export class HetznerClient {
     return await this.request<{ server: HetznerServer }>("GET", `/servers/${id}`);
   }
 
+  async listServers(params: { labelSelector?: string } = {}) {
+    const servers: HetznerServer[] = [];
+    let page: number | null = 1;
+    while (page) {
+      const query = new URLSearchParams({ per_page: "50", page: String(page) });
+      if (params.labelSelector) query.set("label_selector", params.labelSelector);
+      const res: { servers: HetznerServer[]; meta?: { pagination?: { next_page?: number | null } } } =
+        await this.request("GET", `/servers?${query.toString()}`);
+      servers.push(...(res.servers ?? []));
+      page = res.meta?.pagination?.next_page ?? null;
+    }
+    return servers;
+  }
+
   async deleteServer(id: number) {
     return await this.request<{ action?: HetznerAction }>("DELETE", `/servers/${id}`);
   }
@@ -91,3 +112,75 @@ export class HetznerClient {
     throw new Error(`Timeout waiting for Hetzner action ${id}`);
   }
 }
+
+function toCloudServer(server: HetznerServer): CloudServer {
+  return {
+    id: server.id,
+    name: server.name,
+    status: server.status,
+    ipv4: server.public_net?.ipv4?.ip ?? null,
+    labels: server.labels ?? {},
+    createdAt: server.created,
+  };
+}
+
+export class HetznerProvider implements CloudProvider {
+  readonly name = "hetzner" as const;
+  readonly label = "Hetzner";
+  private readonly client: HetznerClient;
+  private readonly createActions = new Map<number, number>();
+
+  constructor(token: string) {
+    this.client = new HetznerClient(token);
+  }
+
+  async createSshKey(params: { name: string; publicKey: string }) {
+    const res = await this.client.createSshKey({ name: params.name, public_key: params.publicKey });
+    return { id: res.ssh_key.id, name: res.ssh_key.name };
+  }
+
+  async deleteSshKey(id: number) {
+    await this.client.deleteSshKey(id);
+  }
+
+  async createServer(spec: CloudServerSpec) {
+    const create = await this.client.createServer({
+      name: spec.name,
+      server_type: spec.serverType,
+      image: spec.image,
+      location: spec.location,
+      ssh_keys: spec.sshKeyIds,
+      start_after_create: true,
+      public_net: { enable_ipv4: true, enable_ipv6: true },
+      labels: spec.labels,
+    });
+    if (create.action?.id) this.createActions.set(create.server.id, create.action.id);
+    return toCloudServer(create.server);
+  }
+
+  async waitForServer(id: number, opts?: { timeoutMs?: number }) {
+    const actionId = this.createActions.get(id);
+    if (actionId) {
+      await this.client.waitForAction(actionId, { timeoutMs: opts?.timeoutMs ?? 180_000 });
+      this.createActions.delete(id);
+    }
+    return await this.getServer(id);
+  }
+
+  async getServer(id: number) {
+    return toCloudServer((await this.client.getServer(id)).server);
+  }
+
+  async deleteServer(id: number) {
+    const deletion = await this.client.deleteServer(id);
+    const actionId = deletion.action?.id;
+    if (actionId) await this.client.waitForAction(actionId, { timeoutMs: 180_000 });
+  }
+
+  async listServersByLabel(labels: Record<string, string>) {
+    const labelSelector = Object.entries(labels)
+      .map(([k, v]) => `${k}==${v}`)
+      .join(",");
+    return (await this.client.listServers({ labelSelector })).map(toCloudServer);
+  }
+}
@@ -0,0 +1,15 @@
+import { DigitalOceanProvider } from "./digitalocean.js";
+import { HetznerProvider } from "./hetzner.js";
+import type { CloudProvider, CloudProviderName } from "./types.js";
+
+export const CLOUD_PROVIDER_DEFAULTS: Record<
+  CloudProviderName,
+  { serverType: string; image: string; location: string }
+> = {
+  hetzner: { serverType: "cx23", image: "ubuntu-24.04", location: "nbg1" },
+  digitalocean: { serverType: "s-2vcpu-4gb", image: "ubuntu-24-04-x64", location: "fra1" },
+};
+
+export function createCloudProvider(name: CloudProviderName, token: string): CloudProvider {
+  return name === "digitalocean" ? new DigitalOceanProvider(token) : new HetznerProvider(token);
+}
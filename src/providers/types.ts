@@ -0,0 +1,38 @@
+export type CloudProviderName = "hetzner" | "digitalocean";
+
+export type CloudServer = {
+  id: number;
+  name: string;
+  status: string;
+  ipv4: string | null;
+  labels: Record<string, string>;
+  createdAt: string;
+};
+
+export type CloudServerSpec = {
+  name: string;
+  // Hetzner server type / DigitalOcean size slug.
+  serverType: string;
+  image: string;
+  // Hetzner location / DigitalOcean region slug.
+  location: string;
+  sshKeyIds: number[];
+  labels: Record<string, string>;
+};
+
+export interface CloudProvider {
+  readonly name: CloudProviderName;
+  readonly label: string;
+  createSshKey(params: { name: string; publicKey: string }): Promise<{ id: number; name: string }>;
+  deleteSshKey(id: number): Promise<void>;
+  createServer(spec: CloudServerSpec): Promise<CloudServer>;
+  // Resolves once the server finished booting; `ipv4` may still be null on some providers.
+  waitForServer(id: number, opts?: { timeoutMs?: number }): Promise<CloudServer>;
+  getServer(id: number): Promise<CloudServer>;
+  deleteServer(id: number): Promise<void>;
+  listServersByLabel(labels: Record<string, string>): Promise<CloudServer[]>;
+}
+
+export function isProviderNotFound(error: unknown): boolean {
+  return Number((error as any)?.statusCode || 0) === 404;
+}
@@ -0,0 +1,113 @@
+import crypto from "node:crypto";
+import { buildRemoteBootstrapScript } from "./remote-script.js";
+import { detectTailnetUrl, runRemoteScript, SshTarget } from "./ssh.js";
+
+// One guild of the Discord allowlist. Channels answer only when mentioned unless `requireMention` is false, for the
+// guild or for a single channel; `users` limits who can talk to the bot there. Same shape as the control plane's.
+export type DiscordGuild = {
+  guildId: string;
+  channelIds: Array<string | { id: string; requireMention?: boolean }>;
+  requireMention?: boolean;
+  users?: string[];
+};
+
+// OpenClaw/Tailscale settings shared by every install target (cloud servers and BYO hosts).
+export type BootstrapParams = {
+  tailscaleAuthKey: string;
+  tailscaleHostname?: string;
+  minimaxApiKey?: string;
+  anthropicApiKey?: string;
+  openaiApiKey?: string;
+  authChoice: "skip" | "minimax-api" | "anthropic-api-key" | "openai-api-key";
+  discordBotToken?: string;
+  discordGroupPolicy?: "open" | "allowlist" | "disabled";
+  discordGuildId?: string;
+  discordChannelIds?: string[];
+  // Several guilds, instead of discordGuildId + discordChannelIds.
+  discordGuilds?: DiscordGuild[];
+  // npm version or dist-tag of the openclaw package (default: latest).
+  openclawVersion?: string;
+};
+
+export function toRfc1123Label(value: string): string {
+  const normalized = String(value || "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-+/, "")
+    .replace(/-+$/, "");
+
+  const sliced = normalized.slice(0, 63).replace(/-+$/, "");
+  const candidate = sliced || "openclaw";
+
+  if (!/^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/.test(candidate)) {
+    return "openclaw";
+  }
+  return candidate;
+}
+
+export function newGatewayToken(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+// Validate inputs up-front, before touching any machine or creating billable resources.
+export function validateBootstrapParams(params: BootstrapParams) {
+  if (!params.tailscaleAuthKey) {
+    throw new Error("tailscaleAuthKey is required (use an ephemeral auth key)");
+  }
+
+  const effectiveDiscordGroupPolicy =
+    params.discordGroupPolicy ?? (params.discordBotToken ? "allowlist" : "disabled");
+  if (params.discordBotToken && effectiveDiscordGroupPolicy === "allowlist" && !params.discordGuilds?.length) {
+    if (!params.discordGuildId) {
+      throw new Error("discordGuildId is required when discordGroupPolicy=allowlist");
+    }
+    const channels = Array.isArray(params.discordChannelIds) ? params.discordChannelIds : [];
+    if (channels.length === 0) {
+      throw new Error("discordChannelIds is required when discordGroupPolicy=allowlist");
+    }
+  }
+}
+
+export async function bootstrapOpenClaw(
+  target: SshTarget,
+  params: BootstrapParams & { name: string; gatewayToken: string },
+) {
+  const tailscaleHostname = toRfc1123Label(params.tailscaleHostname ?? params.name);
+  const effectiveDiscordGroupPolicy =
+    params.discordGroupPolicy ?? (params.discordBotToken ? "allowlist" : "disabled");
+
+  const script = buildRemoteBootstrapScript({
+    gatewayPort: 18789,
+    gatewayBind: "loopback",
+    gatewayToken: params.gatewayToken,
+    tailscaleMode: "serve",
+    sshPort: target.port,
+    authChoice: params.authChoice,
+    minimaxApiKey: params.minimaxApiKey,
+    anthropicApiKey: params.anthropicApiKey,
+    openaiApiKey: params.openaiApiKey,
+    discordBotToken: params.discordBotToken,
+    discordGroupPolicy: effectiveDiscordGroupPolicy as any,
+    discordGuildId: params.discordGuildId,
+    discordChannelIds: params.discordChannelIds,
+    discordGuilds: params.discordGuilds,
+    openclawVersion: params.openclawVersion,
+  });
+
+  // Execute it with secrets passed via env vars.
+  const env: Record<string, string> = {
+    OPENCLAW_GATEWAY_TOKEN: params.gatewayToken,
+  };
+  if (params.minimaxApiKey) env.MINIMAX_API_KEY = params.minimaxApiKey;
+  if (params.anthropicApiKey) env.ANTHROPIC_API_KEY = params.anthropicApiKey;
+  if (params.openaiApiKey) env.OPENAI_API_KEY = params.openaiApiKey;
+  if (params.discordBotToken) env.DISCORD_BOT_TOKEN = params.discordBotToken;
+  env.TAILSCALE_AUTH_KEY = params.tailscaleAuthKey;
+  env.TAILSCALE_HOSTNAME = tailscaleHostname;
+
+  await runRemoteScript(target, "clawpad-bootstrap.sh", script, env);
+
+  return { tailnetUrl: await detectTailnetUrl(target) };
+}
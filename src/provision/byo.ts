@@ -0,0 +1,33 @@
+import { BootstrapParams, bootstrapOpenClaw, newGatewayToken, validateBootstrapParams } from "./bootstrap.js";
+import { buildRemoteUninstallScript } from "./remote-script.js";
+import { runRemoteScript, SshTarget, waitForSsh } from "./ssh.js";
+
+export type ByoInstallParams = BootstrapParams & {
+  target: SshTarget;
+  // Used as the default Tailscale hostname.
+  name: string;
+};
+
+// Installs OpenClaw on an existing Debian/Ubuntu machine. Nothing is created that we would have to pay for,
+// so a failed install is left as-is; `byo:uninstall` reverts a partial install.
+export async function installByo(params: ByoInstallParams) {
+  validateBootstrapParams(params);
+
+  // The machine is already up, so a short wait is enough to tell "unreachable" from "slow".
+  await waitForSsh(params.target, { timeoutMs: 30_000 });
+
+  const gatewayToken = newGatewayToken();
+  const { tailnetUrl } = await bootstrapOpenClaw(params.target, { ...params, gatewayToken });
+
+  return {
+    host: params.target.host,
+    gatewayToken,
+    url: tailnetUrl,
+  };
+}
+
+export async function uninstallByo(target: SshTarget) {
+  await waitForSsh(target, { timeoutMs: 30_000 });
+  await runRemoteScript(target, "clawpad-uninstall.sh", buildRemoteUninstallScript());
+  return { host: target.host };
+}
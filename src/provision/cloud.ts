@@ -0,0 +1,292 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createCloudProvider } from "../providers/index.js";
+import { CloudProvider, CloudProviderName, isProviderNotFound } from "../providers/types.js";
+import { BootstrapParams, bootstrapOpenClaw, newGatewayToken, validateBootstrapParams } from "./bootstrap.js";
+import { SshTarget, waitForSsh } from "./ssh.js";
+import {
+  LocalServerRecord,
+  listServerRecords,
+  readServerRecord,
+  removeServerKnownHosts,
+  removeServerRecord,
+  serverKnownHostsPath,
+  writeServerRecord,
+} from "./state.js";
+
+export type CloudProvisionParams = BootstrapParams & {
+  provider: CloudProviderName;
+  apiToken: string;
+  name: string;
+  serverType: string;
+  image: string;
+  location: string;
+  sshPublicKeyPath: string;
+  // Leave created resources in place when provisioning fails (for debugging).
+  keepOnFailure?: boolean;
+};
+
+type ProvisionedResources = {
+  serverId: number | null;
+  sshKeyId: number | null;
+  ip: string | null;
+};
+
+export class ProvisionError extends Error {
+  readonly resources: ProvisionedResources;
+  readonly cleanup: CloudCleanupResult | null;
+
+  constructor(message: string, resources: ProvisionedResources, cleanup: CloudCleanupResult | null) {
+    super(message);
+    this.name = "ProvisionError";
+    this.resources = resources;
+    this.cleanup = cleanup;
+  }
+}
+
+function expandHome(p: string): string {
+  if (p.startsWith("~/")) return path.join(os.homedir(), p.slice(2));
+  return p;
+}
+
+export async function provisionCloud(params: CloudProvisionParams) {
+  const provider = createCloudProvider(params.provider, params.apiToken);
+
+  validateBootstrapParams(params);
+
+  const pubPath = expandHome(params.sshPublicKeyPath);
+  const pub = fs.readFileSync(pubPath, "utf8").trim();
+  if (!pub.startsWith("ssh-")) {
+    throw new Error(`Not an SSH public key: ${pubPath}`);
+  }
+
+  const gatewayToken = newGatewayToken();
+  const created: ProvisionedResources = { serverId: null, sshKeyId: null, ip: null };
+
+  try {
+    const sshKeyName = `clawpad-${os.hostname()}-${Date.now()}`;
+    const sshKey = await provider.createSshKey({ name: sshKeyName, publicKey: pub });
+    const sshKeyId = sshKey.id;
+    created.sshKeyId = sshKeyId;
+
+    const create = await provider.createServer({
+      name: params.name,
+      serverType: params.serverType,
+      image: params.image,
+      location: params.location,
+      sshKeyIds: [sshKeyId],
+      labels: { "managed-by": "claw-launchpad" },
+    });
+    created.serverId = create.id;
+
+    const serverId = create.id;
+    const latest = await provider.waitForServer(serverId, { timeoutMs: 180_000 });
+    const ip = latest.ipv4;
+    if (!ip) {
+      throw new Error("No ipv4 assigned yet");
+    }
+    created.ip = ip;
+
+    const target: SshTarget = {
+      host: ip,
+      user: "root",
+      port: 22,
+      knownHostsFile: serverKnownHostsPath(provider.name, serverId),
+    };
+    await waitForSsh(target);
+    const { tailnetUrl } = await bootstrapOpenClaw(target, { ...params, gatewayToken });
+
+    // Persist metadata locally.
+    writeServerRecord({
+      provider: provider.name,
+      serverId,
+      sshKeyId,
+      ip,
+      name: params.name,
+      gatewayToken,
+      tailnetUrl,
+      createdAt: new Date().toISOString(),
+    });
+
+    return {
+      serverId,
+      ip,
+      gatewayToken,
+      url: tailnetUrl ?? `http://${ip}/`,
+    };
+  } catch (error) {
+    throw await rollbackFailedProvision(provider, error, created, {
+      keepOnFailure: Boolean(params.keepOnFailure),
+      name: params.name,
+      gatewayToken,
+    });
+  }
+}
+
+export type CloudCleanupResult = {
+  cleanedServer: boolean;
+  cleanedSshKey: boolean;
+  cleanupErrors: string[];
+};
+
+export type CloudServerStatus = Omit<LocalServerRecord, "gatewayToken"> & {
+  // "missing" means the local record points at a server the provider no longer knows about.
+  state: "present" | "missing" | "unknown";
+  live: {
+    status: string;
+    ip: string | null;
+    created: string;
+  } | null;
+  error?: string;
+};
+
+async function describeServer(provider: CloudProvider, record: LocalServerRecord): Promise<CloudServerStatus> {
+  const { gatewayToken: _gatewayToken, ...rest } = record;
+  try {
+    const server = await provider.getServer(record.serverId);
+    return {
+      ...rest,
+      state: "present",
+      live: {
+        status: server.status,
+        ip: server.ipv4,
+        created: server.createdAt,
+      },
+    };
+  } catch (error) {
+    if (isProviderNotFound(error)) {
+      return { ...rest, state: "missing", live: null };
+    }
+    return {
+      ...rest,
+      state: "unknown",
+      live: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function requireRecord(provider: CloudProvider, serverId: number): LocalServerRecord {
+  const record = readServerRecord(provider.name, serverId);
+  if (!record) {
+    throw new Error(`No local ${provider.label} record for server ${serverId} in .clawpad/`);
+  }
+  return record;
+}
+
+export async function cleanupCloudResources(
+  provider: CloudProvider,
+  resources: { serverId?: number | null; sshKeyId?: number | null },
+): Promise<CloudCleanupResult> {
+  const cleanupErrors: string[] = [];
+  let cleanedServer = false;
+  let cleanedSshKey = false;
+
+  if (resources.serverId) {
+    try {
+      await provider.deleteServer(resources.serverId);
+      cleanedServer = true;
+    } catch (error) {
+      if (isProviderNotFound(error)) {
+        cleanedServer = true;
+      } else {
+        cleanupErrors.push(`delete server: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  if (resources.sshKeyId) {
+    try {
+      await provider.deleteSshKey(resources.sshKeyId);
+      cleanedSshKey = true;
+    } catch (error) {
+      if (isProviderNotFound(error)) {
+        cleanedSshKey = true;
+      } else {
+        cleanupErrors.push(`delete ssh key: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  return { cleanedServer, cleanedSshKey, cleanupErrors };
+}
+
+// Records what a failed provision left behind so `<provider>:destroy` can clean it up later. The record is keyed
+// by server id, so a failure before the server was created has nothing to record.
+function recordLeftoverResources(
+  provider: CloudProvider,
+  resources: ProvisionedResources,
+  opts: { name: string; gatewayToken: string },
+) {
+  if (!resources.serverId) return;
+  writeServerRecord({
+    provider: provider.name,
+    serverId: resources.serverId,
+    sshKeyId: resources.sshKeyId,
+    ip: resources.ip,
+    name: opts.name,
+    gatewayToken: opts.gatewayToken,
+    tailnetUrl: null,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+async function rollbackFailedProvision(
+  provider: CloudProvider,
+  error: unknown,
+  created: ProvisionedResources,
+  opts: { keepOnFailure: boolean; name: string; gatewayToken: string },
+): Promise<ProvisionError> {
+  const message = error instanceof Error ? error.message : String(error);
+  const resources = { ...created };
+
+  if (opts.keepOnFailure) {
+    recordLeftoverResources(provider, resources, opts);
+    return new ProvisionError(message, resources, null);
+  }
+
+  const cleanup = await cleanupCloudResources(provider, resources);
+  if (resources.serverId && cleanup.cleanedServer) {
+    removeServerKnownHosts(provider.name, resources.serverId);
+  }
+  // Whatever the automatic cleanup could not delete keeps billing; `<provider>:destroy` retries it from the record.
+  if (!cleanup.cleanedServer || cleanup.cleanupErrors.length > 0) {
+    recordLeftoverResources(provider, resources, opts);
+  }
+  return new ProvisionError(message, resources, cleanup);
+}
+
+export async function listServers(params: { provider: CloudProviderName; apiToken: string }) {
+  const provider = createCloudProvider(params.provider, params.apiToken);
+  const statuses: CloudServerStatus[] = [];
+  for (const record of listServerRecords(provider.name)) {
+    statuses.push(await describeServer(provider, record));
+  }
+  return statuses;
+}
+
+export async function getServerStatus(params: { provider: CloudProviderName; apiToken: string; serverId: number }) {
+  const provider = createCloudProvider(params.provider, params.apiToken);
+  return await describeServer(provider, requireRecord(provider, params.serverId));
+}
+
+export async function destroyServer(params: { provider: CloudProviderName; apiToken: string; serverId: number }) {
+  const provider = createCloudProvider(params.provider, params.apiToken);
+  const record = requireRecord(provider, params.serverId);
+  const cleanup = await cleanupCloudResources(provider, {
+    serverId: record.serverId,
+    sshKeyId: record.sshKeyId,
+  });
+
+  // Keep the record around when anything failed so the command can be re-run.
+  if (cleanup.cleanupErrors.length === 0) {
+    removeServerRecord(provider.name, record.serverId);
+  }
+
+  return {
+    serverId: record.serverId,
+    sshKeyId: record.sshKeyId ?? null,
+    ...cleanup,
+  };
+}
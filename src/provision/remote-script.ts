@@ -1,8 +1,44 @@
+import type { DiscordGuild } from "./bootstrap.js";
+
+// The allowlist as `discordGuilds`, or the single guild of `discordGuildId` + `discordChannelIds`.
+function discordGuildEntries(params: {
+  discordGuildId?: string;
+  discordChannelIds?: string[];
+  discordGuilds?: DiscordGuild[];
+}): DiscordGuild[] {
+  if (params.discordGuilds?.length) return params.discordGuilds;
+  return params.discordGuildId ? [{ guildId: params.discordGuildId, channelIds: params.discordChannelIds ?? [] }] : [];
+}
+
+// OpenClaw's `channels.discord.guilds` map. Channels inherit the guild's requireMention unless they set their own.
+function discordGuildsConfig(guilds: DiscordGuild[]): Record<string, unknown> {
+  return Object.fromEntries(
+    guilds.map((guild) => {
+      const requireMention = guild.requireMention ?? true;
+      const channels = guild.channelIds.map((channel) =>
+        typeof channel === "string"
+          ? [channel, { allow: true, requireMention }]
+          : [channel.id, { allow: true, requireMention: channel.requireMention ?? requireMention }],
+      );
+      return [
+        String(guild.guildId),
+        {
+          requireMention,
+          ...(guild.users?.length ? { users: guild.users } : {}),
+          channels: Object.fromEntries(channels),
+        },
+      ];
+    }),
+  );
+}
+
 export function buildRemoteBootstrapScript(params: {
   gatewayPort: number;
   gatewayBind: "loopback" | "lan";
   gatewayToken: string;
   tailscaleMode: "off" | "serve";
+  // Port sshd listens on; the firewall keeps it open (BYO hosts may not use 22).
+  sshPort?: number;
   authChoice:
     | "skip"
     | "minimax-api"
@@ -16,11 +52,18 @@ export function buildRemoteBootstrapScript(params: {
   discordGroupPolicy?: "open" | "allowlist" | "disabled";
   discordGuildId?: string;
   discordChannelIds?: string[];
+  discordGuilds?: DiscordGuild[];
+  openclawVersion?: string;
 }): string {
   // IMPORTANT: This function uses a TS template string to generate a bash script.
   // Do not emit any literal "${...}" sequences inside the script, because those
   // would be parsed by TypeScript as template interpolation.
 
+  const openclawVersion = params.openclawVersion ?? "latest";
+  if (!/^(?:latest|\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?)$/.test(openclawVersion)) {
+    throw new Error(`Unsupported openclaw version: ${openclawVersion}`);
+  }
+
   const onboardKeyArg =
     params.authChoice === "minimax-api"
       ? '--minimax-api-key "$MINIMAX_API_KEY"'
@@ -34,33 +77,18 @@ export function buildRemoteBootstrapScript(params: {
   const allowlistEnabled = Boolean(
     params.discordBotToken && effectiveDiscordGroupPolicy === "allowlist",
   );
+  const discordGuilds = discordGuildEntries(params);
   if (allowlistEnabled) {
-    if (!params.discordGuildId) {
-      throw new Error("discordGuildId is required when discordGroupPolicy=allowlist");
+    if (discordGuilds.length === 0) {
+      throw new Error("discordGuilds or discordGuildId is required when discordGroupPolicy=allowlist");
     }
-    if (!Array.isArray(params.discordChannelIds) || params.discordChannelIds.length === 0) {
-      throw new Error("discordChannelIds is required when discordGroupPolicy=allowlist");
+    const emptyGuild = discordGuilds.find((guild) => guild.channelIds.length === 0);
+    if (emptyGuild) {
+      throw new Error(`Discord guild ${emptyGuild.guildId} needs at least one channel when discordGroupPolicy=allowlist`);
     }
   }
 
-  const discordGuildsJson =
-    allowlistEnabled
-      ? JSON.stringify(
-          {
-            [String(params.discordGuildId)]: {
-              requireMention: true,
-              channels: Object.fromEntries(
-                (params.discordChannelIds ?? []).map((channelId) => [
-                  String(channelId),
-                  { allow: true, requireMention: true },
-                ]),
-              ),
-            },
-          },
-          null,
-          0,
-        )
-      : "";
+  const discordGuildsJson = allowlistEnabled ? JSON.stringify(discordGuildsConfig(discordGuilds)) : "";
 
   const discordGroupPolicyJson = JSON.stringify(effectiveDiscordGroupPolicy);
 
@@ -124,7 +152,7 @@ apt-get update
 apt-get install -y nodejs
 
 # OpenClaw
-npm install -g openclaw@latest
+npm install -g openclaw@${openclawVersion}
 
 # Dedicated user + home
 if ! id -u openclaw >/dev/null 2>&1; then
@@ -188,9 +216,36 @@ systemctl restart openclaw-gateway
 
 # Firewall
 ufw allow OpenSSH
+ufw allow ${params.sshPort ?? 22}/tcp
 ufw allow 41641/udp || true
 ufw --force enable
 
 echo "bootstrap complete"
 `;
 }
+
+// Reverses the bootstrap on a machine we do not own (BYO): stops and removes the gateway service and its
+// secrets, and logs the node out of the tailnet. /home/openclaw is left in place so workspace data survives.
+export function buildRemoteUninstallScript(): string {
+  return `#!/usr/bin/env bash
+set -o pipefail
+
+systemctl disable --now openclaw-gateway >/dev/null 2>&1 || true
+rm -f /etc/systemd/system/openclaw-gateway.service
+systemctl daemon-reload
+
+rm -rf /etc/openclaw
+rm -f /etc/sudoers.d/openclaw-tailscale
+
+if command -v tailscale >/dev/null 2>&1; then
+  tailscale serve reset >/dev/null 2>&1 || true
+  tailscale logout || true
+fi
+
+if command -v npm >/dev/null 2>&1; then
+  npm uninstall -g openclaw || true
+fi
+
+echo "uninstall complete"
+`;
+}
@@ -0,0 +1,100 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { run, runOrThrow } from "../util/sh.js";
+
+export type SshTarget = {
+  host: string;
+  user: string;
+  port: number;
+  // Private key to use instead of the ssh agent / default identities.
+  identityFile?: string;
+  // known_hosts file to use instead of ~/.ssh/known_hosts.
+  knownHostsFile?: string;
+};
+
+export function shellEscape(value: string): string {
+  // Safe for passing arbitrary bytes through a remote shell. Prevents expansions like $(), ``, $VAR, etc.
+  return `'${String(value).replace(/'/g, `'"'"'`)}'`;
+}
+
+// An unknown host's key is recorded on the first connection (the one waiting for a fresh server to boot); after
+// that, a host presenting any other key is refused.
+function sshOptions(target: SshTarget): string[] {
+  const opts = ["-o", "StrictHostKeyChecking=accept-new"];
+  if (target.knownHostsFile) opts.push("-o", `UserKnownHostsFile=${target.knownHostsFile}`);
+  if (target.identityFile) opts.push("-i", target.identityFile, "-o", "IdentitiesOnly=yes");
+  return opts;
+}
+
+function sshArgv(target: SshTarget, extra: string[] = []): string[] {
+  return ["ssh", ...sshOptions(target), ...extra, "-p", String(target.port), `${target.user}@${target.host}`];
+}
+
+// Non-root logins need passwordless sudo; `-n` makes sudo fail instead of hanging on a password prompt.
+export function asRoot(target: SshTarget, command: string): string {
+  return target.user === "root" ? command : `sudo -n ${command}`;
+}
+
+export async function runRemote(target: SshTarget, command: string) {
+  return await run([...sshArgv(target), command]);
+}
+
+export async function waitForSsh(target: SshTarget, opts?: { timeoutMs?: number }) {
+  const timeoutMs = opts?.timeoutMs ?? 180_000;
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const res = await run([...sshArgv(target, ["-o", "BatchMode=yes", "-o", "ConnectTimeout=5"]), "true"]);
+    if (res.code === 0) return;
+    await new Promise((r) => setTimeout(r, 2500));
+  }
+  throw new Error(`Timeout waiting for SSH on ${target.host}:${target.port}`);
+}
+
+// Copies `script` to the target and runs it as root with `env` passed on the command line.
+export async function runRemoteScript(
+  target: SshTarget,
+  fileName: string,
+  script: string,
+  env: Record<string, string> = {},
+) {
+  const tmp = path.join(os.tmpdir(), `${path.parse(fileName).name}-${Date.now()}.sh`);
+  fs.writeFileSync(tmp, script, { mode: 0o700 });
+  // Relative paths land in the login user's home (/root for root).
+  const remotePath = target.user === "root" ? `/root/${fileName}` : fileName;
+
+  try {
+    await runOrThrow(["scp", ...sshOptions(target), "-P", String(target.port), tmp, `${target.user}@${target.host}:${remotePath}`]);
+
+    const envPrefix = Object.entries(env)
+      .map(([k, v]) => `${k}=${shellEscape(v)}`)
+      .join(" ");
+    await runOrThrow([...sshArgv(target), asRoot(target, `env ${envPrefix} bash ${remotePath}`)]);
+  } finally {
+    fs.rmSync(tmp, { force: true });
+  }
+}
+
+export async function detectTailnetUrl(target: SshTarget): Promise<string | null> {
+  // Best-effort: if we can't detect it, users can still reach the gateway over Tailscale.
+  for (let attempt = 0; attempt < 12; attempt++) {
+    const res = await runRemote(target, "tailscale status --json");
+    if (res.code !== 0) {
+      await new Promise((r) => setTimeout(r, 2500));
+      continue;
+    }
+    try {
+      const parsed = JSON.parse(res.stdout) as any;
+      const self = parsed?.Self;
+      const dns = typeof self?.DNSName === "string" ? String(self.DNSName) : "";
+      const host = dns ? dns.replace(/\.$/, "") : Array.isArray(self?.TailscaleIPs) ? self.TailscaleIPs[0] : null;
+      if (host) {
+        return `https://${host}/`;
+      }
+    } catch {
+      // ignore and retry
+    }
+    await new Promise((r) => setTimeout(r, 2500));
+  }
+  return null;
+}
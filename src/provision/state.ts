@@ -0,0 +1,74 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { CloudProviderName } from "../providers/types.js";
+
+export type LocalServerRecord = {
+  provider: CloudProviderName;
+  serverId: number;
+  // Older records (written before lifecycle commands existed) have no key id.
+  sshKeyId?: number | null;
+  // Null when provisioning failed before an IPv4 was assigned (--keep-on-failure).
+  ip: string | null;
+  name: string;
+  gatewayToken: string;
+  tailnetUrl: string | null;
+  createdAt: string;
+};
+
+// Hetzner records predate other providers and keep the unprefixed `server-<id>.json` name.
+const RECORD_PATTERN = /^(?:(digitalocean)-)?server-(\d+)\.json$/;
+
+export function localStateDir(): string {
+  return path.join(process.cwd(), ".clawpad");
+}
+
+function recordName(provider: CloudProviderName, serverId: number): string {
+  const prefix = provider === "hetzner" ? "" : `${provider}-`;
+  return `${prefix}server-${serverId}`;
+}
+
+function recordPath(provider: CloudProviderName, serverId: number): string {
+  return path.join(localStateDir(), `${recordName(provider, serverId)}.json`);
+}
+
+// Each server gets its own known_hosts file, so a provider reusing an IP never clashes with
+// ~/.ssh/known_hosts and the key recorded on the first connection is the only one accepted afterwards.
+export function serverKnownHostsPath(provider: CloudProviderName, serverId: number): string {
+  const dir = path.join(localStateDir(), "known_hosts");
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  return path.join(dir, recordName(provider, serverId));
+}
+
+export function removeServerKnownHosts(provider: CloudProviderName, serverId: number) {
+  fs.rmSync(path.join(localStateDir(), "known_hosts", recordName(provider, serverId)), { force: true });
+}
+
+export function writeServerRecord(record: LocalServerRecord) {
+  fs.mkdirSync(localStateDir(), { recursive: true });
+  fs.writeFileSync(recordPath(record.provider, record.serverId), JSON.stringify(record, null, 2), { mode: 0o600 });
+}
+
+export function readServerRecord(provider: CloudProviderName, serverId: number): LocalServerRecord | null {
+  const file = recordPath(provider, serverId);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as LocalServerRecord;
+}
+
+export function listServerRecords(provider: CloudProviderName): LocalServerRecord[] {
+  const dir = localStateDir();
+  if (!fs.existsSync(dir)) return [];
+
+  const records: LocalServerRecord[] = [];
+  for (const entry of fs.readdirSync(dir)) {
+    const match = RECORD_PATTERN.exec(entry);
+    if (!match || (match[1] ?? "hetzner") !== provider) continue;
+    const record = readServerRecord(provider, Number(match[2]));
+    if (record) records.push(record);
+  }
+  return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function removeServerRecord(provider: CloudProviderName, serverId: number) {
+  fs.rmSync(recordPath(provider, serverId), { force: true });
+  removeServerKnownHosts(provider, serverId);
+}